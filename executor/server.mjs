@@ -0,0 +1,276 @@
+// Reference code executor implementing the same contract as the public one, so the
+// editor's Run button works in development without it. Not a sandbox: programs run
+// as the user starting the server, so only run it on your own machine or inside a
+// container.
+//
+//   POST /execute  { language, code, stdin?, args? }  ->  { stdout, stderr, compile?, run? } or { error }
+//   GET  /health                               ->  { ok, languages }
+//
+// `compile` and `run` report each step as { stdout, stderr, exitCode, signal, timedOut,
+// timeMs, memoryKb }; `memoryKb` is the peak resident size, measured on Linux only.
+//
+// Requests must send a token in the auth header and, from a browser, come from the
+// app's origin; POST bodies must be sent as application/json.
+//
+// Settings (environment variables):
+//   HOST                 Interface to listen on (default 127.0.0.1, this machine only)
+//   PORT                 Port to listen on (default 8787)
+//   EXECUTOR_ORIGINS     Comma-separated origins allowed to call it (default http://localhost:5173)
+//   EXECUTOR_TOKEN       Token requests must send in the auth header (default: a random one,
+//                        printed at startup)
+//   EXECUTOR_NO_AUTH     Set to 1 to accept requests without a token
+//   EXECUTOR_AUTH_HEADER Header carrying the token (default Authorization)
+//   EXECUTOR_TIMEOUT_MS  Time limit per compile or run step (default 10000)
+//   EXECUTOR_MAX_JOBS    Programs run at once before answering 503 (default 2)
+
+import { spawn, spawnSync } from 'node:child_process';
+import { randomBytes, timingSafeEqual } from 'node:crypto';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { createServer } from 'node:http';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+const HOST = process.env.HOST || '127.0.0.1';
+const PORT = Number(process.env.PORT) || 8787;
+const ORIGINS = (process.env.EXECUTOR_ORIGINS || 'http://localhost:5173').split(',').map(origin => origin.trim()).filter(Boolean);
+const NO_AUTH = process.env.EXECUTOR_NO_AUTH === '1';
+const TOKEN = NO_AUTH ? '' : process.env.EXECUTOR_TOKEN || randomBytes(24).toString('hex');
+const AUTH_HEADER = (process.env.EXECUTOR_AUTH_HEADER || 'Authorization').toLowerCase();
+const TIMEOUT_MS = Number(process.env.EXECUTOR_TIMEOUT_MS) || 10_000;
+const MAX_JOBS = Number(process.env.EXECUTOR_MAX_JOBS) || 2;
+const MAX_BODY_BYTES = 256 * 1024;
+const MAX_OUTPUT_BYTES = 64 * 1024;
+const MEMORY_POLL_MS = 10;
+const RETRY_AFTER_SECONDS = 2;
+
+/**
+ * How to build and run each language. `check` is a command that succeeds when the
+ * toolchain is installed; `compile` runs first when present.
+ */
+const LANGUAGES = {
+  python: { file: 'main.py', check: ['python3', '--version'], run: ['python3', 'main.py'] },
+  javascript: { file: 'main.js', check: ['node', '--version'], run: ['node', 'main.js'] },
+  // Node strips the types itself from version 22.6
+  typescript: { file: 'main.ts', check: ['node', '--experimental-strip-types', '-e', ''], run: ['node', '--experimental-strip-types', '--no-warnings', 'main.ts'] },
+  c: { file: 'main.c', check: ['gcc', '--version'], compile: ['gcc', '-O2', '-o', 'main', 'main.c', '-lm'], run: ['./main'] },
+  cpp: { file: 'main.cpp', check: ['g++', '--version'], compile: ['g++', '-O2', '-std=c++17', '-o', 'main', 'main.cpp'], run: ['./main'] },
+  // The single-file launcher doesn't need the file named after the public class
+  java: { file: 'Main.java', check: ['java', '--version'], run: ['java', 'Main.java'] },
+  go: { file: 'main.go', check: ['go', 'version'], compile: ['go', 'build', '-o', 'main', 'main.go'], run: ['./main'] },
+  rust: { file: 'main.rs', check: ['rustc', '--version'], compile: ['rustc', '-O', '-o', 'main', 'main.rs'], run: ['./main'] },
+  ruby: { file: 'main.rb', check: ['ruby', '--version'], run: ['ruby', 'main.rb'] },
+  php: { file: 'main.php', check: ['php', '--version'], run: ['php', 'main.php'] },
+  kotlin: { file: 'main.kt', check: ['kotlinc', '-version'], compile: ['kotlinc', 'main.kt', '-include-runtime', '-d', 'main.jar'], run: ['java', '-jar', 'main.jar'] },
+  erlang: { file: 'main.erl', check: ['erl', '-noshell', '-eval', 'halt().'], run: ['escript', 'main.erl'] },
+};
+
+function isInstalled([command, ...args]) {
+  const result = spawnSync(command, args, { stdio: 'ignore', timeout: 10_000 });
+  return !result.error && result.status === 0;
+}
+
+const available = Object.keys(LANGUAGES).filter(language => isInstalled(LANGUAGES[language].check));
+let runningJobs = 0;
+
+/**
+ * Peak resident memory of a running process in KB, from /proc; undefined elsewhere
+ */
+async function peakMemoryKb(pid) {
+  try {
+    const status = await readFile(`/proc/${pid}/status`, 'utf8');
+    const match = /^VmHWM:\s+(\d+) kB/m.exec(status);
+    return match ? Number(match[1]) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Run a command to completion
+ * @returns Its output, exit code or signal, whether it was killed for running too long,
+ * and its wall time and peak memory
+ */
+function runCommand([command, ...args], cwd, stdin) {
+  return new Promise(resolve => {
+    const started = performance.now();
+    const child = spawn(command, args, { cwd });
+    const output = { stdout: '', stderr: '' };
+    let timedOut = false;
+    let memoryKb;
+
+    // The high-water mark only goes up, so the last reading before exit is the peak
+    const memoryPoll = setInterval(async () => {
+      const kb = await peakMemoryKb(child.pid);
+      if (kb !== undefined) memoryKb = Math.max(memoryKb ?? 0, kb);
+    }, MEMORY_POLL_MS);
+    const measured = () => {
+      clearTimeout(timer);
+      clearInterval(memoryPoll);
+      return { timeMs: Math.round(performance.now() - started), memoryKb };
+    };
+
+    const collect = stream => chunk => {
+      if (output[stream].length < MAX_OUTPUT_BYTES) {
+        output[stream] = (output[stream] + chunk).slice(0, MAX_OUTPUT_BYTES);
+      }
+    };
+    child.stdout.on('data', collect('stdout'));
+    child.stderr.on('data', collect('stderr'));
+    // A program that exits without reading its input closes the pipe early
+    child.stdin.on('error', () => {});
+    child.stdin.end(stdin ?? '');
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill('SIGKILL');
+    }, TIMEOUT_MS);
+
+    child.on('error', error => {
+      resolve({ ...output, stderr: output.stderr + error.message, exitCode: -1, signal: null, timedOut, ...measured() });
+    });
+    child.on('close', (exitCode, signal) => {
+      resolve({ ...output, exitCode, signal, timedOut, ...measured() });
+    });
+  });
+}
+
+async function execute({ language, code, stdin, args }) {
+  const spec = LANGUAGES[language];
+  const dir = await mkdtemp(join(tmpdir(), 'toolbox-executor-'));
+  try {
+    await writeFile(join(dir, spec.file), code);
+    let compile;
+    if (spec.compile) {
+      compile = await runCommand(spec.compile, dir);
+      if (compile.timedOut) compile.stderr = `${compile.stderr}\nCompilation timed out after ${TIMEOUT_MS} ms`.trimStart();
+      if (compile.exitCode !== 0 || compile.timedOut) return { stdout: compile.stdout, stderr: compile.stderr, compile };
+    }
+    const run = await runCommand([...spec.run, ...args], dir, stdin);
+    if (run.timedOut) run.stderr = `${run.stderr}\nTime limit exceeded (${TIMEOUT_MS} ms)`.trimStart();
+    return { stdout: run.stdout, stderr: run.stderr, compile, run };
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Check the token in the auth header, sent either bare or as "Bearer <token>"
+ */
+function isAuthorized(req) {
+  if (NO_AUTH) return true;
+  const header = req.headers[AUTH_HEADER];
+  if (typeof header !== 'string') return false;
+  const sent = Buffer.from(header.replace(/^Bearer /, ''));
+  const expected = Buffer.from(TOKEN);
+  return sent.length === expected.length && timingSafeEqual(sent, expected);
+}
+
+function send(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        reject(new Error('too large'));
+        req.destroy();
+      }
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+const server = createServer(async (req, res) => {
+  // The app is served from another origin during development; other web pages are
+  // turned away so that visiting them can't run code on this machine
+  const origin = req.headers.origin;
+  if (origin !== undefined && !ORIGINS.includes(origin)) {
+    send(res, 403, { error: `Origin ${origin} is not allowed` });
+    return;
+  }
+  res.setHeader('Vary', 'Origin');
+  if (origin !== undefined) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Access-Control-Allow-Headers', `Content-Type, ${AUTH_HEADER}`);
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    // Lets the app read how long to wait after a 503
+    res.setHeader('Access-Control-Expose-Headers', 'Retry-After');
+  }
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+  if (!isAuthorized(req)) {
+    send(res, 401, { error: 'Missing or wrong credentials' });
+    return;
+  }
+
+  if (req.method === 'GET' && path === '/health') {
+    send(res, 200, { ok: true, languages: available });
+    return;
+  }
+  if (req.method !== 'POST' || path !== '/execute') {
+    send(res, 404, { error: 'Not found' });
+    return;
+  }
+
+  // Forms can post text/plain across origins without asking first; JSON can't
+  if (req.headers['content-type']?.split(';')[0].trim().toLowerCase() !== 'application/json') {
+    send(res, 415, { error: 'Content-Type must be application/json' });
+    return;
+  }
+
+  let request;
+  try {
+    request = JSON.parse(await readBody(req));
+  } catch {
+    send(res, 400, { error: 'Body must be JSON, at most 256 KB' });
+    return;
+  }
+  if (typeof request?.code !== 'string' || typeof request?.language !== 'string') {
+    send(res, 400, { error: 'Body must have "code" and "language" strings' });
+    return;
+  }
+  if (request.args !== undefined && !(Array.isArray(request.args) && request.args.every(arg => typeof arg === 'string'))) {
+    send(res, 400, { error: '"args" must be a list of strings' });
+    return;
+  }
+  if (!available.includes(request.language)) {
+    send(res, 400, { error: `Language "${request.language}" is not available on this executor` });
+    return;
+  }
+  if (runningJobs >= MAX_JOBS) {
+    res.setHeader('Retry-After', String(RETRY_AFTER_SECONDS));
+    send(res, 503, { error: 'Server is busy processing other jobs' });
+    return;
+  }
+
+  runningJobs++;
+  try {
+    const stdin = typeof request.stdin === 'string' ? request.stdin : undefined;
+    send(res, 200, await execute({ language: request.language, code: request.code, stdin, args: request.args ?? [] }));
+  } catch (error) {
+    console.error('Error running code:', error);
+    send(res, 500, { error: `Failed to run code: ${error.message}` });
+  } finally {
+    runningJobs--;
+  }
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`Executor listening on http://${HOST}:${PORT} (languages: ${available.join(', ') || 'none'})`);
+  console.log(`Accepting requests from ${ORIGINS.join(', ') || 'no browser origins'}`);
+  if (NO_AUTH) {
+    console.log('EXECUTOR_NO_AUTH is set: requests are accepted without a token');
+  } else if (!process.env.EXECUTOR_TOKEN) {
+    console.log(`Token for this session (set EXECUTOR_TOKEN to keep one across restarts):\n  VITE_EXECUTOR_AUTH_TOKEN=Bearer ${TOKEN}`);
+  }
+});
@@ -0,0 +1,78 @@
+// One-off backfill of cards.time_complexity_rank for rows saved before the column
+// existed. The app ranks a card whenever it saves one, but the rank comes from the
+// app's complexity parser, so the database can't fill in older rows by itself. Run
+// it once after applying 20261019140000_card_time_complexity_rank.sql:
+//
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... npm run backfill-ranks
+//
+// Rows whose complexity can't be parsed are listed and left without a rank, as they
+// are when saved from the app. Running it again only touches rows still unranked.
+//
+// Settings (environment variables):
+//   SUPABASE_URL               Project URL (falls back to VITE_SUPABASE_URL)
+//   SUPABASE_SERVICE_ROLE_KEY  Service role key; it bypasses row level security, so keep
+//                              it out of .env files that are built into the app
+
+import { createClient } from '@supabase/supabase-js';
+import { runnerImport } from 'vite';
+
+const TABLE = 'cards';
+const PAGE_SIZE = 1000;
+
+const url = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+if (!url || !serviceRoleKey) {
+  console.error('Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY to run the backfill.');
+  process.exit(1);
+}
+
+// Rank with the same parser the app uses when it saves a card
+const { module: complexity } = await runnerImport(
+  new URL('../src/utils/complexity.ts', import.meta.url).pathname,
+  { configFile: false, logLevel: 'silent' }
+);
+const supabase = createClient(url, serviceRoleKey, { auth: { persistSession: false } });
+
+let ranked = 0;
+const unparseable = [];
+// Ranked rows drop out of the query, so skipping the unparseable ones is enough to page
+for (;;) {
+  const { data, error } = await supabase
+    .from(TABLE)
+    .select('id, title, time_complexity')
+    .is('time_complexity_rank', null)
+    .not('time_complexity', 'is', null)
+    .order('id')
+    .range(unparseable.length, unparseable.length + PAGE_SIZE - 1);
+  if (error) {
+    console.error('Error fetching unranked cards:', error);
+    process.exit(1);
+  }
+  if (data.length === 0) break;
+
+  for (const row of data) {
+    const rank = complexity.complexityRank(row.time_complexity);
+    if (rank === null) {
+      unparseable.push(row);
+      continue;
+    }
+    const { error: updateError } = await supabase
+      .from(TABLE)
+      .update({ time_complexity_rank: rank })
+      .eq('id', row.id)
+      .is('time_complexity_rank', null);
+    if (updateError) {
+      console.error(`Error ranking card ${row.id}:`, updateError);
+      process.exit(1);
+    }
+    ranked++;
+  }
+}
+
+console.log(`Ranked ${ranked} card(s).`);
+if (unparseable.length > 0) {
+  console.log(`Left ${unparseable.length} card(s) unranked because their time complexity can't be parsed:`);
+  for (const row of unparseable) {
+    console.log(`  ${row.id}  ${row.title}: ${row.time_complexity}`);
+  }
+}
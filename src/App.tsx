@@ -1,35 +1,91 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect, useCallback } from 'react';
 
 import { useCards } from './hooks/useCards';
 import { useFilters } from './hooks/useFilters';
 import { useAuth } from './hooks/useAuth';
+import { useDebouncedValue } from './hooks/useDebouncedValue';
+import { usePreferredLanguage } from './hooks/usePreferredLanguage';
+import { useTestSummaries } from './hooks/useTestSummaries';
 
 import { FilterBar } from './components/FilterBar';
 import { CardGrid } from './components/CardGrid';
 import { Pagination } from './components/Pagination';
+import { KnowledgeGraph } from './components/KnowledgeGraph';
 import { CardDetail } from './components/CardDetail';
 import { CardFormModal } from './components/CardFormModal';
 import { AuthModal } from './components/AuthModal';
+import { TrashModal } from './components/TrashModal';
+import { ReviewModal } from './components/ReviewModal';
+import { DataProblemsModal } from './components/DataProblemsModal';
+import { ImportExportModal } from './components/ImportExportModal';
+import { Toast } from './components/Toast';
+import { ConnectionIndicator } from './components/ConnectionIndicator';
 
-import type { Card } from './types/card';
+import { purgeExpiredTrash, restoreCard } from './services/cardService';
+
+import type { Card, CardLanguage } from './types/card';
+import { LANGUAGES, formatLanguage } from './utils/constants';
+
+// Wait for a pause in typing before querying the backend with a new search
+const SEARCH_DEBOUNCE_MS = 300;
+
+type BrowseView = 'grid' | 'graph';
+
+const BROWSE_VIEWS: readonly { id: BrowseView; label: string }[] = [
+  { id: 'grid', label: 'Cards' },
+  { id: 'graph', label: 'Graph' },
+] as const;
 
 function App() {
-  const { cards, allTags, loading, error, refetch } = useCards();
-  const { filters, filteredAndSortedCards, updateFilters, resetFilters } = useFilters(cards);
-  const { user, isAuthenticated } = useAuth();
-  
+  const { filters, updateFilters, resetFilters } = useFilters();
   const [currentPage, setCurrentPage] = useState(1);
   const [itemsPerPage, setItemsPerPage] = useState(12);
+
+  const searchQuery = useDebouncedValue(filters.searchQuery, SEARCH_DEBOUNCE_MS);
+  const cardQuery = useMemo(() => ({
+    filters: { ...filters, searchQuery },
+    page: currentPage,
+    pageSize: itemsPerPage,
+  }), [filters, searchQuery, currentPage, itemsPerPage]);
+
+  const {
+    cards,
+    totalCards,
+    syncStatuses,
+    pendingChanges,
+    connectionStatus,
+    allTags,
+    loading,
+    error,
+    refetch,
+  } = useCards(cardQuery);
+  const { user, isAuthenticated, isAdmin } = useAuth();
+  const { preferredLanguage, setPreferredLanguage } = usePreferredLanguage(user);
+  const testSummaries = useTestSummaries();
+
+  const [browseView, setBrowseView] = useState<BrowseView>('grid');
   const [selectedCard, setSelectedCard] = useState<Card | null>(null);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [showAuthModal, setShowAuthModal] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  const [showReview, setShowReview] = useState(false);
+  const [showDataProblems, setShowDataProblems] = useState(false);
+  const [showImportExport, setShowImportExport] = useState(false);
+  const [deletedCard, setDeletedCard] = useState<Card | null>(null);
+
+  // Clear out cards that have outlived the trash retention period in the browser's store
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    purgeExpiredTrash().catch(err => {
+      console.error('Error purging expired trash:', err);
+    });
+  }, [isAuthenticated]);
 
-  // Calculate pagination
-  const paginatedCards = useMemo(() => {
-    const startIndex = (currentPage - 1) * itemsPerPage;
-    const endIndex = startIndex + itemsPerPage;
-    return filteredAndSortedCards.slice(startIndex, endIndex);
-  }, [filteredAndSortedCards, currentPage, itemsPerPage]);
+  // Step back if deletes elsewhere left the current page past the end
+  const lastPage = Math.max(1, Math.ceil(totalCards / itemsPerPage));
+  if (!loading && currentPage > lastPage) {
+    setCurrentPage(lastPage);
+  }
 
   // Reset to page 1 when filters change
   const handleFiltersChange = (updates: Parameters<typeof updateFilters>[0]) => {
@@ -43,9 +99,36 @@ function App() {
   };
 
   const handleCardCreated = async () => {
-    await refetch();
+    // Offline saves are already shown from the outbox; a refetch would only fail
+    if (navigator.onLine) {
+      await refetch();
+    }
+  };
+
+  const handleUndoDelete = async () => {
+    if (!deletedCard) return;
+    const card = deletedCard;
+    setDeletedCard(null);
+    try {
+      await restoreCard(card.id);
+      await handleCardCreated();
+    } catch (err) {
+      console.error('Error restoring card:', err);
+    }
+  };
+
+  const handlePreferredLanguageChange = (language: CardLanguage | undefined) => {
+    setPreferredLanguage(language).catch(err => {
+      console.error('Error updating preferred language:', err);
+    });
   };
 
+  const dismissDeletedToast = useCallback(() => setDeletedCard(null), []);
+
+  const selectedSyncEntry = selectedCard
+    ? pendingChanges.find(entry => entry.cardId === selectedCard.id)
+    : undefined;
+
   return (
     <div className="min-h-screen bg-background">
       <header className="bg-surface border-b-0 text-text-primary py-8 px-4 shadow-[0_1px_2px_0_rgba(0,0,0,0.3)] md:px-4 md:py-8">
@@ -59,6 +142,28 @@ function App() {
             </div>
           </div>
           <div className="flex items-center gap-3 w-full md:w-auto md:justify-end justify-between">
+            <ConnectionIndicator status={connectionStatus} />
+            <label className="flex items-center gap-2 text-xs text-text-tertiary whitespace-nowrap" title="Language that code is shown in first, when a card has it">
+              Code in
+              <select
+                value={preferredLanguage ?? ''}
+                onChange={(e) => handlePreferredLanguageChange((e.target.value || undefined) as CardLanguage | undefined)}
+                className="px-1.5 py-1.5 border border-dark-border bg-dark-surface rounded text-xs cursor-pointer text-[#b5b5b5] hover:border-[#4a4a4a] hover:bg-[#3a3a3a] focus:outline-none focus:border-[#5a5a5a] focus:shadow-[0_0_0_2px_rgba(90,90,90,0.2)]"
+              >
+                <option value="">Card default</option>
+                {LANGUAGES.map(language => (
+                  <option key={language} value={language}>
+                    {formatLanguage(language)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <button
+              className="px-4 py-3 bg-transparent border border-border rounded text-sm font-medium cursor-pointer transition-all duration-200 text-text-primary whitespace-nowrap hover:bg-[#3c4043] hover:border-accent"
+              onClick={() => setShowImportExport(true)}
+            >
+              {isAuthenticated ? 'Import / Export' : 'Export'}
+            </button>
             {isAuthenticated ? (
               <>
                 <button
@@ -67,6 +172,26 @@ function App() {
                 >
                   + Create Card
                 </button>
+                <button
+                  className="px-4 py-3 bg-transparent border border-border rounded text-sm font-medium cursor-pointer transition-all duration-200 text-text-primary whitespace-nowrap hover:bg-[#3c4043] hover:border-accent"
+                  onClick={() => setShowReview(true)}
+                >
+                  Review
+                </button>
+                <button
+                  className="px-4 py-3 bg-transparent border border-border rounded text-sm font-medium cursor-pointer transition-all duration-200 text-text-primary whitespace-nowrap hover:bg-[#3c4043] hover:border-accent"
+                  onClick={() => setShowTrash(true)}
+                >
+                  Trash
+                </button>
+                {isAdmin && (
+                  <button
+                    className="px-4 py-3 bg-transparent border border-border rounded text-sm font-medium cursor-pointer transition-all duration-200 text-text-primary whitespace-nowrap hover:bg-[#3c4043] hover:border-accent"
+                    onClick={() => setShowDataProblems(true)}
+                  >
+                    Data Problems
+                  </button>
+                )}
                 <button
                   className="p-2 bg-transparent border border-border rounded-full cursor-pointer transition-all duration-200 flex items-center justify-center w-10 h-10 hover:bg-[#3c4043] hover:border-accent"
                   onClick={() => setShowAuthModal(true)}
@@ -132,32 +257,74 @@ function App() {
               onReset={handleReset}
             />
 
-            <CardGrid cards={paginatedCards} onCardClick={setSelectedCard} />
-
-            <Pagination
-              totalItems={filteredAndSortedCards.length}
-              itemsPerPage={itemsPerPage}
-              currentPage={currentPage}
-              onPageChange={setCurrentPage}
-              onItemsPerPageChange={(newItemsPerPage) => {
-                setItemsPerPage(newItemsPerPage);
-                setCurrentPage(1);
-              }}
-            />
+            <div className="flex gap-1 mb-4" role="tablist" aria-label="Browse as">
+              {BROWSE_VIEWS.map(({ id, label }) => (
+                <button
+                  key={id}
+                  role="tab"
+                  aria-selected={browseView === id}
+                  className={`px-4 py-1.5 border rounded-2xl cursor-pointer text-sm transition-all duration-200 ${
+                    browseView === id
+                      ? 'bg-accent text-background border-accent font-medium'
+                      : 'border-border bg-background text-text-secondary hover:bg-[#3c4043]'
+                  }`}
+                  onClick={() => setBrowseView(id)}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            {browseView === 'graph' ? (
+              <KnowledgeGraph filters={cardQuery.filters} onCardClick={setSelectedCard} />
+            ) : (
+              <>
+                <CardGrid
+                  cards={cards}
+                  syncStatuses={syncStatuses}
+                  testSummaries={testSummaries}
+                  preferredLanguage={preferredLanguage}
+                  onCardClick={setSelectedCard}
+                />
+
+                <Pagination
+                  totalItems={totalCards}
+                  itemsPerPage={itemsPerPage}
+                  currentPage={currentPage}
+                  onPageChange={setCurrentPage}
+                  onItemsPerPageChange={(newItemsPerPage) => {
+                    setItemsPerPage(newItemsPerPage);
+                    setCurrentPage(1);
+                  }}
+                />
+              </>
+            )}
           </>
         )}
       </main>
 
       {selectedCard && (
         <CardDetail
-          card={selectedCard}
+          key={selectedCard.id}
+          card={cards.find(card => card.id === selectedCard.id) ?? selectedCard}
+          syncStatus={syncStatuses[selectedCard.id]}
+          preferredLanguage={preferredLanguage}
+          syncError={selectedSyncEntry?.error}
+          conflictBaseVersion={
+            selectedSyncEntry?.conflict && selectedSyncEntry.type === 'update'
+              ? selectedSyncEntry.expectedVersion
+              : undefined
+          }
           onClose={() => setSelectedCard(null)}
           onCardUpdated={handleCardCreated}
+          onCardDeleted={setDeletedCard}
+          onSelectCard={setSelectedCard}
         />
       )}
 
       {showCreateModal && (
         <CardFormModal
+          preferredLanguage={preferredLanguage}
           onClose={() => setShowCreateModal(false)}
           onSuccess={handleCardCreated}
         />
@@ -166,6 +333,53 @@ function App() {
       {showAuthModal && (
         <AuthModal onClose={() => setShowAuthModal(false)} />
       )}
+
+      {showTrash && (
+        <TrashModal
+          onClose={() => setShowTrash(false)}
+          onRestored={handleCardCreated}
+        />
+      )}
+
+      {showReview && (
+        <ReviewModal
+          user={user}
+          initialScope={{
+            classifications: filters.classifications,
+            difficulties: filters.difficulties,
+            tags: filters.tags,
+          }}
+          allTags={allTags}
+          preferredLanguage={preferredLanguage}
+          onClose={() => setShowReview(false)}
+        />
+      )}
+
+      {showDataProblems && isAdmin && (
+        <DataProblemsModal
+          onClose={() => setShowDataProblems(false)}
+          onFixed={handleCardCreated}
+        />
+      )}
+
+      {showImportExport && (
+        <ImportExportModal
+          filters={filters}
+          canImport={isAuthenticated}
+          onClose={() => setShowImportExport(false)}
+          onImported={handleCardCreated}
+        />
+      )}
+
+      {deletedCard && (
+        <Toast
+          key={deletedCard.id}
+          message={`"${deletedCard.title}" moved to trash`}
+          actionLabel="Undo"
+          onAction={handleUndoDelete}
+          onDismiss={dismissDeletedToast}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,148 @@
+import { useState } from 'react';
+import type { Card } from '../types/card';
+import {
+  ANKI_FIELDS,
+  exportCardsToAnki,
+  loadAnkiTemplate,
+  saveAnkiTemplate,
+  type AnkiSide,
+  type AnkiTemplate,
+} from '../services/ankiExport';
+import { CARD_FIELD_LABELS } from '../utils/cardFields';
+import { downloadBlob } from '../utils/download';
+
+interface AnkiExportSectionProps {
+  cards: Card[];
+}
+
+const SIDE_LABELS: Record<AnkiSide, string> = {
+  front: 'Front',
+  back: 'Back',
+  omit: 'Leave out',
+} as const;
+
+export function AnkiExportSection({ cards }: AnkiExportSectionProps) {
+  const [template, setTemplate] = useState<AnkiTemplate>(loadAnkiTemplate);
+  const [deckName, setDeckName] = useState('Toolbox');
+  const [excludedIds, setExcludedIds] = useState<Set<string>>(new Set());
+  const [showCards, setShowCards] = useState(false);
+  const [showTemplate, setShowTemplate] = useState(false);
+
+  const selectedCards = cards.filter(card => !excludedIds.has(card.id));
+
+  const setSide = (field: keyof AnkiTemplate, side: AnkiSide) => {
+    const next = { ...template, [field]: side };
+    setTemplate(next);
+    saveAnkiTemplate(next);
+  };
+
+  const toggleCard = (id: string) => {
+    setExcludedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <section>
+      <h3 className="m-0 mb-3 text-lg font-medium text-text-primary">Anki Deck</h3>
+      <p className="m-0 mb-3 text-text-tertiary text-sm">
+        Download a notes file for Anki's File &gt; Import. Card tags become Anki tags, and importing a newer
+        export updates the notes from the last one.
+      </p>
+
+      <div className="flex flex-col gap-4">
+        <label className="flex items-center gap-2 text-sm text-text-secondary">
+          Deck
+          <input
+            type="text"
+            value={deckName}
+            onChange={(e) => setDeckName(e.target.value)}
+            className="px-3 py-2 border border-border rounded text-sm bg-background text-text-primary focus:outline-none focus:border-accent"
+          />
+        </label>
+
+        <div>
+          <button
+            type="button"
+            className="bg-transparent border-none p-0 text-sm text-accent cursor-pointer hover:underline"
+            onClick={() => setShowCards(prev => !prev)}
+          >
+            {showCards ? 'Hide cards' : 'Choose cards'} ({selectedCards.length} of {cards.length} selected)
+          </button>
+          {showCards && (
+            <div className="mt-2 max-h-60 overflow-y-auto border border-border rounded p-3 flex flex-col gap-1">
+              <div className="flex gap-3 mb-2 text-xs">
+                <button type="button" className="bg-transparent border-none p-0 text-accent cursor-pointer hover:underline" onClick={() => setExcludedIds(new Set())}>
+                  Select all
+                </button>
+                <button type="button" className="bg-transparent border-none p-0 text-accent cursor-pointer hover:underline" onClick={() => setExcludedIds(new Set(cards.map(card => card.id)))}>
+                  Select none
+                </button>
+              </div>
+              {cards.map(card => (
+                <label key={card.id} className="flex items-center gap-2 text-sm text-text-secondary cursor-pointer">
+                  <input type="checkbox" checked={!excludedIds.has(card.id)} onChange={() => toggleCard(card.id)} />
+                  <span className="truncate">{card.title}</span>
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div>
+          <button
+            type="button"
+            className="bg-transparent border-none p-0 text-sm text-accent cursor-pointer hover:underline"
+            onClick={() => setShowTemplate(prev => !prev)}
+          >
+            {showTemplate ? 'Hide template' : 'Edit template'}
+          </button>
+          {showTemplate && (
+            <div className="mt-2 border border-border rounded p-3 flex flex-col gap-2">
+              {ANKI_FIELDS.map(field => (
+                <div key={field} className="flex justify-between items-center gap-2 flex-wrap">
+                  <span className="text-sm text-text-secondary">{CARD_FIELD_LABELS[field]}</span>
+                  <div className="flex gap-1">
+                    {(Object.keys(SIDE_LABELS) as AnkiSide[]).map(side => (
+                      <button
+                        key={side}
+                        type="button"
+                        onClick={() => setSide(field, side)}
+                        className={`px-3 py-1 border rounded-2xl cursor-pointer text-xs transition-all duration-200 ${
+                          template[field] === side
+                            ? 'bg-accent text-background border-accent font-medium'
+                            : 'border-border bg-background text-text-secondary hover:bg-[#3c4043]'
+                        }`}
+                      >
+                        {SIDE_LABELS[side]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div>
+          <button
+            className="px-4 py-2 border-none rounded text-sm font-medium cursor-pointer transition-all duration-200 bg-accent text-background hover:bg-accent-hover disabled:opacity-60 disabled:cursor-not-allowed"
+            onClick={() => downloadBlob(
+              exportCardsToAnki(selectedCards, template, deckName.trim() || 'Toolbox'),
+              `toolbox-anki-${new Date().toISOString().slice(0, 10)}.txt`
+            )}
+            disabled={selectedCards.length === 0}
+          >
+            Download Anki Notes
+          </button>
+        </div>
+      </div>
+    </section>
+  );
+}
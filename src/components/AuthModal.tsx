@@ -5,7 +5,7 @@ interface AuthModalProps {
 }
 
 export function AuthModal({ onClose }: AuthModalProps) {
-  const { user, loading, signInWithGoogle, signOut } = useAuth();
+  const { user, loading, isLocalMode, signInWithGoogle, signOut } = useAuth();
 
   const handleSignIn = async () => {
     try {
@@ -63,12 +63,18 @@ export function AuthModal({ onClose }: AuthModalProps) {
                   <p className="m-0 text-text-tertiary text-sm">{user.email}</p>
                 </div>
               </div>
-              <button
-                className="w-full px-6 py-3 border-none rounded text-sm font-medium cursor-pointer transition-all duration-200 flex items-center justify-center gap-3 bg-error text-text-primary hover:bg-error-hover"
-                onClick={handleSignOut}
-              >
-                Sign Out
-              </button>
+              {isLocalMode ? (
+                <p className="m-0 text-text-secondary text-sm leading-6">
+                  Supabase is not configured, so cards are stored in this browser only.
+                </p>
+              ) : (
+                <button
+                  className="w-full px-6 py-3 border-none rounded text-sm font-medium cursor-pointer transition-all duration-200 flex items-center justify-center gap-3 bg-error text-text-primary hover:bg-error-hover"
+                  onClick={handleSignOut}
+                >
+                  Sign Out
+                </button>
+              )}
             </>
           ) : (
             <>
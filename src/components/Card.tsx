@@ -1,11 +1,37 @@
-import type { Card } from '../types/card';
-import { formatClassification, getDifficultyColor } from '../utils/constants';
+import type { Card, CardLanguage } from '../types/card';
+import type { CardSyncStatus } from '../services/cardOutbox';
+import type { StoredTestSummary } from '../services/testSummaries';
+import { TestSummaryBadge } from './TestSummaryBadge';
+import { formatClassification, formatLanguage, getDifficultyColor } from '../utils/constants';
+import { getDefaultImplementation, getImplementations } from '../utils/cardImplementations';
+import { markdownToPlainText } from '../utils/markdown';
 
 interface CardProps {
   card: Card;
+  syncStatus?: CardSyncStatus;
+  testSummary?: StoredTestSummary; // Last test run on this device
+  preferredLanguage?: CardLanguage;
   onCardClick?: (card: Card) => void;
 }
 
+const SYNC_STATUS_BADGES: Record<CardSyncStatus, { label: string; title: string; className: string }> = {
+  pending: {
+    label: 'Pending sync',
+    title: 'Saved on this device; will sync when the connection returns',
+    className: 'bg-warning',
+  },
+  synced: {
+    label: 'Synced',
+    title: 'Offline changes have been synced',
+    className: 'bg-success',
+  },
+  failed: {
+    label: 'Sync failed',
+    title: 'The server rejected this change; open the card to retry or discard it',
+    className: 'bg-error',
+  },
+} as const;
+
 /**
  * Truncates text to a maximum length with ellipsis
  */
@@ -14,7 +40,12 @@ function truncateText(text: string, maxLength: number = 100): string {
   return text.substring(0, maxLength) + '...';
 }
 
-export function Card({ card, onCardClick }: CardProps) {
+export function Card({ card, syncStatus, testSummary, preferredLanguage, onCardClick }: CardProps) {
+  const shownLanguage = getDefaultImplementation(card, preferredLanguage).language;
+  const otherLanguages = getImplementations(card)
+    .map(impl => impl.language)
+    .filter(language => language !== shownLanguage);
+
   const handleClick = () => {
     onCardClick?.(card);
   };
@@ -44,8 +75,16 @@ export function Card({ card, onCardClick }: CardProps) {
       </div>
 
       <div className="flex flex-col gap-3 flex-1">
+        {syncStatus && (
+          <span
+            className={`self-start px-2 py-0.5 rounded text-[0.6875rem] font-medium text-text-primary ${SYNC_STATUS_BADGES[syncStatus].className}`}
+            title={SYNC_STATUS_BADGES[syncStatus].title}
+          >
+            {SYNC_STATUS_BADGES[syncStatus].label}
+          </span>
+        )}
         <div className="text-text-secondary leading-6 text-sm font-normal">
-          <p className="m-0">{truncateText(card.explanation)}</p>
+          <p className="m-0">{truncateText(markdownToPlainText(card.explanation))}</p>
         </div>
         {(card.timeComplexity || card.spaceComplexity) && (
           <div className="flex gap-3 flex-wrap text-[0.7rem] text-[#8a8a8a]">
@@ -61,6 +100,23 @@ export function Card({ card, onCardClick }: CardProps) {
             )}
           </div>
         )}
+        <div className="flex flex-wrap items-center gap-1 text-[0.6875rem]">
+          <span className="px-1.5 py-0.5 bg-dark-surface border border-dark-border rounded text-text-primary font-mono">
+            {formatLanguage(shownLanguage)}
+          </span>
+          {otherLanguages.length > 0 && (
+            <span className="text-text-tertiary" title={otherLanguages.map(formatLanguage).join(', ')}>
+              +{otherLanguages.length} more
+            </span>
+          )}
+          {testSummary && (card.testCases?.length ?? 0) > 0 && (
+            <TestSummaryBadge
+              summary={testSummary}
+              testCount={card.testCases?.length ?? 0}
+              className="ml-auto px-1.5 py-0.5 rounded"
+            />
+          )}
+        </div>
         <div className="flex flex-wrap gap-1">
           {card.tags.map(tag => (
             <span 
@@ -0,0 +1,210 @@
+import { useState } from 'react';
+import type { Card } from '../types/card';
+import { CARD_FIELD_LABELS, formatFieldValue, getChangedFields, type CardField } from '../utils/cardFields';
+import { problemKey } from '../utils/problems';
+import { testCaseKey } from '../utils/testCases';
+
+type CardContent = Partial<Omit<Card, 'id'>>;
+type Choice = 'mine' | 'theirs' | 'both' | 'custom';
+
+interface CardConflictResolverProps {
+  mine: CardContent;
+  theirs: Card;
+  saving: boolean;
+  onResolve: (merged: CardContent) => void;
+  onCancel: () => void;
+}
+
+/**
+ * List fields whose entries can be combined from both versions
+ */
+const LIST_FIELDS: readonly CardField[] = ['tags', 'useCases', 'relatedProblems', 'methods', 'variants', 'links', 'testCases', 'inputSets'] as const;
+
+/**
+ * Free-text fields that can be edited by hand to combine both versions
+ */
+const TEXT_FIELDS: readonly CardField[] = ['title', 'code', 'explanation', 'timeComplexity', 'spaceComplexity'] as const;
+
+const CHOICE_LABELS: Record<Choice, string> = {
+  mine: 'Yours',
+  theirs: 'Theirs',
+  both: 'Both',
+  custom: 'Edit',
+} as const;
+
+function availableChoices(field: CardField): Choice[] {
+  if (LIST_FIELDS.includes(field)) return ['mine', 'theirs', 'both'];
+  if (TEXT_FIELDS.includes(field)) return ['mine', 'theirs', 'custom'];
+  return ['mine', 'theirs'];
+}
+
+/**
+ * Union of two list values, keeping yours first. Methods, variants and input sets are matched
+ * by name, related problems by the problem they point to, links by their type and target, and
+ * test cases by their input.
+ */
+function combineLists(field: CardField, mine: CardContent, theirs: Card): unknown {
+  if (field === 'methods') {
+    const methods = [...(mine.methods ?? [])];
+    (theirs.methods ?? []).forEach(method => {
+      if (!methods.some(m => m.name === method.name)) methods.push(method);
+    });
+    return methods;
+  }
+  if (field === 'variants') {
+    const variants = [...(mine.variants ?? [])];
+    (theirs.variants ?? []).forEach(variant => {
+      if (!variants.some(v => v.name === variant.name)) variants.push(variant);
+    });
+    return variants;
+  }
+  if (field === 'relatedProblems') {
+    const problems = [...(mine.relatedProblems ?? [])];
+    (theirs.relatedProblems ?? []).forEach(problem => {
+      if (!problems.some(p => problemKey(p) === problemKey(problem))) problems.push(problem);
+    });
+    return problems;
+  }
+  if (field === 'links') {
+    const links = [...(mine.links ?? [])];
+    (theirs.links ?? []).forEach(link => {
+      if (!links.some(l => l.type === link.type && l.targetId === link.targetId)) links.push(link);
+    });
+    return links;
+  }
+  if (field === 'testCases') {
+    const testCases = [...(mine.testCases ?? [])];
+    (theirs.testCases ?? []).forEach(testCase => {
+      if (!testCases.some(t => testCaseKey(t) === testCaseKey(testCase))) testCases.push(testCase);
+    });
+    return testCases;
+  }
+  if (field === 'inputSets') {
+    const inputSets = [...(mine.inputSets ?? [])];
+    (theirs.inputSets ?? []).forEach(inputSet => {
+      if (!inputSets.some(s => s.name === inputSet.name)) inputSets.push(inputSet);
+    });
+    return inputSets;
+  }
+  const mineList = (mine[field] as string[] | undefined) ?? [];
+  const theirList = (theirs[field] as string[] | undefined) ?? [];
+  return Array.from(new Set([...mineList, ...theirList]));
+}
+
+export function CardConflictResolver({ mine, theirs, saving, onResolve, onCancel }: CardConflictResolverProps) {
+  // The date a card was added is never edited, so it cannot be in conflict
+  const conflicts = getChangedFields(mine, theirs).filter(field => field !== 'dateAdded');
+  const [choices, setChoices] = useState<Partial<Record<CardField, Choice>>>({});
+  const [customValues, setCustomValues] = useState<Partial<Record<CardField, string>>>({});
+
+  const choiceFor = (field: CardField): Choice => choices[field] ?? 'mine';
+
+  const setChoice = (field: CardField, choice: Choice) => {
+    setChoices(prev => ({ ...prev, [field]: choice }));
+    if (choice === 'custom' && customValues[field] === undefined) {
+      setCustomValues(prev => ({ ...prev, [field]: formatFieldValue(mine, field) }));
+    }
+  };
+
+  const handleResolve = () => {
+    const merged: Record<string, unknown> = { ...mine };
+    conflicts.forEach(field => {
+      switch (choiceFor(field)) {
+        case 'theirs':
+          merged[field] = theirs[field];
+          break;
+        case 'both':
+          merged[field] = combineLists(field, mine, theirs);
+          break;
+        case 'custom':
+          merged[field] = customValues[field] ?? '';
+          break;
+        default:
+          break;
+      }
+    });
+    onResolve(merged as CardContent);
+  };
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="bg-[#4a3d12] text-[#fdd663] px-4 py-3 rounded text-sm">
+        Someone else saved "{theirs.title}" while you were editing. Choose which version to keep for each field
+        that differs, then save the merged card.
+      </div>
+
+      {conflicts.length === 0 && (
+        <p className="text-text-secondary text-sm m-0">
+          Their changes match yours, so nothing needs to be merged.
+        </p>
+      )}
+
+      {conflicts.map(field => (
+        <div key={field} className="border border-border rounded p-4">
+          <div className="flex justify-between items-center mb-3 flex-wrap gap-2">
+            <h3 className="m-0 text-sm font-medium text-text-primary">{CARD_FIELD_LABELS[field]}</h3>
+            <div className="flex gap-1">
+              {availableChoices(field).map(choice => (
+                <button
+                  key={choice}
+                  type="button"
+                  onClick={() => setChoice(field, choice)}
+                  className={`px-3 py-1 border rounded-2xl cursor-pointer text-xs transition-all duration-200 ${
+                    choiceFor(field) === choice
+                      ? 'bg-accent text-background border-accent font-medium'
+                      : 'border-border bg-background text-text-secondary hover:bg-[#3c4043]'
+                  }`}
+                >
+                  {CHOICE_LABELS[choice]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {choiceFor(field) === 'custom' ? (
+            <textarea
+              value={customValues[field] ?? ''}
+              onChange={(e) => setCustomValues(prev => ({ ...prev, [field]: e.target.value }))}
+              rows={field === 'code' || field === 'explanation' ? 10 : 2}
+              className="w-full px-3 py-3 border border-border rounded text-sm bg-background text-text-primary font-mono resize-y focus:outline-none focus:border-accent"
+            />
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {(['mine', 'theirs'] as const).map(side => (
+                <div key={side}>
+                  <div className="text-xs text-text-tertiary mb-1">{CHOICE_LABELS[side]}</div>
+                  <pre
+                    className={`m-0 p-3 rounded bg-code-bg text-code-text text-xs font-mono whitespace-pre-wrap max-h-60 overflow-auto border ${
+                      choiceFor(field) === side || choiceFor(field) === 'both' ? 'border-accent' : 'border-transparent'
+                    }`}
+                  >
+                    {formatFieldValue(side === 'mine' ? mine : theirs, field) || '(empty)'}
+                  </pre>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+
+      <div className="flex justify-end gap-4 pt-6 border-t border-border">
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={saving}
+          className="px-6 py-3 border-none rounded text-sm font-medium cursor-pointer transition-all duration-200 bg-[#5f6368] text-text-primary hover:bg-[#70757a] disabled:opacity-60 disabled:cursor-not-allowed"
+        >
+          Back to Editing
+        </button>
+        <button
+          type="button"
+          onClick={handleResolve}
+          disabled={saving}
+          className="px-6 py-3 border-none rounded text-sm font-medium cursor-pointer transition-all duration-200 bg-accent text-background hover:bg-accent-hover disabled:opacity-60 disabled:cursor-not-allowed"
+        >
+          {saving ? 'Saving...' : 'Save Merged Card'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,35 +1,120 @@
 import { useState } from 'react';
-import type { Card } from '../types/card';
+import type { Card, CardLanguage, CardLinkType, CodeVariant, InputSet, ProblemStatus } from '../types/card';
 import { useAuth } from '../hooks/useAuth';
+import { useProblemProgress } from '../hooks/useProblemProgress';
+import { useCardLinks, type LinkedCard } from '../hooks/useCardLinks';
+import { useTestSummaries } from '../hooks/useTestSummaries';
 import { CardFormModal } from './CardFormModal';
 import { AuthModal } from './AuthModal';
-import { deleteCard } from '../services/cardService';
+import { deleteCard, updateCard } from '../services/cardService';
+import { CardConflictError } from '../services/cardErrors';
+import { discardCardSync, retryCardSync, type CardSyncStatus } from '../services/cardOutbox';
+import type { TestSummary } from '../services/testRunner';
+import { saveTestSummary } from '../services/testSummaries';
 import { CodeEditor } from './CodeEditor';
-import { formatClassification, getDifficultyColor } from '../utils/constants';
+import { TestSummaryBadge } from './TestSummaryBadge';
+import { PracticeMode } from './PracticeMode';
+import { CardHistory } from './CardHistory';
+import { Markdown } from './Markdown';
+import { formatClassification, formatLanguage, getDifficultyColor } from '../utils/constants';
+import { getDefaultImplementation, getImplementations } from '../utils/cardImplementations';
+import { PROBLEM_STATUSES, formatProblem, legacyProblemKey, problemKey, problemUrl } from '../utils/problems';
+import { LINK_TYPES, formatBacklinkType, formatLinkType } from '../utils/cardLinks';
 
 interface CardDetailProps {
   card: Card;
+  syncStatus?: CardSyncStatus;
+  preferredLanguage?: CardLanguage;
+  syncError?: string;
+  conflictBaseVersion?: string; // Set when a queued edit was rejected because the card changed
   onClose: () => void;
   onCardUpdated?: () => void;
+  onCardDeleted?: (card: Card) => void;
+  onSelectCard?: (card: Card) => void; // Open a linked card in place of this one
 }
 
-type Section = 'code' | 'explanation' | 'leetcode' | 'examples' | 'related';
+const MAIN_SNIPPET_NAME = 'Main';
+
+const STATUS_LABELS: Record<ProblemStatus, string> = {
+  todo: 'Todo',
+  attempted: 'Attempted',
+  solved: 'Solved',
+} as const;
+
+const STATUS_COLORS: Record<ProblemStatus, string> = {
+  todo: 'bg-[#5f6368] border-[#70757a]',
+  attempted: 'bg-[#b8860b] border-[#c8961b]',
+  solved: 'bg-[#2e7d32] border-[#3e8d42]',
+} as const;
+
+type Section = 'code' | 'explanation' | 'leetcode' | 'examples' | 'related' | 'history';
 
 const SECTIONS: readonly { id: Section; label: string }[] = [
   { id: 'code', label: 'Code Snippet' },
   { id: 'explanation', label: 'Explanation' },
-  { id: 'leetcode', label: 'LeetCode Links' },
+  { id: 'leetcode', label: 'Practice Problems' },
   { id: 'examples', label: 'Examples' },
   { id: 'related', label: 'Related Topics' },
+  { id: 'history', label: 'History' },
 ] as const;
 
-export function CardDetail({ card, onClose, onCardUpdated }: CardDetailProps) {
-  const { isAuthenticated } = useAuth();
+export function CardDetail({
+  card,
+  syncStatus,
+  preferredLanguage,
+  syncError,
+  conflictBaseVersion,
+  onClose,
+  onCardUpdated,
+  onCardDeleted,
+  onSelectCard,
+}: CardDetailProps) {
+  const { user, isAuthenticated } = useAuth();
+  const { statuses, setStatus, error: progressError } = useProblemProgress(user);
+  const { linked, backlinks, error: linksError } = useCardLinks(card);
   const [activeSection, setActiveSection] = useState<Section>('code');
   const [showEditModal, setShowEditModal] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
   const [showAuthModal, setShowAuthModal] = useState(false);
+  const [selectedLanguage, setSelectedLanguage] = useState<CardLanguage | null>(null);
+  const [selectedSnippet, setSelectedSnippet] = useState(0);
+  const [comparing, setComparing] = useState(false);
+  const [compared, setCompared] = useState<[number, number]>([0, 1]);
+  const [practicing, setPracticing] = useState(false);
+  const testSummary = useTestSummaries()[card.id];
+  const testCount = card.testCases?.length ?? 0;
+
+  // Until a tab is picked, show the preferred language; fall back if an edit removed the picked one
+  const implementations = getImplementations(card);
+  const activeImplementation = implementations.find(impl => impl.language === selectedLanguage)
+    ?? getDefaultImplementation(card, preferredLanguage);
+
+  // The card's own code is listed first as "Main", followed by its named variants
+  const snippets: CodeVariant[] = [
+    {
+      name: MAIN_SNIPPET_NAME,
+      ...activeImplementation,
+      timeComplexity: card.timeComplexity,
+      spaceComplexity: card.spaceComplexity,
+    },
+    ...(card.variants ?? []),
+  ];
+  // An edit can remove variants, so indices past the end fall back to the main snippet
+  const snippetIndex = (idx: number) => (idx < snippets.length ? idx : 0);
+  const activeSnippetIndex = snippetIndex(selectedSnippet);
+  const showCompare = snippets.length > 1 && comparing;
+
+  // A status saved under a problem's legacy key moves to its current key once changed
+  const setProblemStatus = async (key: string, legacyKey: string, status: ProblemStatus | null) => {
+    try {
+      await setStatus(key, status);
+      if (legacyKey !== key && statuses[legacyKey]) await setStatus(legacyKey, null);
+    } catch {
+      // useProblemProgress reports the error
+    }
+  };
 
   const handleEdit = () => {
     if (!isAuthenticated) {
@@ -51,71 +136,231 @@ export function CardDetail({ card, onClose, onCardUpdated }: CardDetailProps) {
     }
 
     setIsDeleting(true);
+    setDeleteError(null);
     try {
       await deleteCard(card.id);
       onClose();
-      onCardUpdated?.();
+      onCardDeleted?.(card);
     } catch (error) {
       console.error('Error deleting card:', error);
-      alert('Failed to delete card. Please try again.');
+      setDeleteError(error instanceof Error ? error.message : 'Failed to delete card. Please try again.');
     } finally {
       setIsDeleting(false);
       setShowDeleteConfirm(false);
     }
   };
 
+  // Remembered on this device so the result also shows on the card in the grid
+  const handleTestsRun = (summary: TestSummary, language: CardLanguage) => {
+    saveTestSummary(card.id, summary, language);
+  };
+
+  // Saved against the version on screen, so sets someone else just saved aren't dropped
+  const handleSaveInputSets = async (inputSets: InputSet[]) => {
+    try {
+      await updateCard(card.id, { inputSets }, card.updatedAt);
+    } catch (error) {
+      if (error instanceof CardConflictError) {
+        onCardUpdated?.();
+        throw new Error(`${error.message}; the card has been reloaded, try again`);
+      }
+      throw error;
+    }
+    onCardUpdated?.();
+  };
+
   const handleCardUpdated = () => {
     setShowEditModal(false);
     onCardUpdated?.();
   };
 
+  const renderComplexity = (snippet: CodeVariant) => (
+    (snippet.timeComplexity || snippet.spaceComplexity) && (
+      <div className="flex flex-col gap-3 text-left">
+        {snippet.timeComplexity && (
+          <div className="text-text-secondary text-sm font-normal">
+            <strong className="text-text-primary mr-2 font-medium">Time Complexity:</strong> {snippet.timeComplexity}
+          </div>
+        )}
+        {snippet.spaceComplexity && (
+          <div className="text-text-secondary text-sm font-normal">
+            <strong className="text-text-primary mr-2 font-medium">Space Complexity:</strong> {snippet.spaceComplexity}
+          </div>
+        )}
+      </div>
+    )
+  );
+
+
+  // One row per link type, each listing the linked cards as buttons that open them
+  const renderLinkGroups = (entries: LinkedCard[], formatType: (type: CardLinkType) => string) => (
+    <dl className="m-0 flex flex-col gap-3">
+      {LINK_TYPES.filter(type => entries.some(entry => entry.type === type)).map(type => (
+        <div key={type} className="flex gap-3 items-baseline flex-wrap">
+          <dt className="text-text-tertiary text-sm min-w-[120px]">{formatType(type)}</dt>
+          <dd className="m-0 flex flex-wrap gap-2">
+            {entries.filter(entry => entry.type === type).map(({ card: other }) => (
+              <button
+                key={other.id}
+                onClick={() => onSelectCard?.(other)}
+                className="px-3 py-1.5 bg-[#3c4043] border border-border rounded text-xs text-accent cursor-pointer transition-all duration-200 hover:bg-[#4a4e52]"
+              >
+                {other.title}
+              </button>
+            ))}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+
   const renderContent = () => {
     switch (activeSection) {
       case 'code':
         return (
-          <div className="w-full max-w-[800px] text-left">
-            <h2 className="m-0 mb-6 text-2xl font-normal text-text-primary text-left tracking-normal">
-              Code Implementation
-            </h2>
-            <div className="bg-code-bg border-none rounded p-6 overflow-x-auto mb-6 text-left">
-              <div className="mt-4">
-                <CodeEditor 
-                  initialCode={card.code} 
-                  language={card.language || 'python'} 
-                />
-              </div>
+          <div className={`w-full text-left ${showCompare && !practicing ? '' : 'max-w-[800px]'}`}>
+            <div className="flex items-center justify-between gap-4 mb-6">
+              <h2 className="m-0 text-2xl font-normal text-text-primary text-left tracking-normal">
+                {practicing ? 'Practice' : 'Code Implementation'}
+              </h2>
+              <button
+                onClick={() => setPracticing(!practicing)}
+                className="px-4 py-2 bg-transparent border border-border rounded text-sm font-medium cursor-pointer transition-all duration-200 text-text-primary hover:bg-[#3c4043] hover:border-accent"
+              >
+                {practicing ? 'Back to solution' : 'Practice'}
+              </button>
             </div>
-            {card.classification === 'data-structures' && card.methods && card.methods.length > 0 ? (
-              <div className="flex flex-col gap-3 text-left">
-                <h3 className="mb-3 text-[1.1em]">Common Methods</h3>
-                <div>
-                  {card.methods.map((method, idx) => (
-                    <div key={idx} className="text-text-secondary text-sm font-normal mb-2">
-                      <strong className="text-text-primary mr-2 font-medium">{method.name}:</strong> {method.timeComplexity}
+            {!practicing && snippets.length > 1 && (
+              <div className="flex flex-wrap items-center gap-1 mb-4">
+                {!showCompare && snippets.map((snippet, idx) => (
+                  <button
+                    key={idx}
+                    className={`px-3 py-1 border rounded-2xl cursor-pointer text-xs transition-all duration-200 ${
+                      idx === activeSnippetIndex
+                        ? 'bg-accent text-background border-accent font-medium'
+                        : 'border-border bg-background text-text-secondary hover:bg-[#3c4043]'
+                    }`}
+                    onClick={() => setSelectedSnippet(idx)}
+                  >
+                    {snippet.name}
+                  </button>
+                ))}
+                <label className="ml-auto flex items-center gap-2 text-xs text-text-secondary cursor-pointer">
+                  <input type="checkbox" checked={comparing} onChange={(e) => setComparing(e.target.checked)} />
+                  Compare side by side
+                </label>
+              </div>
+            )}
+            {practicing ? (
+              <PracticeMode
+                implementations={implementations}
+                initialLanguage={activeImplementation.language}
+                testCases={card.testCases}
+              />
+            ) : showCompare ? (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+                {compared.map((idx, side) => {
+                  const snippet = snippets[snippetIndex(idx)];
+                  return (
+                    <div key={side} className="flex flex-col gap-3 min-w-0">
+                      <select
+                        value={snippetIndex(idx)}
+                        onChange={(e) => {
+                          const next = Number(e.target.value);
+                          setCompared(prev => (side === 0 ? [next, prev[1]] : [prev[0], next]));
+                        }}
+                        className="self-start px-2 py-1.5 border border-dark-border bg-dark-surface rounded text-xs cursor-pointer text-[#b5b5b5] focus:outline-none focus:border-[#5a5a5a]"
+                      >
+                        {snippets.map((option, optionIdx) => (
+                          <option key={optionIdx} value={optionIdx}>
+                            {option.name} ({formatLanguage(option.language)})
+                          </option>
+                        ))}
+                      </select>
+                      <div className="bg-code-bg border-none rounded p-4 overflow-x-auto">
+                        <CodeEditor
+                          key={`${snippetIndex(idx)}-${snippet.language}`}
+                          initialCode={snippet.code}
+                          language={snippet.language}
+                        />
+                      </div>
+                      {renderComplexity(snippet)}
                     </div>
-                  ))}
-                </div>
-                {card.spaceComplexity && (
-                  <div className="text-text-secondary text-sm font-normal mt-3">
-                    <strong className="text-text-primary mr-2 font-medium">Space Complexity:</strong> {card.spaceComplexity}
-                  </div>
-                )}
+                  );
+                })}
               </div>
+            ) : activeSnippetIndex > 0 ? (
+              <>
+                <div className="bg-code-bg border-none rounded p-6 overflow-x-auto mb-6 text-left">
+                  <div className="text-xs text-text-tertiary">{formatLanguage(snippets[activeSnippetIndex].language)}</div>
+                  <div className="mt-4">
+                    <CodeEditor
+                      key={`${activeSnippetIndex}-${snippets[activeSnippetIndex].language}`}
+                      initialCode={snippets[activeSnippetIndex].code}
+                      language={snippets[activeSnippetIndex].language}
+                      testCases={card.testCases}
+                      inputSets={card.inputSets}
+                      onSaveInputSets={isAuthenticated ? handleSaveInputSets : undefined}
+                      onTestsRun={summary => handleTestsRun(summary, snippets[activeSnippetIndex].language)}
+                    />
+                  </div>
+                </div>
+                {renderComplexity(snippets[activeSnippetIndex])}
+              </>
             ) : (
-              (card.timeComplexity || card.spaceComplexity) && (
-                <div className="flex flex-col gap-3 text-left">
-                  {card.timeComplexity && (
-                    <div className="text-text-secondary text-sm font-normal">
-                      <strong className="text-text-primary mr-2 font-medium">Time Complexity:</strong> {card.timeComplexity}
-                    </div>
-                  )}
-                  {card.spaceComplexity && (
-                    <div className="text-text-secondary text-sm font-normal">
-                      <strong className="text-text-primary mr-2 font-medium">Space Complexity:</strong> {card.spaceComplexity}
+              <>
+                <div className="bg-code-bg border-none rounded p-6 overflow-x-auto mb-6 text-left">
+                  {implementations.length > 1 && (
+                    <div className="flex flex-wrap gap-1 border-b border-border" role="tablist">
+                      {implementations.map(impl => (
+                        <button
+                          key={impl.language}
+                          role="tab"
+                          aria-selected={impl.language === activeImplementation.language}
+                          className={`px-3 py-2 bg-transparent border-0 border-b-2 border-solid cursor-pointer text-sm transition-all duration-200 ${
+                            impl.language === activeImplementation.language
+                              ? 'border-accent text-accent font-medium'
+                              : 'border-transparent text-text-secondary hover:text-text-primary'
+                          }`}
+                          onClick={() => setSelectedLanguage(impl.language)}
+                        >
+                          {formatLanguage(impl.language)}
+                        </button>
+                      ))}
                     </div>
                   )}
+                  <div className="mt-4">
+                    <CodeEditor
+                      key={activeImplementation.language}
+                      initialCode={activeImplementation.code}
+                      language={activeImplementation.language}
+                      testCases={card.testCases}
+                      inputSets={card.inputSets}
+                      onSaveInputSets={isAuthenticated ? handleSaveInputSets : undefined}
+                      onTestsRun={summary => handleTestsRun(summary, activeImplementation.language)}
+                    />
+                  </div>
                 </div>
-              )
+                {card.classification === 'data-structures' && card.methods && card.methods.length > 0 ? (
+                  <div className="flex flex-col gap-3 text-left">
+                    <h3 className="mb-3 text-[1.1em]">Common Methods</h3>
+                    <div>
+                      {card.methods.map((method, idx) => (
+                        <div key={idx} className="text-text-secondary text-sm font-normal mb-2">
+                          <strong className="text-text-primary mr-2 font-medium">{method.name}:</strong> {method.timeComplexity}
+                        </div>
+                      ))}
+                    </div>
+                    {card.spaceComplexity && (
+                      <div className="text-text-secondary text-sm font-normal mt-3">
+                        <strong className="text-text-primary mr-2 font-medium">Space Complexity:</strong> {card.spaceComplexity}
+                      </div>
+                    )}
+                  </div>
+                ) : (
+                  renderComplexity(snippets[0])
+                )}
+              </>
             )}
           </div>
         );
@@ -127,7 +372,7 @@ export function CardDetail({ card, onClose, onCardUpdated }: CardDetailProps) {
               Explanation
             </h2>
             <div className="text-text-secondary leading-[1.75] text-base text-left font-normal">
-              <p className="m-0">{card.explanation}</p>
+              <Markdown language={card.language}>{card.explanation}</Markdown>
             </div>
           </div>
         );
@@ -136,20 +381,67 @@ export function CardDetail({ card, onClose, onCardUpdated }: CardDetailProps) {
         return (
           <div className="w-full max-w-[800px] text-left">
             <h2 className="m-0 mb-6 text-2xl font-normal text-text-primary text-left tracking-normal">
-              LeetCode Problems
+              Practice Problems
             </h2>
+            {progressError && (
+              <p className="m-0 mb-4 text-sm text-[#f28b82]">{progressError}</p>
+            )}
             {card.relatedProblems && card.relatedProblems.length > 0 ? (
               <div className="text-left">
                 <ul className="list-none p-0 m-0 text-left">
-                  {card.relatedProblems.map((problem, idx) => (
-                    <li key={idx} className="py-2 text-text-secondary text-sm border-b border-border font-normal last:border-b-0">
-                      {problem}
-                    </li>
-                  ))}
+                  {card.relatedProblems.map((problem, idx) => {
+                    const url = problemUrl(problem);
+                    const key = problemKey(problem);
+                    const legacyKey = legacyProblemKey(problem);
+                    const status = statuses[key] ?? statuses[legacyKey];
+                    return (
+                      <li key={idx} className="py-3 text-text-secondary text-sm border-b border-border font-normal last:border-b-0">
+                        <div className="flex items-center gap-3 flex-wrap">
+                          {url ? (
+                            <a href={url} target="_blank" rel="noopener noreferrer" className="text-accent no-underline hover:underline">
+                              {formatProblem(problem)}
+                            </a>
+                          ) : (
+                            <span className="text-text-primary">{formatProblem(problem)}</span>
+                          )}
+                          {problem.difficulty && (
+                            <span
+                              className="px-2 py-0.5 rounded-2xl text-[0.7rem] font-medium uppercase text-text-primary tracking-[0.5px]"
+                              style={{ backgroundColor: getDifficultyColor(problem.difficulty) }}
+                            >
+                              {problem.difficulty}
+                            </span>
+                          )}
+                          {isAuthenticated && (
+                            <div className="ml-auto flex gap-1" role="group" aria-label="Your progress">
+                              {PROBLEM_STATUSES.map(option => (
+                                <button
+                                  key={option}
+                                  // Clicking the current status clears it
+                                  onClick={() => setProblemStatus(key, legacyKey, status === option ? null : option)}
+                                  aria-pressed={status === option}
+                                  className={`px-2.5 py-0.5 border rounded-2xl cursor-pointer text-xs transition-all duration-200 ${
+                                    status === option
+                                      ? `${STATUS_COLORS[option]} text-text-primary font-medium`
+                                      : 'border-border bg-background text-text-tertiary hover:bg-[#3c4043]'
+                                  }`}
+                                >
+                                  {STATUS_LABELS[option]}
+                                </button>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                        {problem.notes && (
+                          <p className="m-0 mt-1 text-text-tertiary text-xs">{problem.notes}</p>
+                        )}
+                      </li>
+                    );
+                  })}
                 </ul>
               </div>
             ) : (
-              <p className="text-[#6a6a6a] italic text-left">No LeetCode problems linked yet.</p>
+              <p className="text-[#6a6a6a] italic text-left">No practice problems linked yet.</p>
             )}
           </div>
         );
@@ -165,7 +457,7 @@ export function CardDetail({ card, onClose, onCardUpdated }: CardDetailProps) {
                 <ul className="list-none p-0 m-0 text-left">
                   {card.useCases.map((useCase, idx) => (
                     <li key={idx} className="py-2 text-text-secondary text-sm border-b border-border font-normal last:border-b-0">
-                      {useCase}
+                      <Markdown language={card.language} inline>{useCase}</Markdown>
                     </li>
                   ))}
                 </ul>
@@ -182,6 +474,19 @@ export function CardDetail({ card, onClose, onCardUpdated }: CardDetailProps) {
             <h2 className="m-0 mb-6 text-2xl font-normal text-text-primary text-left tracking-normal">
               Related Topics
             </h2>
+            {linksError && <p className="m-0 mb-4 text-sm text-[#f28b82]">{linksError}</p>}
+            {linked.length > 0 && (
+              <div className="mb-6">{renderLinkGroups(linked, formatLinkType)}</div>
+            )}
+            {backlinks.length > 0 && (
+              <div className="mb-6">
+                <h3 className="m-0 mb-3 text-sm font-medium text-text-secondary">Linked from</h3>
+                {renderLinkGroups(backlinks, formatBacklinkType)}
+              </div>
+            )}
+            {linked.length === 0 && backlinks.length === 0 && !linksError && (
+              <p className="text-[#6a6a6a] italic text-left mb-6">No linked cards yet.</p>
+            )}
             <div className="flex flex-wrap gap-2 justify-start">
               {card.tags.map(tag => (
                 <span key={tag} className="px-3 py-1.5 bg-[#3c4043] border-none rounded text-xs text-text-secondary font-normal">
@@ -192,6 +497,16 @@ export function CardDetail({ card, onClose, onCardUpdated }: CardDetailProps) {
           </div>
         );
 
+      case 'history':
+        return (
+          <div className="w-full max-w-[800px] text-left">
+            <h2 className="m-0 mb-6 text-2xl font-normal text-text-primary text-left tracking-normal">
+              History
+            </h2>
+            <CardHistory card={card} canRestore={isAuthenticated} onRestored={onCardUpdated} />
+          </div>
+        );
+
       default:
         return null;
     }
@@ -217,6 +532,9 @@ export function CardDetail({ card, onClose, onCardUpdated }: CardDetailProps) {
                   {card.difficulty}
                 </span>
               )}
+              {testCount > 0 && (
+                <TestSummaryBadge summary={testSummary} testCount={testCount} className="px-3 py-1 rounded-2xl text-xs" />
+              )}
             </div>
           </div>
           <div className="flex items-center gap-3">
@@ -246,6 +564,45 @@ export function CardDetail({ card, onClose, onCardUpdated }: CardDetailProps) {
           </div>
         </div>
 
+        {deleteError && (
+          <div className="px-8 py-2 bg-[#5c2b29] text-[#f28b82] text-sm">
+            {deleteError}
+          </div>
+        )}
+
+        {syncStatus === 'pending' && (
+          <div className="px-8 py-2 bg-[#4a3d12] text-[#fdd663] text-sm">
+            Changes to this card are saved on this device and will sync when the connection returns.
+          </div>
+        )}
+
+        {syncStatus === 'failed' && (
+          <div className="px-8 py-2 bg-[#5c2b29] text-[#f28b82] text-sm flex items-center gap-3 flex-wrap">
+            <span className="flex-1">Your last change could not be synced{syncError ? `: ${syncError}` : '.'}</span>
+            {conflictBaseVersion ? (
+              <button
+                className="px-3 py-1 border-none rounded text-xs font-medium cursor-pointer bg-accent text-background hover:bg-accent-hover"
+                onClick={handleEdit}
+              >
+                Resolve
+              </button>
+            ) : (
+              <button
+                className="px-3 py-1 border-none rounded text-xs font-medium cursor-pointer bg-accent text-background hover:bg-accent-hover"
+                onClick={() => retryCardSync(card.id)}
+              >
+                Retry
+              </button>
+            )}
+            <button
+              className="px-3 py-1 border-none rounded text-xs font-medium cursor-pointer bg-[#5f6368] text-text-primary hover:bg-[#70757a]"
+              onClick={() => discardCardSync(card.id)}
+            >
+              Discard
+            </button>
+          </div>
+        )}
+
         <div className="flex flex-1 overflow-hidden flex-col md:flex-row">
           <nav className="w-full md:w-[200px] border-r-0 md:border-r border-border py-2 md:py-4 flex flex-row md:flex-col gap-1 md:gap-1 overflow-x-auto md:overflow-y-auto flex-shrink-0 bg-background md:border-b-0 border-b border-dark-border px-2 md:px-0">
             {SECTIONS.map(section => (
@@ -272,6 +629,8 @@ export function CardDetail({ card, onClose, onCardUpdated }: CardDetailProps) {
       {showEditModal && (
         <CardFormModal
           card={card}
+          baseVersion={conflictBaseVersion}
+          preferredLanguage={preferredLanguage}
           onClose={() => setShowEditModal(false)}
           onSuccess={handleCardUpdated}
         />
@@ -1,39 +1,106 @@
 import { useState } from 'react';
-import type { Card, CardClassification, CardDifficulty, CardLanguage, Method } from '../types/card';
+import type {
+  Card,
+  CardClassification,
+  CardDifficulty,
+  CardLanguage,
+  CardLink,
+  CodeVariant,
+  Implementation,
+  Method,
+  RelatedProblem,
+  TestCase,
+} from '../types/card';
 import { useAuth } from '../hooks/useAuth';
 import { createCard, updateCard } from '../services/cardService';
+import { CardConflictError } from '../services/cardErrors';
 import { AuthModal } from './AuthModal';
+import { CardConflictResolver } from './CardConflictResolver';
+import { Markdown } from './Markdown';
+import { ComplexityInput } from './ComplexityInput';
+import { CardLinkPicker } from './CardLinkPicker';
+import { TestCaseEditor } from './TestCaseEditor';
 import { getBoilerplate, isBoilerplateOnly } from '../utils/codeBoilerplate';
+import { normalizeComplexity } from '../utils/complexity';
 import { CLASSIFICATIONS, DIFFICULTIES, LANGUAGES, formatLanguage } from '../utils/constants';
+import {
+  DEFAULT_LANGUAGE,
+  fromImplementations,
+  getDefaultImplementation,
+  getImplementations,
+} from '../utils/cardImplementations';
+import { PROBLEM_PLATFORMS, formatPlatform, parseProblemReference, problemFromText } from '../utils/problems';
 
 interface CardFormModalProps {
   card?: Card;
+  baseVersion?: string; // Version the edit is based on, if not the card's current one
+  preferredLanguage?: CardLanguage; // Language new cards start in, and the tab opened first
   onClose: () => void;
   onSuccess: () => void;
 }
 
-export function CardFormModal({ card, onClose, onSuccess }: CardFormModalProps) {
+interface EditConflict {
+  mine: Partial<Omit<Card, 'id'>>;
+  theirs: Card;
+}
+
+/**
+ * Canonical form of a complexity field
+ * @throws Error naming the field if it cannot be read
+ */
+function normalizeComplexityField(label: string, text: string | undefined): string | undefined {
+  try {
+    return normalizeComplexity(text ?? '') || undefined;
+  } catch (err) {
+    throw new Error(`${label}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+export function CardFormModal({
+  card,
+  baseVersion: initialBaseVersion,
+  preferredLanguage,
+  onClose,
+  onSuccess,
+}: CardFormModalProps) {
   const { isAuthenticated } = useAuth();
   const [showAuthModal, setShowAuthModal] = useState(false);
   const isEditing = !!card;
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Captured when the form opens so saves are checked against the version the user started from
+  const [baseVersion] = useState(initialBaseVersion ?? card?.updatedAt);
+  const [conflict, setConflict] = useState<EditConflict | null>(null);
 
-  const initialLanguage: CardLanguage = card?.language || 'python';
+  const initialLanguage: CardLanguage = preferredLanguage || DEFAULT_LANGUAGE;
   const [formData, setFormData] = useState({
     title: card?.title || '',
     classification: card?.classification || 'algorithms' as CardClassification,
     difficulty: card?.difficulty || '' as CardDifficulty | '',
-    language: initialLanguage,
-    code: card?.code || (isEditing ? '' : getBoilerplate(initialLanguage)),
+    // Primary implementation first
+    implementations: card
+      ? getImplementations(card)
+      : [{ language: initialLanguage, code: getBoilerplate(initialLanguage) }] as Implementation[],
     explanation: card?.explanation || '',
     timeComplexity: card?.timeComplexity || '',
     spaceComplexity: card?.spaceComplexity || '',
     methods: card?.methods || [] as Method[],
+    variants: card?.variants || [] as CodeVariant[],
     tags: card?.tags.join(', ') || '',
     useCases: card?.useCases?.join('\n') || '',
-    relatedProblems: card?.relatedProblems?.join('\n') || '',
+    relatedProblems: card?.relatedProblems || [] as RelatedProblem[],
+    links: card?.links || [] as CardLink[],
+    testCases: card?.testCases || [] as TestCase[],
   });
+  const [problemReference, setProblemReference] = useState('');
+  const [activeLanguage, setActiveLanguage] = useState<CardLanguage>(
+    card ? getDefaultImplementation(card, preferredLanguage).language : initialLanguage
+  );
+  const activeImplementation = formData.implementations.find(impl => impl.language === activeLanguage)
+    ?? formData.implementations[0];
+  const unusedLanguages = LANGUAGES.filter(
+    language => !formData.implementations.some(impl => impl.language === language)
+  );
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -43,43 +110,107 @@ export function CardFormModal({ card, onClose, onSuccess }: CardFormModalProps)
       return;
     }
 
-    setLoading(true);
-    setError(null);
+    // Other languages left empty are dropped; the primary one must have code
+    const implementations = formData.implementations
+      .map(impl => ({ ...impl, code: impl.code.trim() }))
+      .filter((impl, idx) => idx === 0 || impl.code.length > 0);
+    if (!implementations[0].code) {
+      setActiveLanguage(implementations[0].language);
+      setError(`Code is required for ${formatLanguage(implementations[0].language)}, the primary language`);
+      return;
+    }
+
+    // Blank variants are dropped; the rest need distinct names
+    const namedVariants = formData.variants
+      .map(v => ({ ...v, name: v.name.trim(), code: v.code.trim() }))
+      .filter(v => v.name || v.code);
+    if (namedVariants.some(v => !v.name)) {
+      setError('Every variant needs a name');
+      return;
+    }
+    if (new Set(namedVariants.map(v => v.name)).size < namedVariants.length) {
+      setError('Variant names must be different from each other');
+      return;
+    }
 
+    // Complexities are saved in canonical form so they can be compared and sorted
+    const isDataStructure = formData.classification === 'data-structures';
+    let complexities: Pick<Card, 'timeComplexity' | 'spaceComplexity' | 'methods' | 'variants'>;
     try {
-      // Parse tags, useCases, and relatedProblems
-      const tags = formData.tags
-        .split(',')
-        .map(tag => tag.trim())
-        .filter(tag => tag.length > 0);
-      
-      const useCases = formData.useCases
-        .split('\n')
-        .map(uc => uc.trim())
-        .filter(uc => uc.length > 0);
-      
-      const relatedProblems = formData.relatedProblems
-        .split('\n')
-        .map(rp => rp.trim())
-        .filter(rp => rp.length > 0);
-
-      const cardData: Omit<Card, 'id' | 'dateAdded'> = {
-        title: formData.title.trim(),
-        classification: formData.classification,
-        difficulty: formData.difficulty || undefined,
-        language: formData.language,
-        code: formData.code.trim(),
-        explanation: formData.explanation.trim(),
-        timeComplexity: formData.classification === 'data-structures' ? undefined : (formData.timeComplexity.trim() || undefined),
-        spaceComplexity: formData.spaceComplexity.trim() || undefined,
-        methods: formData.classification === 'data-structures' && formData.methods.length > 0 ? formData.methods : undefined,
-        tags,
-        useCases: useCases.length > 0 ? useCases : undefined,
-        relatedProblems: relatedProblems.length > 0 ? relatedProblems : undefined,
+      complexities = {
+        timeComplexity: isDataStructure ? undefined : normalizeComplexityField('Time complexity', formData.timeComplexity),
+        spaceComplexity: normalizeComplexityField('Space complexity', formData.spaceComplexity),
+        methods: isDataStructure && formData.methods.length > 0
+          ? formData.methods.map(m => ({
+            name: m.name,
+            timeComplexity: normalizeComplexityField(`${m.name || 'Method'} time complexity`, m.timeComplexity) ?? '',
+          }))
+          : undefined,
+        variants: namedVariants.map(v => ({
+          ...v,
+          timeComplexity: normalizeComplexityField(`${v.name} time complexity`, v.timeComplexity),
+          spaceComplexity: normalizeComplexityField(`${v.name} space complexity`, v.spaceComplexity),
+        })),
       };
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid complexity');
+      return;
+    }
 
+    setLoading(true);
+    setError(null);
+
+    // Parse tags and useCases
+    const tags = formData.tags
+      .split(',')
+      .map(tag => tag.trim())
+      .filter(tag => tag.length > 0);
+    
+    const useCases = formData.useCases
+      .split('\n')
+      .map(uc => uc.trim())
+      .filter(uc => uc.length > 0);
+    
+    // Rows left without a title, number or URL are dropped
+    const relatedProblems = formData.relatedProblems
+      .map(p => ({
+        platform: p.platform,
+        number: p.number?.trim() || undefined,
+        title: p.title.trim(),
+        url: p.url?.trim() || undefined,
+        difficulty: p.difficulty,
+        notes: p.notes?.trim() || undefined,
+      }))
+      .filter(p => p.title || p.number || p.url);
+
+    // Tests with neither an input nor an expected output are dropped
+    const testCases = formData.testCases
+      .map(t => ({
+        ...t,
+        name: t.name?.trim() || undefined,
+        functionName: t.mode === 'args' ? t.functionName?.trim() || undefined : undefined,
+      }))
+      .filter(t => t.input.trim() || t.expected.trim());
+
+    const cardData: Omit<Card, 'id' | 'dateAdded'> = {
+      title: formData.title.trim(),
+      classification: formData.classification,
+      difficulty: formData.difficulty || undefined,
+      ...fromImplementations(implementations),
+      explanation: formData.explanation.trim(),
+      ...complexities,
+      tags,
+      useCases: useCases.length > 0 ? useCases : undefined,
+      relatedProblems: relatedProblems.length > 0 ? relatedProblems : undefined,
+      links: formData.links,
+      testCases,
+      // Input sets are saved from the code editor; carried over so a conflict shows both versions
+      inputSets: card?.inputSets,
+    };
+
+    try {
       if (isEditing && card) {
-        await updateCard(card.id, cardData);
+        await updateCard(card.id, cardData, baseVersion);
       } else {
         await createCard(cardData);
       }
@@ -87,7 +218,32 @@ export function CardFormModal({ card, onClose, onSuccess }: CardFormModalProps)
       onSuccess();
       onClose();
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to save card');
+      if (err instanceof CardConflictError) {
+        setConflict({ mine: cardData, theirs: err.theirs });
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to save card');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleResolveConflict = async (merged: Partial<Omit<Card, 'id'>>) => {
+    if (!card || !conflict) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      await updateCard(card.id, merged, conflict.theirs.updatedAt);
+      onSuccess();
+      onClose();
+    } catch (err) {
+      if (err instanceof CardConflictError) {
+        // Someone saved again while we were merging; merge against the newest version
+        setConflict({ mine: merged, theirs: err.theirs });
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to save card');
+      }
     } finally {
       setLoading(false);
     }
@@ -108,17 +264,123 @@ export function CardFormModal({ card, onClose, onSuccess }: CardFormModalProps)
     });
   };
 
-  const handleLanguageChange = (language: CardLanguage) => {
+  const updateImplementationCode = (language: CardLanguage, code: string) => {
+    setFormData(prev => ({
+      ...prev,
+      implementations: prev.implementations.map(impl => (impl.language === language ? { ...impl, code } : impl)),
+    }));
+  };
+
+  const addImplementation = (language: CardLanguage) => {
+    setFormData(prev => ({
+      ...prev,
+      implementations: [...prev.implementations, { language, code: getBoilerplate(language) }],
+    }));
+    setActiveLanguage(language);
+  };
+
+  const removeImplementation = (language: CardLanguage) => {
+    const implementation = formData.implementations.find(impl => impl.language === language);
+    if (
+      implementation?.code.trim() &&
+      !isBoilerplateOnly(implementation.code, language) &&
+      !window.confirm(`Remove the ${formatLanguage(language)} implementation?`)
+    ) {
+      return;
+    }
+    const remaining = formData.implementations.filter(impl => impl.language !== language);
+    setFormData(prev => ({ ...prev, implementations: remaining }));
+    if (activeLanguage === language) {
+      setActiveLanguage(remaining[0].language);
+    }
+  };
+
+  const makePrimary = (language: CardLanguage) => {
+    setFormData(prev => ({
+      ...prev,
+      implementations: [
+        ...prev.implementations.filter(impl => impl.language === language),
+        ...prev.implementations.filter(impl => impl.language !== language),
+      ],
+    }));
+  };
+
+  const addVariant = () => {
+    const language = formData.implementations[0].language;
+    setFormData(prev => ({
+      ...prev,
+      variants: [...prev.variants, { name: '', language, code: getBoilerplate(language) }],
+    }));
+  };
+
+  const updateVariant = (index: number, updates: Partial<CodeVariant>) => {
+    setFormData(prev => ({
+      ...prev,
+      variants: prev.variants.map((variant, i) => {
+        if (i !== index) return variant;
+        // Switching the language of untouched boilerplate swaps in the new language's boilerplate
+        if (updates.language && (!variant.code.trim() || isBoilerplateOnly(variant.code, variant.language))) {
+          return { ...variant, ...updates, code: getBoilerplate(updates.language) };
+        }
+        return { ...variant, ...updates };
+      }),
+    }));
+  };
+
+  const moveVariant = (index: number, offset: -1 | 1) => {
     setFormData(prev => {
-      // If code is empty or just boilerplate, replace with new boilerplate
-      if (!prev.code.trim() || isBoilerplateOnly(prev.code, prev.language)) {
-        return { ...prev, language, code: getBoilerplate(language) };
-      }
-      // Otherwise, just update the language
-      return { ...prev, language };
+      const variants = [...prev.variants];
+      const target = index + offset;
+      if (target < 0 || target >= variants.length) return prev;
+      [variants[index], variants[target]] = [variants[target], variants[index]];
+      return { ...prev, variants };
     });
   };
 
+  const removeVariant = (index: number) => {
+    setFormData(prev => ({
+      ...prev,
+      variants: prev.variants.filter((_, i) => i !== index),
+    }));
+  };
+
+  const addProblem = (problem: RelatedProblem) => {
+    setFormData(prev => ({ ...prev, relatedProblems: [...prev.relatedProblems, problem] }));
+  };
+
+  // Text that is not a recognised reference still becomes a row, titled with the text
+  const addProblemFromReference = (text: string) => {
+    if (!text.trim()) return;
+    addProblem(problemFromText(text));
+    setProblemReference('');
+  };
+
+  const updateProblem = (index: number, updates: Partial<RelatedProblem>) => {
+    setFormData(prev => ({
+      ...prev,
+      relatedProblems: prev.relatedProblems.map((problem, i) => (i === index ? { ...problem, ...updates } : problem)),
+    }));
+  };
+
+  // A URL typed into a row fills in whatever the row is still missing
+  const fillProblemFromUrl = (index: number) => {
+    const problem = formData.relatedProblems[index];
+    const parsed = problem.url ? parseProblemReference(problem.url) : null;
+    if (!parsed) return;
+    updateProblem(index, {
+      platform: problem.platform === 'other' ? parsed.platform : problem.platform,
+      number: problem.number || parsed.number,
+      title: problem.title || parsed.title,
+    });
+  };
+
+  const removeProblem = (index: number) => {
+    setFormData(prev => ({
+      ...prev,
+      relatedProblems: prev.relatedProblems.filter((_, i) => i !== index),
+    }));
+  };
+
   const addMethod = () => {
     setFormData(prev => ({
       ...prev,
@@ -150,256 +412,512 @@ export function CardFormModal({ card, onClose, onSuccess }: CardFormModalProps)
           <button className="bg-transparent border-none text-text-tertiary text-[2rem] cursor-pointer leading-none p-0 w-8 h-8 flex items-center justify-center transition-colors duration-200 hover:text-text-primary" onClick={onClose}>×</button>
         </div>
 
-        <form onSubmit={handleSubmit} className="p-8 overflow-y-auto flex-1 md:p-8">
-          {!isAuthenticated && (
-            <div className="bg-[#1e3a5f] border border-[#5b8fb8] text-text-secondary p-4 rounded mb-6 text-center">
-              <p className="m-0 mb-3 text-sm">You must be signed in to {isEditing ? 'edit' : 'create'} cards.</p>
-              <button
-                type="button"
-                className="px-4 py-2 bg-accent text-background border-none rounded text-sm font-medium cursor-pointer transition-all duration-200 hover:bg-accent-hover"
-                onClick={() => setShowAuthModal(true)}
-              >
-                Sign In with Google
-              </button>
-            </div>
-          )}
-
-          {error && (
-            <div className="bg-[#5c2b29] text-[#f28b82] px-4 py-3 rounded mb-6 text-sm">
-              {error}
-            </div>
-          )}
-
-          <div className="mb-6">
-            <label className="block font-medium text-text-secondary mb-2 text-sm">
-              Title <span className="text-error">*</span>
-            </label>
-            <input
-              type="text"
-              value={formData.title}
-              onChange={(e) => handleChange('title', e.target.value)}
-              required
-              className="w-full px-3 py-3 border border-border rounded text-sm bg-background text-text-primary font-mono transition-all duration-200 focus:outline-none focus:border-accent focus:shadow-[0_0_0_1px_#8ab4f8] focus:bg-surface"
+        {conflict ? (
+          <div className="p-8 overflow-y-auto flex-1 md:p-8">
+            {error && (
+              <div className="bg-[#5c2b29] text-[#f28b82] px-4 py-3 rounded mb-6 text-sm">
+                {error}
+              </div>
+            )}
+            <CardConflictResolver
+              mine={conflict.mine}
+              theirs={conflict.theirs}
+              saving={loading}
+              onResolve={handleResolveConflict}
+              onCancel={() => setConflict(null)}
             />
           </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="p-8 overflow-y-auto flex-1 md:p-8">
+            {!isAuthenticated && (
+              <div className="bg-[#1e3a5f] border border-[#5b8fb8] text-text-secondary p-4 rounded mb-6 text-center">
+                <p className="m-0 mb-3 text-sm">You must be signed in to {isEditing ? 'edit' : 'create'} cards.</p>
+                <button
+                  type="button"
+                  className="px-4 py-2 bg-accent text-background border-none rounded text-sm font-medium cursor-pointer transition-all duration-200 hover:bg-accent-hover"
+                  onClick={() => setShowAuthModal(true)}
+                >
+                  Sign In with Google
+                </button>
+              </div>
+            )}
+
+            {error && (
+              <div className="bg-[#5c2b29] text-[#f28b82] px-4 py-3 rounded mb-6 text-sm">
+                {error}
+              </div>
+            )}
 
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
-            <div className="mb-6 md:mb-0">
+            <div className="mb-6">
               <label className="block font-medium text-text-secondary mb-2 text-sm">
-                Classification <span className="text-error">*</span>
+                Title <span className="text-error">*</span>
               </label>
-              <select
-                value={formData.classification}
-                onChange={(e) => handleClassificationChange(e.target.value as CardClassification)}
+              <input
+                type="text"
+                value={formData.title}
+                onChange={(e) => handleChange('title', e.target.value)}
                 required
-                className="w-full px-3 py-3 border border-border rounded text-sm bg-background text-text-primary font-mono transition-all duration-200 cursor-pointer focus:outline-none focus:border-accent focus:shadow-[0_0_0_1px_#8ab4f8] focus:bg-surface"
-              >
-                {CLASSIFICATIONS.map(cls => (
-                  <option key={cls} value={cls}>
-                    {cls === 'data-structures' ? 'Data Structures' : cls.charAt(0).toUpperCase() + cls.slice(1)}
-                  </option>
-                ))}
-              </select>
+                className="w-full px-3 py-3 border border-border rounded text-sm bg-background text-text-primary font-mono transition-all duration-200 focus:outline-none focus:border-accent focus:shadow-[0_0_0_1px_#8ab4f8] focus:bg-surface"
+              />
             </div>
 
-            <div className="mb-6 md:mb-0">
-              <label className="block font-medium text-text-secondary mb-2 text-sm">Difficulty</label>
-              <select
-                value={formData.difficulty}
-                onChange={(e) => handleChange('difficulty', e.target.value)}
-                className="w-full px-3 py-3 border border-border rounded text-sm bg-background text-text-primary font-mono transition-all duration-200 cursor-pointer focus:outline-none focus:border-accent focus:shadow-[0_0_0_1px_#8ab4f8] focus:bg-surface"
-              >
-                <option value="">None</option>
-                {DIFFICULTIES.map(diff => (
-                  <option key={diff} value={diff}>
-                    {diff.charAt(0).toUpperCase() + diff.slice(1)}
-                  </option>
-                ))}
-              </select>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+              <div className="mb-6 md:mb-0">
+                <label className="block font-medium text-text-secondary mb-2 text-sm">
+                  Classification <span className="text-error">*</span>
+                </label>
+                <select
+                  value={formData.classification}
+                  onChange={(e) => handleClassificationChange(e.target.value as CardClassification)}
+                  required
+                  className="w-full px-3 py-3 border border-border rounded text-sm bg-background text-text-primary font-mono transition-all duration-200 cursor-pointer focus:outline-none focus:border-accent focus:shadow-[0_0_0_1px_#8ab4f8] focus:bg-surface"
+                >
+                  {CLASSIFICATIONS.map(cls => (
+                    <option key={cls} value={cls}>
+                      {cls === 'data-structures' ? 'Data Structures' : cls.charAt(0).toUpperCase() + cls.slice(1)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="mb-6 md:mb-0">
+                <label className="block font-medium text-text-secondary mb-2 text-sm">Difficulty</label>
+                <select
+                  value={formData.difficulty}
+                  onChange={(e) => handleChange('difficulty', e.target.value)}
+                  className="w-full px-3 py-3 border border-border rounded text-sm bg-background text-text-primary font-mono transition-all duration-200 cursor-pointer focus:outline-none focus:border-accent focus:shadow-[0_0_0_1px_#8ab4f8] focus:bg-surface"
+                >
+                  <option value="">None</option>
+                  {DIFFICULTIES.map(diff => (
+                    <option key={diff} value={diff}>
+                      {diff.charAt(0).toUpperCase() + diff.slice(1)}
+                    </option>
+                  ))}
+                </select>
+              </div>
             </div>
 
-            <div className="mb-6 md:mb-0">
+            <div className="mb-6">
               <label className="block font-medium text-text-secondary mb-2 text-sm">
-                Language <span className="text-error">*</span>
+                Code <span className="text-error">*</span>
+                <span className="ml-2 text-text-tertiary font-normal text-xs">The first language is the card's primary implementation</span>
               </label>
-              <select
-                value={formData.language}
-                onChange={(e) => handleLanguageChange(e.target.value as CardLanguage)}
-                required
-                className="w-full px-3 py-3 border border-border rounded text-sm bg-background text-text-primary font-mono transition-all duration-200 cursor-pointer focus:outline-none focus:border-accent focus:shadow-[0_0_0_1px_#8ab4f8] focus:bg-surface"
-              >
-                {LANGUAGES.map(lang => (
-                  <option key={lang} value={lang}>
-                    {formatLanguage(lang)}
-                  </option>
+              <div className="flex flex-wrap items-center gap-1 mb-2">
+                {formData.implementations.map((impl, idx) => (
+                  <button
+                    key={impl.language}
+                    type="button"
+                    onClick={() => setActiveLanguage(impl.language)}
+                    className={`px-3 py-1 border rounded-2xl cursor-pointer text-xs transition-all duration-200 ${
+                      impl.language === activeImplementation.language
+                        ? 'bg-accent text-background border-accent font-medium'
+                        : 'border-border bg-background text-text-secondary hover:bg-[#3c4043]'
+                    }`}
+                  >
+                    {formatLanguage(impl.language)}{idx === 0 && ' (primary)'}
+                  </button>
                 ))}
-              </select>
+                {unusedLanguages.length > 0 && (
+                  <select
+                    value=""
+                    onChange={(e) => addImplementation(e.target.value as CardLanguage)}
+                    className="px-2 py-1 border border-border rounded-2xl text-xs bg-background text-text-secondary cursor-pointer focus:outline-none focus:border-accent"
+                  >
+                    <option value="">+ Add language</option>
+                    {unusedLanguages.map(lang => (
+                      <option key={lang} value={lang}>
+                        {formatLanguage(lang)}
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </div>
+              <textarea
+                value={activeImplementation.code}
+                onChange={(e) => updateImplementationCode(activeImplementation.language, e.target.value)}
+                rows={10}
+                className="w-full px-3 py-3 border border-border rounded text-sm bg-background text-text-primary font-mono transition-all duration-200 resize-y min-h-[100px] focus:outline-none focus:border-accent focus:shadow-[0_0_0_1px_#8ab4f8] focus:bg-surface"
+                placeholder={`Enter your ${formatLanguage(activeImplementation.language)} code here...`}
+              />
+              {formData.implementations.length > 1 && (
+                <div className="flex gap-3 mt-2 text-xs">
+                  {activeImplementation !== formData.implementations[0] && (
+                    <button
+                      type="button"
+                      onClick={() => makePrimary(activeImplementation.language)}
+                      className="bg-transparent border-none p-0 text-accent cursor-pointer hover:underline"
+                    >
+                      Make {formatLanguage(activeImplementation.language)} primary
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => removeImplementation(activeImplementation.language)}
+                    className="bg-transparent border-none p-0 text-[#f28b82] cursor-pointer hover:underline"
+                  >
+                    Remove {formatLanguage(activeImplementation.language)}
+                  </button>
+                </div>
+              )}
             </div>
-          </div>
-
-          <div className="mb-6">
-            <label className="block font-medium text-text-secondary mb-2 text-sm">
-              Code <span className="text-error">*</span>
-            </label>
-            <textarea
-              value={formData.code}
-              onChange={(e) => handleChange('code', e.target.value)}
-              required
-              rows={10}
-              className="w-full px-3 py-3 border border-border rounded text-sm bg-background text-text-primary font-mono transition-all duration-200 resize-y min-h-[100px] focus:outline-none focus:border-accent focus:shadow-[0_0_0_1px_#8ab4f8] focus:bg-surface"
-              placeholder="Enter your code here..."
-            />
-          </div>
 
-          <div className="mb-6">
-            <label className="block font-medium text-text-secondary mb-2 text-sm">
-              Explanation <span className="text-error">*</span>
-            </label>
-            <textarea
-              value={formData.explanation}
-              onChange={(e) => handleChange('explanation', e.target.value)}
-              required
-              rows={5}
-              className="w-full px-3 py-3 border border-border rounded text-sm bg-background text-text-primary font-mono transition-all duration-200 resize-y min-h-[100px] focus:outline-none focus:border-accent focus:shadow-[0_0_0_1px_#8ab4f8] focus:bg-surface"
-              placeholder="Explain the algorithm, pattern, or concept..."
-            />
-          </div>
-
-          {formData.classification === 'data-structures' ? (
             <div className="mb-6">
               <div className="flex items-center gap-2.5 mb-2">
                 <label className="block font-medium text-text-secondary mb-0 text-sm">
-                  Common Methods
+                  Variants
                 </label>
                 <button
                   type="button"
-                  onClick={addMethod}
+                  onClick={addVariant}
                   className="px-3 py-1 text-[0.9em] bg-[#3b82f6] text-white border-none rounded cursor-pointer"
                 >
-                  + Add Method
+                  + Add Variant
                 </button>
               </div>
-              {formData.methods.length === 0 ? (
+              {formData.variants.length === 0 ? (
                 <p className="text-[#6b7280] text-[0.9em] mt-2">
-                  Click "+ Add Method" to add common methods (e.g., get, put, set) with their time complexities.
+                  Click "+ Add Variant" to add alternative approaches (e.g., iterative vs recursive, memoized DP).
                 </p>
               ) : (
-                <div className="mt-2">
-                  {formData.methods.map((method, index) => (
-                    <div key={index} className="flex gap-2.5 mb-2.5 items-center">
-                      <input
-                        type="text"
-                        value={method.name}
-                        onChange={(e) => updateMethod(index, 'name', e.target.value)}
-                        className="flex-1 px-3 py-3 border border-border rounded text-sm bg-background text-text-primary font-mono transition-all duration-200 focus:outline-none focus:border-accent focus:shadow-[0_0_0_1px_#8ab4f8] focus:bg-surface"
-                        placeholder="Method name (e.g., get)"
+                <div className="mt-2 flex flex-col gap-4">
+                  {formData.variants.map((variant, index) => (
+                    <div key={index} className="p-4 border border-border rounded flex flex-col gap-2.5">
+                      <div className="flex gap-2.5 items-center flex-wrap">
+                        <input
+                          type="text"
+                          value={variant.name}
+                          onChange={(e) => updateVariant(index, { name: e.target.value })}
+                          className="flex-1 min-w-[160px] px-3 py-2 border border-border rounded text-sm bg-background text-text-primary font-mono transition-all duration-200 focus:outline-none focus:border-accent focus:shadow-[0_0_0_1px_#8ab4f8] focus:bg-surface"
+                          placeholder="Name (e.g., Iterative)"
+                        />
+                        <select
+                          value={variant.language}
+                          onChange={(e) => updateVariant(index, { language: e.target.value as CardLanguage })}
+                          className="px-3 py-2 border border-border rounded text-sm bg-background text-text-primary font-mono cursor-pointer focus:outline-none focus:border-accent"
+                        >
+                          {LANGUAGES.map(lang => (
+                            <option key={lang} value={lang}>
+                              {formatLanguage(lang)}
+                            </option>
+                          ))}
+                        </select>
+                        <button
+                          type="button"
+                          onClick={() => moveVariant(index, -1)}
+                          disabled={index === 0}
+                          className="px-2 py-2 bg-[#5f6368] text-text-primary border-none rounded cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
+                          title="Move up"
+                        >
+                          ↑
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => moveVariant(index, 1)}
+                          disabled={index === formData.variants.length - 1}
+                          className="px-2 py-2 bg-[#5f6368] text-text-primary border-none rounded cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
+                          title="Move down"
+                        >
+                          ↓
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => removeVariant(index)}
+                          className="px-3 py-2 bg-[#ef4444] text-white border-none rounded cursor-pointer"
+                        >
+                          Remove
+                        </button>
+                      </div>
+                      <textarea
+                        value={variant.code}
+                        onChange={(e) => updateVariant(index, { code: e.target.value })}
+                        rows={8}
+                        className="w-full px-3 py-3 border border-border rounded text-sm bg-background text-text-primary font-mono transition-all duration-200 resize-y min-h-[100px] focus:outline-none focus:border-accent focus:shadow-[0_0_0_1px_#8ab4f8] focus:bg-surface"
+                        placeholder="Variant code..."
                       />
-                      <input
-                        type="text"
-                        value={method.timeComplexity}
-                        onChange={(e) => updateMethod(index, 'timeComplexity', e.target.value)}
-                        className="flex-1 px-3 py-3 border border-border rounded text-sm bg-background text-text-primary font-mono transition-all duration-200 focus:outline-none focus:border-accent focus:shadow-[0_0_0_1px_#8ab4f8] focus:bg-surface"
-                        placeholder="Time complexity (e.g., O(1))"
-                      />
-                      <button
-                        type="button"
-                        onClick={() => removeMethod(index)}
-                        className="px-3 py-2 bg-[#ef4444] text-white border-none rounded cursor-pointer"
-                      >
-                        Remove
-                      </button>
+                      <div className="flex gap-2.5 items-start">
+                        <ComplexityInput
+                          value={variant.timeComplexity ?? ''}
+                          onChange={(value) => updateVariant(index, { timeComplexity: value })}
+                          className="flex-1"
+                          placeholder="Time complexity (e.g., O(n))"
+                        />
+                        <ComplexityInput
+                          value={variant.spaceComplexity ?? ''}
+                          onChange={(value) => updateVariant(index, { spaceComplexity: value })}
+                          className="flex-1"
+                          placeholder="Space complexity (e.g., O(1))"
+                        />
+                      </div>
                     </div>
                   ))}
                 </div>
               )}
-              <div className="mt-4">
-                <label className="block font-medium text-text-secondary mb-2 text-sm">Space Complexity</label>
-                <input
-                  type="text"
-                  value={formData.spaceComplexity}
-                  onChange={(e) => handleChange('spaceComplexity', e.target.value)}
-                  className="w-full px-3 py-3 border border-border rounded text-sm bg-background text-text-primary font-mono transition-all duration-200 focus:outline-none focus:border-accent focus:shadow-[0_0_0_1px_#8ab4f8] focus:bg-surface"
-                  placeholder="e.g., O(n)"
+            </div>
+
+            <div className="mb-6">
+              <label className="block font-medium text-text-secondary mb-2 text-sm">
+                Explanation <span className="text-error">*</span>
+                <span className="ml-2 text-text-tertiary font-normal text-xs">Markdown, with $math$ and fenced code</span>
+              </label>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <textarea
+                  value={formData.explanation}
+                  onChange={(e) => handleChange('explanation', e.target.value)}
+                  required
+                  rows={12}
+                  className="w-full px-3 py-3 border border-border rounded text-sm bg-background text-text-primary font-mono transition-all duration-200 resize-y min-h-[100px] focus:outline-none focus:border-accent focus:shadow-[0_0_0_1px_#8ab4f8] focus:bg-surface"
+                  placeholder="Explain the algorithm, pattern, or concept..."
                 />
+                <div className="px-3 py-3 border border-border rounded text-sm text-text-secondary leading-[1.75] overflow-auto max-h-[400px] min-h-[100px]">
+                  {formData.explanation.trim() ? (
+                    <Markdown language={formData.implementations[0].language}>{formData.explanation}</Markdown>
+                  ) : (
+                    <span className="text-[#6a6a6a] italic">Preview</span>
+                  )}
+                </div>
               </div>
             </div>
-          ) : (
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
-              <div className="mb-6 md:mb-0">
-                <label className="block font-medium text-text-secondary mb-2 text-sm">Time Complexity</label>
-                <input
-                  type="text"
-                  value={formData.timeComplexity}
-                  onChange={(e) => handleChange('timeComplexity', e.target.value)}
-                  className="w-full px-3 py-3 border border-border rounded text-sm bg-background text-text-primary font-mono transition-all duration-200 focus:outline-none focus:border-accent focus:shadow-[0_0_0_1px_#8ab4f8] focus:bg-surface"
-                  placeholder="e.g., O(n log n)"
-                />
+
+            {formData.classification === 'data-structures' ? (
+              <div className="mb-6">
+                <div className="flex items-center gap-2.5 mb-2">
+                  <label className="block font-medium text-text-secondary mb-0 text-sm">
+                    Common Methods
+                  </label>
+                  <button
+                    type="button"
+                    onClick={addMethod}
+                    className="px-3 py-1 text-[0.9em] bg-[#3b82f6] text-white border-none rounded cursor-pointer"
+                  >
+                    + Add Method
+                  </button>
+                </div>
+                {formData.methods.length === 0 ? (
+                  <p className="text-[#6b7280] text-[0.9em] mt-2">
+                    Click "+ Add Method" to add common methods (e.g., get, put, set) with their time complexities.
+                  </p>
+                ) : (
+                  <div className="mt-2">
+                    {formData.methods.map((method, index) => (
+                      <div key={index} className="flex gap-2.5 mb-2.5 items-start">
+                        <input
+                          type="text"
+                          value={method.name}
+                          onChange={(e) => updateMethod(index, 'name', e.target.value)}
+                          className="flex-1 px-3 py-3 border border-border rounded text-sm bg-background text-text-primary font-mono transition-all duration-200 focus:outline-none focus:border-accent focus:shadow-[0_0_0_1px_#8ab4f8] focus:bg-surface"
+                          placeholder="Method name (e.g., get)"
+                        />
+                        <ComplexityInput
+                          value={method.timeComplexity}
+                          onChange={(value) => updateMethod(index, 'timeComplexity', value)}
+                          className="flex-1"
+                          placeholder="Time complexity (e.g., O(1))"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => removeMethod(index)}
+                          className="px-3 py-2 bg-[#ef4444] text-white border-none rounded cursor-pointer"
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <div className="mt-4">
+                  <label className="block font-medium text-text-secondary mb-2 text-sm">Space Complexity</label>
+                  <ComplexityInput
+                    value={formData.spaceComplexity}
+                    onChange={(value) => handleChange('spaceComplexity', value)}
+                    placeholder="e.g., O(n)"
+                  />
+                </div>
               </div>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+                <div className="mb-6 md:mb-0">
+                  <label className="block font-medium text-text-secondary mb-2 text-sm">Time Complexity</label>
+                  <ComplexityInput
+                    value={formData.timeComplexity}
+                    onChange={(value) => handleChange('timeComplexity', value)}
+                    placeholder="e.g., O(n log n)"
+                  />
+                </div>
 
-              <div className="mb-6 md:mb-0">
-                <label className="block font-medium text-text-secondary mb-2 text-sm">Space Complexity</label>
+                <div className="mb-6 md:mb-0">
+                  <label className="block font-medium text-text-secondary mb-2 text-sm">Space Complexity</label>
+                  <ComplexityInput
+                    value={formData.spaceComplexity}
+                    onChange={(value) => handleChange('spaceComplexity', value)}
+                    placeholder="e.g., O(1)"
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="mb-6">
+              <label className="block font-medium text-text-secondary mb-2 text-sm">Tags</label>
+              <input
+                type="text"
+                value={formData.tags}
+                onChange={(e) => handleChange('tags', e.target.value)}
+                className="w-full px-3 py-3 border border-border rounded text-sm bg-background text-text-primary font-mono transition-all duration-200 focus:outline-none focus:border-accent focus:shadow-[0_0_0_1px_#8ab4f8] focus:bg-surface"
+                placeholder="Comma-separated tags (e.g., array, search, divide-conquer)"
+              />
+            </div>
+
+            <div className="mb-6">
+              <label className="block font-medium text-text-secondary mb-2 text-sm">Use Cases</label>
+              <textarea
+                value={formData.useCases}
+                onChange={(e) => handleChange('useCases', e.target.value)}
+                rows={3}
+                className="w-full px-3 py-3 border border-border rounded text-sm bg-background text-text-primary font-mono transition-all duration-200 resize-y min-h-[100px] focus:outline-none focus:border-accent focus:shadow-[0_0_0_1px_#8ab4f8] focus:bg-surface"
+                placeholder="One use case per line..."
+              />
+            </div>
+
+            <div className="mb-6">
+              <label className="block font-medium text-text-secondary mb-2 text-sm">Related Problems</label>
+              <div className="flex gap-2.5">
                 <input
                   type="text"
-                  value={formData.spaceComplexity}
-                  onChange={(e) => handleChange('spaceComplexity', e.target.value)}
-                  className="w-full px-3 py-3 border border-border rounded text-sm bg-background text-text-primary font-mono transition-all duration-200 focus:outline-none focus:border-accent focus:shadow-[0_0_0_1px_#8ab4f8] focus:bg-surface"
-                  placeholder="e.g., O(1)"
+                  value={problemReference}
+                  onChange={(e) => setProblemReference(e.target.value)}
+                  onPaste={(e) => {
+                    const pasted = e.clipboardData.getData('text');
+                    if (parseProblemReference(pasted)) {
+                      e.preventDefault();
+                      addProblemFromReference(pasted);
+                    }
+                  }}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      addProblemFromReference(problemReference);
+                    }
+                  }}
+                  className="flex-1 px-3 py-3 border border-border rounded text-sm bg-background text-text-primary font-mono transition-all duration-200 focus:outline-none focus:border-accent focus:shadow-[0_0_0_1px_#8ab4f8] focus:bg-surface"
+                  placeholder="Paste a LeetCode, Codeforces or HackerRank link, or type LC 42 / CF 1520A"
                 />
+                <button
+                  type="button"
+                  onClick={() => (problemReference.trim()
+                    ? addProblemFromReference(problemReference)
+                    : addProblem({ platform: 'leetcode', title: '' }))}
+                  className="px-3 py-1 text-[0.9em] bg-[#3b82f6] text-white border-none rounded cursor-pointer"
+                >
+                  + Add Problem
+                </button>
               </div>
+              {formData.relatedProblems.length > 0 && (
+                <div className="mt-3 flex flex-col gap-3">
+                  {formData.relatedProblems.map((problem, index) => (
+                    <div key={index} className="p-4 border border-border rounded flex flex-col gap-2.5">
+                      <div className="flex gap-2.5 items-center flex-wrap">
+                        <select
+                          value={problem.platform}
+                          onChange={(e) => updateProblem(index, { platform: e.target.value as RelatedProblem['platform'] })}
+                          className="px-3 py-2 border border-border rounded text-sm bg-background text-text-primary font-mono cursor-pointer focus:outline-none focus:border-accent"
+                        >
+                          {PROBLEM_PLATFORMS.map(platform => (
+                            <option key={platform} value={platform}>
+                              {formatPlatform(platform)}
+                            </option>
+                          ))}
+                        </select>
+                        <input
+                          type="text"
+                          value={problem.number ?? ''}
+                          onChange={(e) => updateProblem(index, { number: e.target.value })}
+                          className="w-24 px-3 py-2 border border-border rounded text-sm bg-background text-text-primary font-mono transition-all duration-200 focus:outline-none focus:border-accent focus:shadow-[0_0_0_1px_#8ab4f8] focus:bg-surface"
+                          placeholder="No."
+                        />
+                        <input
+                          type="text"
+                          value={problem.title}
+                          onChange={(e) => updateProblem(index, { title: e.target.value })}
+                          className="flex-1 min-w-[160px] px-3 py-2 border border-border rounded text-sm bg-background text-text-primary font-mono transition-all duration-200 focus:outline-none focus:border-accent focus:shadow-[0_0_0_1px_#8ab4f8] focus:bg-surface"
+                          placeholder="Title (e.g., Binary Search)"
+                        />
+                        <select
+                          value={problem.difficulty ?? ''}
+                          onChange={(e) => updateProblem(index, { difficulty: (e.target.value as CardDifficulty) || undefined })}
+                          className="px-3 py-2 border border-border rounded text-sm bg-background text-text-primary font-mono cursor-pointer focus:outline-none focus:border-accent"
+                        >
+                          <option value="">Difficulty</option>
+                          {DIFFICULTIES.map(diff => (
+                            <option key={diff} value={diff}>
+                              {diff.charAt(0).toUpperCase() + diff.slice(1)}
+                            </option>
+                          ))}
+                        </select>
+                        <button
+                          type="button"
+                          onClick={() => removeProblem(index)}
+                          className="px-3 py-2 bg-[#ef4444] text-white border-none rounded cursor-pointer"
+                        >
+                          Remove
+                        </button>
+                      </div>
+                      <input
+                        type="url"
+                        value={problem.url ?? ''}
+                        onChange={(e) => updateProblem(index, { url: e.target.value })}
+                        onBlur={() => fillProblemFromUrl(index)}
+                        className="w-full px-3 py-2 border border-border rounded text-sm bg-background text-text-primary font-mono transition-all duration-200 focus:outline-none focus:border-accent focus:shadow-[0_0_0_1px_#8ab4f8] focus:bg-surface"
+                        placeholder="URL (optional)"
+                      />
+                      <input
+                        type="text"
+                        value={problem.notes ?? ''}
+                        onChange={(e) => updateProblem(index, { notes: e.target.value })}
+                        className="w-full px-3 py-2 border border-border rounded text-sm bg-background text-text-primary font-mono transition-all duration-200 focus:outline-none focus:border-accent focus:shadow-[0_0_0_1px_#8ab4f8] focus:bg-surface"
+                        placeholder="Notes (e.g., same idea with a sliding window)"
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
-          )}
-
-          <div className="mb-6">
-            <label className="block font-medium text-text-secondary mb-2 text-sm">Tags</label>
-            <input
-              type="text"
-              value={formData.tags}
-              onChange={(e) => handleChange('tags', e.target.value)}
-              className="w-full px-3 py-3 border border-border rounded text-sm bg-background text-text-primary font-mono transition-all duration-200 focus:outline-none focus:border-accent focus:shadow-[0_0_0_1px_#8ab4f8] focus:bg-surface"
-              placeholder="Comma-separated tags (e.g., array, search, divide-conquer)"
-            />
-          </div>
 
-          <div className="mb-6">
-            <label className="block font-medium text-text-secondary mb-2 text-sm">Use Cases</label>
-            <textarea
-              value={formData.useCases}
-              onChange={(e) => handleChange('useCases', e.target.value)}
-              rows={3}
-              className="w-full px-3 py-3 border border-border rounded text-sm bg-background text-text-primary font-mono transition-all duration-200 resize-y min-h-[100px] focus:outline-none focus:border-accent focus:shadow-[0_0_0_1px_#8ab4f8] focus:bg-surface"
-              placeholder="One use case per line..."
-            />
-          </div>
+            <div className="mb-6">
+              <label className="block font-medium text-text-secondary mb-2 text-sm">Linked Cards</label>
+              <CardLinkPicker
+                cardId={card?.id}
+                links={formData.links}
+                onChange={(links) => setFormData(prev => ({ ...prev, links }))}
+              />
+            </div>
 
-          <div className="mb-6">
-            <label className="block font-medium text-text-secondary mb-2 text-sm">Related Problems</label>
-            <textarea
-              value={formData.relatedProblems}
-              onChange={(e) => handleChange('relatedProblems', e.target.value)}
-              rows={3}
-              className="w-full px-3 py-3 border border-border rounded text-sm bg-background text-text-primary font-mono transition-all duration-200 resize-y min-h-[100px] focus:outline-none focus:border-accent focus:shadow-[0_0_0_1px_#8ab4f8] focus:bg-surface"
-              placeholder="One problem per line (e.g., LeetCode 704: Binary Search)..."
-            />
-          </div>
+            <div className="mb-6">
+              <label className="block font-medium text-text-secondary mb-2 text-sm">Test Cases</label>
+              <TestCaseEditor
+                testCases={formData.testCases}
+                language={formData.implementations[0].language}
+                onChange={(testCases) => setFormData(prev => ({ ...prev, testCases }))}
+              />
+            </div>
 
-          <div className="flex justify-end gap-4 mt-8 pt-6 border-t border-border">
-            <button
-              type="button"
-              onClick={onClose}
-              className="px-6 py-3 border-none rounded text-sm font-medium cursor-pointer transition-all duration-200 bg-[#5f6368] text-text-primary hover:bg-[#70757a] disabled:opacity-60 disabled:cursor-not-allowed"
-              disabled={loading}
-            >
-              Cancel
-            </button>
-            <button
-              type="submit"
-              className="px-6 py-3 border-none rounded text-sm font-medium cursor-pointer transition-all duration-200 bg-accent text-background hover:bg-accent-hover disabled:opacity-60 disabled:cursor-not-allowed"
-              disabled={loading || !isAuthenticated}
-            >
-              {loading ? 'Saving...' : isEditing ? 'Update Card' : 'Create Card'}
-            </button>
-          </div>
-        </form>
+            <div className="flex justify-end gap-4 mt-8 pt-6 border-t border-border">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-6 py-3 border-none rounded text-sm font-medium cursor-pointer transition-all duration-200 bg-[#5f6368] text-text-primary hover:bg-[#70757a] disabled:opacity-60 disabled:cursor-not-allowed"
+                disabled={loading}
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="px-6 py-3 border-none rounded text-sm font-medium cursor-pointer transition-all duration-200 bg-accent text-background hover:bg-accent-hover disabled:opacity-60 disabled:cursor-not-allowed"
+                disabled={loading || !isAuthenticated}
+              >
+                {loading ? 'Saving...' : isEditing ? 'Update Card' : 'Create Card'}
+              </button>
+            </div>
+          </form>
+        )}
       </div>
 
       {showAuthModal && (
@@ -1,12 +1,17 @@
 import { Card } from './Card';
-import type { Card as CardType } from '../types/card';
+import type { Card as CardType, CardLanguage } from '../types/card';
+import type { CardSyncStatus } from '../services/cardOutbox';
+import type { TestSummaries } from '../services/testSummaries';
 
 interface CardGridProps {
   cards: CardType[];
+  syncStatuses?: Record<string, CardSyncStatus>;
+  testSummaries?: TestSummaries;
+  preferredLanguage?: CardLanguage;
   onCardClick?: (card: CardType) => void;
 }
 
-export function CardGrid({ cards, onCardClick }: CardGridProps) {
+export function CardGrid({ cards, syncStatuses, testSummaries, preferredLanguage, onCardClick }: CardGridProps) {
   if (cards.length === 0) {
     return (
       <div className="text-center py-8 text-[#6a6a6a] text-sm">
@@ -18,7 +23,14 @@ export function CardGrid({ cards, onCardClick }: CardGridProps) {
   return (
     <div className="grid grid-cols-1 md:grid-cols-[repeat(auto-fill,minmax(250px,1fr))] lg:grid-cols-[repeat(auto-fill,minmax(280px,1fr))] gap-3 md:gap-3 py-2">
       {cards.map(card => (
-        <Card key={card.id} card={card} onCardClick={onCardClick} />
+        <Card
+          key={card.id}
+          card={card}
+          syncStatus={syncStatuses?.[card.id]}
+          testSummary={testSummaries?.[card.id]}
+          preferredLanguage={preferredLanguage}
+          onCardClick={onCardClick}
+        />
       ))}
     </div>
   );
@@ -0,0 +1,213 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { Card, CardRevision } from '../types/card';
+import { getCardRevisions, updateCard } from '../services/cardService';
+import { CARD_FIELD_LABELS, MULTILINE_FIELDS, formatFieldValue, getChangedFields } from '../utils/cardFields';
+import { diffLines } from '../utils/diff';
+
+interface CardHistoryProps {
+  card: Card;
+  canRestore: boolean;
+  onRestored?: () => void;
+}
+
+const REVISION_KIND_LABELS: Record<CardRevision['kind'], string> = {
+  create: 'Created',
+  update: 'Edited',
+  baseline: 'Earlier version',
+} as const;
+
+function formatRevision(revision: CardRevision): string {
+  const date = new Date(revision.createdAt).toLocaleString();
+  return `${date} · ${revision.authorName || 'Unknown'}`;
+}
+
+export function CardHistory({ card, canRestore, onRestored }: CardHistoryProps) {
+  const [revisions, setRevisions] = useState<CardRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [fromId, setFromId] = useState<string>('');
+  const [toId, setToId] = useState<string>('');
+  const [confirmRestoreId, setConfirmRestoreId] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+
+    async function loadRevisions() {
+      try {
+        setLoading(true);
+        setError(null);
+        const fetched = await getCardRevisions(card.id);
+        if (mounted) {
+          setRevisions(fetched);
+          setToId(fetched[0]?.id ?? '');
+          setFromId(fetched[1]?.id ?? '');
+        }
+      } catch (err) {
+        if (mounted) {
+          setError(err instanceof Error ? err.message : 'Failed to load history');
+        }
+      } finally {
+        if (mounted) {
+          setLoading(false);
+        }
+      }
+    }
+
+    loadRevisions();
+    return () => {
+      mounted = false;
+    };
+  }, [card]);
+
+  const from = revisions.find(r => r.id === fromId);
+  const to = revisions.find(r => r.id === toId);
+
+  const changedFields = useMemo(() => {
+    if (!to) return [];
+    return getChangedFields(from?.snapshot ?? {}, to.snapshot);
+  }, [from, to]);
+
+  const handleRestore = async (revision: CardRevision) => {
+    if (confirmRestoreId !== revision.id) {
+      setConfirmRestoreId(revision.id);
+      return;
+    }
+
+    setRestoringId(revision.id);
+    setError(null);
+    try {
+      await updateCard(card.id, revision.snapshot);
+      onRestored?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore revision');
+    } finally {
+      setRestoringId(null);
+      setConfirmRestoreId(null);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-text-secondary text-sm">Loading history...</p>;
+  }
+
+  return (
+    <div className="flex flex-col gap-6">
+      {error && (
+        <div className="bg-[#5c2b29] text-[#f28b82] px-4 py-3 rounded text-sm">
+          {error}
+        </div>
+      )}
+
+      {revisions.length === 0 ? (
+        <p className="text-[#6a6a6a] italic text-left">
+          No revisions recorded yet. Changes saved from now on will appear here.
+        </p>
+      ) : (
+        <>
+          <ul className="list-none p-0 m-0 text-left">
+            {revisions.map(revision => (
+              <li key={revision.id} className="py-3 border-b border-border last:border-b-0 flex items-start gap-3">
+                <div className="flex-1">
+                  <div className="text-text-primary text-sm font-medium">
+                    {REVISION_KIND_LABELS[revision.kind]}
+                  </div>
+                  <div className="text-text-tertiary text-xs">{formatRevision(revision)}</div>
+                  {revision.changedFields.length > 0 && revision.kind === 'update' && (
+                    <div className="text-text-secondary text-xs mt-1">
+                      Changed: {revision.changedFields
+                        .map(field => CARD_FIELD_LABELS[field as keyof typeof CARD_FIELD_LABELS] ?? field)
+                        .join(', ')}
+                    </div>
+                  )}
+                </div>
+                {canRestore && revision.id !== revisions[0].id && (
+                  <button
+                    className="px-3 py-1 border-none rounded text-xs font-medium cursor-pointer transition-all duration-200 bg-accent text-background hover:bg-accent-hover disabled:opacity-60 disabled:cursor-not-allowed"
+                    onClick={() => handleRestore(revision)}
+                    disabled={restoringId !== null}
+                  >
+                    {confirmRestoreId === revision.id
+                      ? (restoringId === revision.id ? 'Restoring...' : 'Confirm Restore')
+                      : 'Restore'}
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex flex-col gap-4">
+            <div className="flex gap-3 flex-wrap items-center text-xs text-[#b5b5b5]">
+              <label className="flex items-center gap-1.5">
+                Compare
+                <select
+                  value={fromId}
+                  onChange={(e) => setFromId(e.target.value)}
+                  className="px-1.5 py-1.5 border border-dark-border bg-dark-surface rounded text-xs cursor-pointer text-[#b5b5b5] focus:outline-none focus:border-[#5a5a5a]"
+                >
+                  <option value="">(empty)</option>
+                  {revisions.map(revision => (
+                    <option key={revision.id} value={revision.id}>{formatRevision(revision)}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-1.5">
+                with
+                <select
+                  value={toId}
+                  onChange={(e) => setToId(e.target.value)}
+                  className="px-1.5 py-1.5 border border-dark-border bg-dark-surface rounded text-xs cursor-pointer text-[#b5b5b5] focus:outline-none focus:border-[#5a5a5a]"
+                >
+                  {revisions.map(revision => (
+                    <option key={revision.id} value={revision.id}>{formatRevision(revision)}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            {to && changedFields.length === 0 && (
+              <p className="text-[#6a6a6a] italic text-left text-sm">These revisions are identical.</p>
+            )}
+
+            {to && changedFields.map(field => {
+              const before = from ? formatFieldValue(from.snapshot, field) : '';
+              const after = formatFieldValue(to.snapshot, field);
+              const multiline = MULTILINE_FIELDS.includes(field) || before.includes('\n') || after.includes('\n');
+
+              return (
+                <div key={field} className="text-left">
+                  <h3 className="m-0 mb-2 text-sm font-medium text-text-primary">{CARD_FIELD_LABELS[field]}</h3>
+                  {multiline ? (
+                    <pre className="m-0 bg-code-bg rounded p-3 text-xs font-mono overflow-x-auto">
+                      {diffLines(before, after).map((line, idx) => (
+                        <div
+                          key={idx}
+                          className={
+                            line.type === 'added'
+                              ? 'bg-[#1e3a2a] text-[#81c995]'
+                              : line.type === 'removed'
+                                ? 'bg-[#3d1f1f] text-[#f28b82]'
+                                : 'text-code-text'
+                          }
+                        >
+                          {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                          {line.text}
+                        </div>
+                      ))}
+                    </pre>
+                  ) : (
+                    <div className="text-sm flex flex-wrap gap-2 items-center">
+                      <span className="px-2 py-0.5 rounded bg-[#3d1f1f] text-[#f28b82] line-through">{before || '(empty)'}</span>
+                      <span className="text-text-tertiary">→</span>
+                      <span className="px-2 py-0.5 rounded bg-[#1e3a2a] text-[#81c995]">{after || '(empty)'}</span>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
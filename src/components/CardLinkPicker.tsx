@@ -0,0 +1,155 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { Card, CardLink, CardLinkType } from '../types/card';
+import { getAllCards } from '../services/cardService';
+import { LINK_TYPES, formatLinkType } from '../utils/cardLinks';
+
+interface CardLinkPickerProps {
+  cardId?: string; // Card being edited, which cannot link to itself
+  links: CardLink[];
+  onChange: (links: CardLink[]) => void;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+/**
+ * Editor for a card's links: pick a link type, search for the other card by title, and add it
+ */
+export function CardLinkPicker({ cardId, links, onChange }: CardLinkPickerProps) {
+  const [allCards, setAllCards] = useState<Card[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [newType, setNewType] = useState<CardLinkType>('related');
+
+  useEffect(() => {
+    let mounted = true;
+
+    getAllCards()
+      .then(cards => {
+        if (mounted) setAllCards(cards);
+      })
+      .catch(err => {
+        if (mounted) setError(err instanceof Error ? err.message : 'Failed to load cards');
+      })
+      .finally(() => {
+        if (mounted) setLoading(false);
+      });
+
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  const cardsById = useMemo(() => new Map(allCards.map(card => [card.id, card])), [allCards]);
+
+  const term = search.trim().toLowerCase();
+  const suggestions = term
+    ? allCards
+      .filter(card =>
+        card.id !== cardId &&
+        !links.some(link => link.targetId === card.id) &&
+        card.title.toLowerCase().includes(term)
+      )
+      .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const addLink = (target: Card) => {
+    onChange([...links, { type: newType, targetId: target.id }]);
+    setSearch('');
+  };
+
+  const updateLinkType = (index: number, type: CardLinkType) => {
+    onChange(links.map((link, i) => (i === index ? { ...link, type } : link)));
+  };
+
+  const removeLink = (index: number) => {
+    onChange(links.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div>
+      {links.length > 0 && (
+        <div className="flex flex-col gap-2 mb-3">
+          {links.map((link, index) => (
+            <div key={`${link.targetId}-${index}`} className="flex gap-2.5 items-center">
+              <select
+                value={link.type}
+                onChange={(e) => updateLinkType(index, e.target.value as CardLinkType)}
+                className="px-3 py-2 border border-border rounded text-sm bg-background text-text-primary font-mono cursor-pointer focus:outline-none focus:border-accent"
+              >
+                {LINK_TYPES.map(type => (
+                  <option key={type} value={type}>
+                    {formatLinkType(type)}
+                  </option>
+                ))}
+              </select>
+              <span className="flex-1 text-sm text-text-primary">
+                {cardsById.get(link.targetId)?.title ?? (
+                  <span className="text-text-tertiary italic">{loading ? 'Loading...' : 'Deleted card'}</span>
+                )}
+              </span>
+              <button
+                type="button"
+                onClick={() => removeLink(index)}
+                className="px-3 py-2 bg-[#ef4444] text-white border-none rounded cursor-pointer"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2.5">
+        <select
+          value={newType}
+          onChange={(e) => setNewType(e.target.value as CardLinkType)}
+          className="px-3 py-2 border border-border rounded text-sm bg-background text-text-primary font-mono cursor-pointer focus:outline-none focus:border-accent"
+          aria-label="Link type"
+        >
+          {LINK_TYPES.map(type => (
+            <option key={type} value={type}>
+              {formatLinkType(type)}
+            </option>
+          ))}
+        </select>
+        <div className="relative flex-1">
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                if (suggestions.length > 0) addLink(suggestions[0]);
+              }
+            }}
+            disabled={loading || !!error}
+            className="w-full px-3 py-2 border border-border rounded text-sm bg-background text-text-primary font-mono transition-all duration-200 focus:outline-none focus:border-accent focus:shadow-[0_0_0_1px_#8ab4f8] focus:bg-surface disabled:opacity-60"
+            placeholder={loading ? 'Loading cards...' : 'Search cards by title (e.g., Heap)'}
+          />
+          {term && (
+            <ul className="absolute z-10 left-0 right-0 mt-1 list-none p-0 m-0 bg-surface border border-border rounded shadow-lg max-h-64 overflow-auto">
+              {suggestions.length === 0 ? (
+                <li className="px-3 py-2 text-sm text-text-tertiary italic">No matching cards</li>
+              ) : (
+                suggestions.map(card => (
+                  <li key={card.id}>
+                    <button
+                      type="button"
+                      onClick={() => addLink(card)}
+                      className="w-full text-left px-3 py-2 bg-transparent border-none text-sm text-text-primary cursor-pointer hover:bg-[#3c4043]"
+                    >
+                      {card.title}
+                    </button>
+                  </li>
+                ))
+              )}
+            </ul>
+          )}
+        </div>
+      </div>
+      {error && <p className="m-0 mt-1 text-xs text-[#f28b82]">{error}</p>}
+    </div>
+  );
+}
@@ -1,91 +1,262 @@
-import { useState } from 'react';
-import Editor from '@monaco-editor/react';
+import { useEffect, useRef, useState } from 'react';
+import Editor, { type Monaco, type OnMount } from '@monaco-editor/react';
+import type { CardLanguage, InputSet, TestCase } from '../types/card';
+import type { CompilerDiagnostic } from '../types/executor';
+import { executeCode, runsInBrowser, type ExecutionResult, type QueuedRun } from '../services/codeExecutor';
+import { ExecutorError } from '../services/executorErrors';
+import { useExecutorHealth } from '../hooks/useExecutorHealth';
+import { useCountdown } from '../hooks/useCountdown';
+import { runTestCases, summarizeResults, type TestResult, type TestSummary } from '../services/testRunner';
+import { TestResultsTable } from './TestResultsTable';
+import { ProgramInputPanel } from './ProgramInputPanel';
+import { ExecutionOutput } from './ExecutionOutput';
 import { getMonacoLanguage } from '../utils/monacoLanguage';
+import { formatArgs, parseArgs } from '../utils/inputSets';
+
+type MonacoEditor = Parameters<OnMount>[0];
+
+const MARKER_OWNER = 'toolbox-executor';
+
+/**
+ * Show compiler diagnostics as squiggles in the editor, replacing the last run's
+ */
+function showDiagnostics(editor: MonacoEditor, monaco: Monaco, diagnostics: CompilerDiagnostic[]) {
+  const model = editor.getModel();
+  if (!model) return;
+  const severities = {
+    error: monaco.MarkerSeverity.Error,
+    warning: monaco.MarkerSeverity.Warning,
+    info: monaco.MarkerSeverity.Info,
+  } as const;
+  const lineCount = model.getLineCount();
+  const markers = diagnostics.map(diagnostic => {
+    const line = Math.min(Math.max(diagnostic.line, 1), lineCount);
+    const lineEnd = model.getLineMaxColumn(line);
+    // Underline the word at the column, or the whole line when only the line is known
+    const start = diagnostic.column ? Math.min(diagnostic.column, lineEnd) : model.getLineFirstNonWhitespaceColumn(line) || 1;
+    const word = diagnostic.column ? model.getWordAtPosition({ lineNumber: line, column: start }) : null;
+    return {
+      startLineNumber: line,
+      startColumn: start,
+      endLineNumber: line,
+      endColumn: diagnostic.column ? (word?.endColumn ?? Math.min(start + 1, lineEnd)) : lineEnd,
+      severity: severities[diagnostic.severity],
+      message: diagnostic.message,
+      code: diagnostic.code,
+      source: 'compiler',
+    };
+  });
+  monaco.editor.setModelMarkers(model, MARKER_OWNER, markers);
+}
 
 interface CodeEditorProps {
   initialCode: string;
-  language: string;
+  language: CardLanguage;
+  testCases?: TestCase[]; // Enables "Run tests"
+  inputSets?: InputSet[]; // Saved inputs to run the code with; the first is loaded to start
+  onSaveInputSets?: (inputSets: InputSet[]) => Promise<void>; // Enables saving input sets
+  onChange?: (code: string) => void; // Called with the code after every edit
+  onTestsRun?: (summary: TestSummary) => void; // Called when a test run finishes
 }
 
-const EXECUTOR_URL = 'https://executor.charles-bai.com/execute';
-
-export function CodeEditor({ initialCode, language }: CodeEditorProps) {
+export function CodeEditor({
+  initialCode,
+  language,
+  testCases,
+  inputSets = [],
+  onSaveInputSets,
+  onChange,
+  onTestsRun,
+}: CodeEditorProps) {
   const [code, setCode] = useState(initialCode);
-  const [output, setOutput] = useState('');
+  const [inputName, setInputName] = useState<string | null>(inputSets[0]?.name ?? null);
+  const [stdin, setStdin] = useState(inputSets[0]?.stdin ?? '');
+  const [argsText, setArgsText] = useState(formatArgs(inputSets[0]?.args));
+  const [result, setResult] = useState<ExecutionResult | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [runCount, setRunCount] = useState(0);
   const [loading, setLoading] = useState(false);
+  const [queued, setQueued] = useState<QueuedRun | null>(null);
+  const secondsLeft = useCountdown(queued?.retryAt ?? null);
+  const editorRef = useRef<{ editor: MonacoEditor; monaco: Monaco } | null>(null);
+  const runController = useRef<AbortController | null>(null);
+  const [testResults, setTestResults] = useState<TestResult[] | null>(null);
+  const [testing, setTesting] = useState(false);
+  const hasTests = !!testCases && testCases.length > 0;
+  const { health, url: executorUrl, recheck } = useExecutorHealth();
+  const inBrowser = runsInBrowser(language);
+
+  // A run or test run still going when the editor closes is cancelled
+  useEffect(() => () => runController.current?.abort(), []);
 
   const handleRun = async () => {
+    if (runController.current) return;
+    const controller = new AbortController();
+    runController.current = controller;
     setLoading(true);
-    setOutput('Running...');
+    setMessage('Running...');
+    if (editorRef.current) showDiagnostics(editorRef.current.editor, editorRef.current.monaco, []);
 
     try {
-      const res = await fetch(EXECUTOR_URL, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ code, language }),
+      const next = await executeCode(code, language, stdin, parseArgs(argsText), {
+        signal: controller.signal,
+        onQueued: setQueued,
       });
+      setResult(next);
+      setMessage(null);
+      if (editorRef.current) showDiagnostics(editorRef.current.editor, editorRef.current.monaco, next.diagnostics);
+    } catch (err) {
+      setResult(null);
+      setMessage(err instanceof Error ? err.message : 'Network Error: Could not reach execution engine.');
+      if (err instanceof ExecutorError && err.kind === 'network') recheck();
+    } finally {
+      runController.current = null;
+      setQueued(null);
+      setRunCount(count => count + 1);
+      setLoading(false);
+    }
+  };
 
-      const data = await res.json();
+  const handleSelectInput = (inputSet: InputSet | null) => {
+    setInputName(inputSet?.name ?? null);
+    if (inputSet) {
+      setStdin(inputSet.stdin);
+      setArgsText(formatArgs(inputSet.args));
+    }
+  };
+
+  const handleRunTests = async () => {
+    if (!testCases || runController.current) return;
+    const controller = new AbortController();
+    runController.current = controller;
+    setTesting(true);
+    setTestResults([]);
 
-      if (res.status === 429) {
-        setOutput('Error: You are clicking too fast! (Rate Limit)');
-      } else if (res.status === 503) {
-        setOutput('Error: Server is busy processing other jobs. Try again in 5s.');
-      } else if (data.error) {
-        setOutput(`Error: ${data.error}`);
-      } else {
-        setOutput(data.stdout || data.stderr || 'No output returned.');
-      }
+    try {
+      const results = await runTestCases(
+        code,
+        language,
+        testCases,
+        result => setTestResults(prev => [...(prev ?? []), result]),
+        { signal: controller.signal, onQueued: setQueued }
+      );
+      onTestsRun?.(summarizeResults(results));
     } catch (err) {
-      console.error('Code execution error:', err);
-      setOutput('Network Error: Could not reach execution engine.');
+      // A cancelled run keeps the results of the tests that finished
+      if (!(err instanceof ExecutorError && err.kind === 'cancelled')) console.error('Error running tests:', err);
     } finally {
-      setLoading(false);
+      runController.current = null;
+      setQueued(null);
+      setTesting(false);
     }
   };
 
   return (
-    <div className="flex flex-col h-[500px] border border-[#374151] rounded-md bg-code-bg overflow-hidden">
-      {/* Toolbar */}
-      <div className="flex justify-between items-center px-4 py-2 bg-[#252526] border-b border-[#374151]">
-        <span className="text-[#9ca3af] text-xs font-mono uppercase tracking-[0.05em]">
-          {language}
-        </span>
-        <button 
-          onClick={handleRun} 
-          disabled={loading}
-          className="px-4 py-1.5 rounded text-sm font-medium border-none cursor-pointer transition-colors duration-200 bg-[#15803d] text-white hover:bg-[#16a34a] disabled:bg-[#4b5563] disabled:cursor-not-allowed disabled:opacity-50"
-        >
-          {loading ? 'Executing...' : 'Run Code'}
-        </button>
-      </div>
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-col h-[540px] border border-[#374151] rounded-md bg-code-bg overflow-hidden">
+        {/* Toolbar */}
+        <div className="flex justify-between items-center px-4 py-2 bg-[#252526] border-b border-[#374151]">
+          <span className="flex items-center gap-2 text-[#9ca3af] text-xs font-mono uppercase tracking-[0.05em]">
+            <span
+              className={`inline-block w-2 h-2 rounded-full ${
+                inBrowser || health?.status === 'online'
+                  ? 'bg-[#22c55e]'
+                  : health?.status === 'offline'
+                    ? 'bg-[#ef4444]'
+                    : 'bg-[#6b7280]'
+              }`}
+              title={
+                inBrowser
+                  ? 'Runs in your browser'
+                  : `Executor ${executorUrl}: ${
+                      !health
+                        ? 'checking...'
+                        : health.status === 'unknown'
+                          ? 'status unknown (no health endpoint)'
+                          : `${health.status}${health.latencyMs !== undefined ? ` (${health.latencyMs} ms)` : ''}`
+                    }`
+              }
+            />
+            {language}
+          </span>
+          <div className="flex gap-2">
+            {hasTests && (
+              <button
+                onClick={handleRunTests}
+                disabled={testing || loading}
+                className="px-4 py-1.5 rounded text-sm font-medium border border-[#15803d] cursor-pointer transition-colors duration-200 bg-transparent text-[#4ade80] hover:bg-[#15803d] hover:text-white disabled:border-[#4b5563] disabled:text-[#9ca3af] disabled:bg-transparent disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                {testing && queued ? `Queued (${secondsLeft}s)` : testing ? 'Testing...' : `Run tests (${testCases.length})`}
+              </button>
+            )}
+            {(loading || testing) && (
+              <button
+                onClick={() => runController.current?.abort()}
+                className="px-4 py-1.5 rounded text-sm font-medium border border-[#4b5563] cursor-pointer transition-colors duration-200 bg-transparent text-[#d1d5db] hover:border-[#ef4444] hover:text-[#f87171]"
+              >
+                Cancel
+              </button>
+            )}
+            <button 
+              onClick={handleRun} 
+              disabled={loading || testing}
+              className="px-4 py-1.5 rounded text-sm font-medium border-none cursor-pointer transition-colors duration-200 bg-[#15803d] text-white hover:bg-[#16a34a] disabled:bg-[#4b5563] disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {loading && queued ? `Queued (${secondsLeft}s)` : loading ? 'Executing...' : 'Run Code'}
+            </button>
+          </div>
+        </div>
 
-      {/* Editor */}
-      <div className="flex-1">
-        <Editor 
-          height="100%" 
-          defaultLanguage={getMonacoLanguage(language)} 
-          value={code} 
-          theme="vs-dark"
-          onChange={(val) => setCode(val || '')}
-          options={{
-            minimap: { enabled: false },
-            fontSize: 14,
-            scrollBeyondLastLine: false,
-            automaticLayout: true,
-          }}
-        />
-      </div>
+        {/* Editor */}
+        <div className="flex-1">
+          <Editor 
+            height="100%" 
+            defaultLanguage={getMonacoLanguage(language)} 
+            value={code} 
+            theme="vs-dark"
+            onMount={(editor, monaco) => {
+              editorRef.current = { editor, monaco };
+            }}
+            onChange={(val) => {
+              setCode(val || '');
+              onChange?.(val || '');
+            }}
+            options={{
+              minimap: { enabled: false },
+              fontSize: 14,
+              scrollBeyondLastLine: false,
+              automaticLayout: true,
+            }}
+          />
+        </div>
 
-      {/* Console Output */}
-      <div className="h-32 bg-black border-t border-[#374151] flex flex-col">
-        <div className="px-4 py-1 bg-[#1e1e1e] text-xs text-[#6b7280] font-mono border-b border-[#1f2937]">
-          TERMINAL
+        {/* Program Input and Console Output */}
+        <div className="h-40 bg-black border-t border-[#374151] flex">
+          <ProgramInputPanel
+            inputSets={inputSets}
+            selectedName={inputName}
+            stdin={stdin}
+            argsText={argsText}
+            onSelect={handleSelectInput}
+            onStdinChange={setStdin}
+            onArgsChange={setArgsText}
+            onSaveInputSets={onSaveInputSets}
+          />
+          {/* Remounted per run so the most relevant tab is picked again */}
+          <ExecutionOutput
+            key={runCount}
+            result={result}
+            message={queued
+              ? `${queued.reason.kind === 'busy' ? 'The executor is busy' : 'The executor is rate limiting runs'}; ` +
+                `retrying in ${secondsLeft}s (retry ${queued.retry} of ${queued.maxRetries})...`
+              : message}
+          />
         </div>
-        <pre className="flex-1 px-4 py-4 text-[#d1d5db] font-mono text-sm overflow-auto whitespace-pre-wrap">
-          {output || <span className="text-[#4b5563] italic">Output will appear here...</span>}
-        </pre>
       </div>
+
+      {hasTests && testResults && (
+        <TestResultsTable testCases={testCases} results={testResults} running={testing} />
+      )}
     </div>
   );
 }
\ No newline at end of file
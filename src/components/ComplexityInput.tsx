@@ -0,0 +1,45 @@
+import { normalizeComplexity } from '../utils/complexity';
+
+interface ComplexityInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  className?: string;
+}
+
+/**
+ * Text input for a Big-O complexity that shows, as you type, how it will be saved or why it cannot be read
+ */
+export function ComplexityInput({ value, onChange, placeholder, className = '' }: ComplexityInputProps) {
+  let normalized = '';
+  let problem: string | null = null;
+  try {
+    normalized = normalizeComplexity(value);
+  } catch (err) {
+    problem = err instanceof Error ? err.message : 'Could not read this complexity';
+  }
+
+  return (
+    <div className={className}>
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        aria-invalid={!!problem}
+        className={`w-full px-3 py-3 border rounded text-sm bg-background text-text-primary font-mono transition-all duration-200 focus:outline-none focus:shadow-[0_0_0_1px_#8ab4f8] focus:bg-surface ${
+          problem ? 'border-error focus:border-error' : 'border-border focus:border-accent'
+        }`}
+        placeholder={placeholder}
+      />
+      {problem ? (
+        <p className="m-0 mt-1 text-xs text-[#f28b82]">{problem}</p>
+      ) : (
+        normalized && normalized !== value.trim() && (
+          <p className="m-0 mt-1 text-xs text-text-tertiary">
+            Saved as <code className="font-mono">{normalized}</code>
+          </p>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import type { ConnectionStatus } from '../services/cardRepository';
+
+interface ConnectionIndicatorProps {
+  status: ConnectionStatus;
+}
+
+const CONNECTION_STATUS_STYLES: Record<ConnectionStatus, { label: string; dot: string; title: string }> = {
+  live: {
+    label: 'Live',
+    dot: 'bg-[#81c995]',
+    title: 'Changes from other sessions appear as they happen',
+  },
+  reconnecting: {
+    label: 'Reconnecting',
+    dot: 'bg-[#fdd663] animate-pulse',
+    title: 'Waiting for the live connection; cards will catch up once it is back',
+  },
+  offline: {
+    label: 'Offline',
+    dot: 'bg-[#f28b82]',
+    title: 'You are offline; changes are saved locally and synced when you reconnect',
+  },
+} as const;
+
+export function ConnectionIndicator({ status }: ConnectionIndicatorProps) {
+  const { label, dot, title } = CONNECTION_STATUS_STYLES[status];
+
+  return (
+    <span className="flex items-center gap-1.5 text-xs text-text-tertiary whitespace-nowrap" title={title}>
+      <span className={`w-2 h-2 rounded-full ${dot}`} />
+      {label}
+    </span>
+  );
+}
@@ -0,0 +1,216 @@
+import { useEffect, useMemo, useState } from 'react';
+import { deleteInvalidCard, getInvalidCards, repairCard } from '../services/cardService';
+import { snapshotOf, type DatabaseCardInput } from '../services/cardMapper';
+import { validateCardColumns, type InvalidCardRow } from '../services/cardValidation';
+
+interface DataProblemsModalProps {
+  onClose: () => void;
+  onFixed?: () => void;
+}
+
+interface RowEditorProps {
+  invalid: InvalidCardRow;
+  saving: boolean;
+  onSave: (columns: DatabaseCardInput) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Raw JSON editor for a broken row's columns, re-validated as you type
+ */
+function RowEditor({ invalid, saving, onSave, onCancel }: RowEditorProps) {
+  const [json, setJson] = useState(() => JSON.stringify(snapshotOf(invalid.row), null, 2));
+
+  const parsed = useMemo(() => {
+    try {
+      const value: unknown = JSON.parse(json);
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return { error: 'The columns must be a JSON object' };
+      }
+      return { columns: value as DatabaseCardInput, issues: validateCardColumns(value) };
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : 'Invalid JSON' };
+    }
+  }, [json]);
+
+  const canSave = !saving && !parsed.error && parsed.issues?.length === 0;
+
+  return (
+    <div className="flex flex-col gap-3 mt-3">
+      <textarea
+        value={json}
+        onChange={(e) => setJson(e.target.value)}
+        rows={16}
+        spellCheck={false}
+        className="w-full px-3 py-3 border border-border rounded text-xs bg-background text-text-primary font-mono resize-y focus:outline-none focus:border-accent"
+      />
+
+      {parsed.error ? (
+        <div className="text-[#f28b82] text-xs">{parsed.error}</div>
+      ) : parsed.issues && parsed.issues.length > 0 ? (
+        <ul className="m-0 pl-5 text-[#f28b82] text-xs">
+          {parsed.issues.map(issue => (
+            <li key={issue.column}><code>{issue.column}</code> {issue.message}</li>
+          ))}
+        </ul>
+      ) : (
+        <div className="text-[#81c995] text-xs">Looks good.</div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button
+          className="px-3 py-1 border-none rounded text-xs font-medium cursor-pointer transition-all duration-200 bg-[#5f6368] text-text-primary hover:bg-[#70757a] disabled:opacity-60 disabled:cursor-not-allowed"
+          onClick={onCancel}
+          disabled={saving}
+        >
+          Cancel
+        </button>
+        <button
+          className="px-3 py-1 border-none rounded text-xs font-medium cursor-pointer transition-all duration-200 bg-accent text-background hover:bg-accent-hover disabled:opacity-60 disabled:cursor-not-allowed"
+          onClick={() => parsed.columns && onSave(parsed.columns)}
+          disabled={!canSave}
+        >
+          {saving ? 'Saving...' : 'Save Fix'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export function DataProblemsModal({ onClose, onFixed }: DataProblemsModalProps) {
+  const [rows, setRows] = useState<InvalidCardRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [confirmPurgeId, setConfirmPurgeId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+
+    getInvalidCards()
+      .then(invalid => {
+        if (mounted) setRows(invalid);
+      })
+      .catch(err => {
+        if (mounted) setError(err instanceof Error ? err.message : 'Failed to check cards');
+      })
+      .finally(() => {
+        if (mounted) setLoading(false);
+      });
+
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  const handleSave = async (id: string, columns: DatabaseCardInput) => {
+    setBusyId(id);
+    setError(null);
+    try {
+      await repairCard(id, columns);
+      setRows(prev => prev.filter(invalid => invalid.row.id !== id));
+      setEditingId(null);
+      onFixed?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fix card');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = async (id: string) => {
+    if (confirmPurgeId !== id) {
+      setConfirmPurgeId(id);
+      return;
+    }
+
+    setBusyId(id);
+    setError(null);
+    try {
+      await deleteInvalidCard(id);
+      setRows(prev => prev.filter(invalid => invalid.row.id !== id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete card');
+    } finally {
+      setBusyId(null);
+      setConfirmPurgeId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-[1000] flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-surface border-none rounded-lg w-full max-w-[800px] max-h-[90vh] flex flex-col shadow-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center px-8 py-6 border-b border-border">
+          <h2 className="m-0 text-2xl font-normal text-text-primary">Data Problems</h2>
+          <button className="bg-transparent border-none text-text-tertiary text-[2rem] cursor-pointer leading-none p-0 w-8 h-8 flex items-center justify-center transition-colors duration-200 hover:text-text-primary" onClick={onClose}>×</button>
+        </div>
+
+        <div className="p-8 overflow-y-auto flex-1">
+          <p className="m-0 mb-6 text-text-tertiary text-sm">
+            These stored cards have values the app cannot display, so they are hidden from the grid until they are fixed.
+          </p>
+
+          {error && (
+            <div className="bg-[#5c2b29] text-[#f28b82] px-4 py-3 rounded mb-6 text-sm">
+              {error}
+            </div>
+          )}
+
+          {loading ? (
+            <p className="text-text-secondary text-sm">Checking cards...</p>
+          ) : rows.length === 0 ? (
+            <p className="text-[#6a6a6a] italic text-left">No problems found. Every card is valid.</p>
+          ) : (
+            <ul className="list-none p-0 m-0">
+              {rows.map(({ row, issues }) => (
+                <li key={row.id} className="py-3 border-b border-border last:border-b-0">
+                  <div className="flex items-start gap-3">
+                    <div className="flex-1 min-w-0">
+                      <div className="text-text-primary text-sm font-medium truncate">
+                        {typeof row.title === 'string' && row.title.trim() ? row.title : '(untitled)'}
+                      </div>
+                      <div className="text-text-tertiary text-xs">
+                        {row.id}{row.deleted_at ? ' · in trash' : ''}
+                      </div>
+                      <ul className="m-0 mt-1 pl-5 text-[#f28b82] text-xs">
+                        {issues.map(issue => (
+                          <li key={issue.column}><code>{issue.column}</code> {issue.message}</li>
+                        ))}
+                      </ul>
+                    </div>
+                    {editingId !== row.id && (
+                      <button
+                        className="px-3 py-1 border-none rounded text-xs font-medium cursor-pointer transition-all duration-200 bg-accent text-background hover:bg-accent-hover disabled:opacity-60 disabled:cursor-not-allowed"
+                        onClick={() => setEditingId(row.id)}
+                        disabled={busyId !== null}
+                      >
+                        Fix
+                      </button>
+                    )}
+                    <button
+                      className="px-3 py-1 border-none rounded text-xs font-medium cursor-pointer transition-all duration-200 bg-error text-text-primary hover:bg-error-hover disabled:opacity-60 disabled:cursor-not-allowed"
+                      onClick={() => handlePurge(row.id)}
+                      disabled={busyId !== null}
+                    >
+                      {confirmPurgeId === row.id ? 'Confirm Delete Forever' : 'Delete Forever'}
+                    </button>
+                  </div>
+
+                  {editingId === row.id && (
+                    <RowEditor
+                      invalid={{ row, issues }}
+                      saving={busyId === row.id}
+                      onSave={(columns) => handleSave(row.id, columns)}
+                      onCancel={() => setEditingId(null)}
+                    />
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import type { ExecutionResult } from '../services/codeExecutor';
+import type { PhaseResult } from '../types/executor';
+
+interface ExecutionOutputProps {
+  result: ExecutionResult | null;
+  message: string | null; // Shown instead of the result, e.g. while running or when the executor failed
+}
+
+type OutputTab = 'stdout' | 'stderr' | 'compile';
+
+const TAB_LABELS: Record<OutputTab, string> = {
+  stdout: 'stdout',
+  stderr: 'stderr',
+  compile: 'compiler',
+} as const;
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(2)} s`;
+}
+
+function formatMemory(kb: number): string {
+  return kb < 1024 ? `${kb} KB` : `${(kb / 1024).toFixed(1)} MB`;
+}
+
+// How the phase ended, with its colour
+function describeExit(phase: PhaseResult): { text: string; className: string } {
+  if (phase.timedOut) return { text: 'Timed out', className: 'text-[#f87171]' };
+  if (phase.exitCode === 0) return { text: 'Exit 0', className: 'text-[#4ade80]' };
+  if (phase.exitCode === null) {
+    return phase.signal
+      ? { text: `Killed (${phase.signal})`, className: 'text-[#f87171]' }
+      : { text: 'Exit status unknown', className: 'text-[#9ca3af]' };
+  }
+  return { text: `Exit ${phase.exitCode}`, className: 'text-[#f87171]' };
+}
+
+// The tab worth looking at first: compiler errors, then output, then errors
+function initialTab(result: ExecutionResult | null): OutputTab {
+  if (!result) return 'stdout';
+  if (result.compile && !result.run) return 'compile';
+  return result.stdout || !result.stderr ? 'stdout' : 'stderr';
+}
+
+/**
+ * The editor's terminal: a run's stdout, stderr and compiler output in tabs, with how
+ * the program exited, how long it took and how much memory it used
+ */
+export function ExecutionOutput({ result, message }: ExecutionOutputProps) {
+  const [tab, setTab] = useState<OutputTab>(() => initialTab(result));
+
+  const compileFailed = !!result?.compile && !result.run;
+  const tabs: OutputTab[] = result?.compile ? ['stdout', 'stderr', 'compile'] : ['stdout', 'stderr'];
+  const text = !result
+    ? ''
+    : tab === 'compile'
+      ? [result.compile?.stdout, result.compile?.stderr].filter(Boolean).join('\n')
+      : compileFailed
+        ? ''
+        : result[tab];
+  const errorCount = result?.diagnostics.filter(d => d.severity === 'error').length ?? 0;
+  const phase = result?.run ?? result?.compile;
+  const exit = phase && describeExit(phase);
+
+  return (
+    <div className="flex-1 min-w-0 flex flex-col">
+      <div className="flex items-center gap-3 px-4 py-1 bg-[#1e1e1e] text-xs text-[#6b7280] font-mono border-b border-[#1f2937]">
+        <span>TERMINAL</span>
+        {result && (
+          <div className="flex gap-1" role="tablist">
+            {tabs.map(id => (
+              <button
+                key={id}
+                role="tab"
+                aria-selected={tab === id}
+                onClick={() => setTab(id)}
+                className={`px-2 py-0.5 rounded border-0 cursor-pointer font-mono text-[11px] ${
+                  tab === id ? 'bg-[#374151] text-white' : 'bg-transparent text-[#9ca3af] hover:text-white'
+                }`}
+              >
+                {TAB_LABELS[id]}
+                {id === 'stderr' && result.stderr && !compileFailed && <span className="ml-1 text-[#f87171]">•</span>}
+                {id === 'compile' && errorCount > 0 && <span className="ml-1 text-[#f87171]">{errorCount}</span>}
+              </button>
+            ))}
+          </div>
+        )}
+        {phase && exit && (
+          <span className="ml-auto flex gap-3 whitespace-nowrap">
+            <span className={exit.className}>{compileFailed ? `Compilation failed (${exit.text.toLowerCase()})` : exit.text}</span>
+            {phase.wallTimeMs !== undefined && <span title="Wall time">{formatDuration(phase.wallTimeMs)}</span>}
+            {phase.peakMemoryKb !== undefined && <span title="Peak memory">{formatMemory(phase.peakMemoryKb)}</span>}
+          </span>
+        )}
+      </div>
+      <pre className="flex-1 px-4 py-4 text-[#d1d5db] font-mono text-sm overflow-auto whitespace-pre-wrap">
+        {message ?? (text || (
+          <span className="text-[#4b5563] italic">
+            {result ? (compileFailed && tab !== 'compile' ? 'The program did not run.' : `No ${TAB_LABELS[tab]} output.`) : 'Output will appear here...'}
+          </span>
+        ))}
+      </pre>
+    </div>
+  );
+}
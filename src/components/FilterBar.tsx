@@ -1,7 +1,8 @@
 import { useMemo } from 'react';
 import type { CardClassification, CardDifficulty } from '../types/card';
-import type { FilterState, SortOption } from '../hooks/useFilters';
+import type { FilterState, SortOption } from '../types/cardQuery';
 import { CLASSIFICATIONS, DIFFICULTIES, formatClassification } from '../utils/constants';
+import { COMPLEXITY_CLASSES } from '../utils/complexity';
 
 interface FilterBarProps {
   filters: FilterState;
@@ -15,6 +16,7 @@ const SORT_OPTIONS: readonly { value: SortOption; label: string }[] = [
   { value: 'difficulty', label: 'Difficulty' },
   { value: 'date', label: 'Date Added' },
   { value: 'classification', label: 'Classification' },
+  { value: 'complexity', label: 'Time Complexity' },
 ] as const;
 
 export function FilterBar({ filters, allTags, onFiltersChange, onReset }: FilterBarProps) {
@@ -23,6 +25,7 @@ export function FilterBar({ filters, allTags, onFiltersChange, onReset }: Filter
       filters.classifications.length > 0 ||
       filters.difficulties.length > 0 ||
       filters.tags.length > 0 ||
+      filters.maxTimeComplexity !== null ||
       filters.searchQuery.trim() !== ''
     );
   }, [filters]);
@@ -125,6 +128,30 @@ export function FilterBar({ filters, allTags, onFiltersChange, onReset }: Filter
         </div>
       </div>
 
+      <div className="mb-3 last:mb-0">
+        <label className="block font-medium text-text-secondary mb-3 text-xs uppercase tracking-[0.5px]">
+          Time Complexity
+        </label>
+        <div className="flex flex-wrap gap-1.5">
+          {COMPLEXITY_CLASSES.map(complexity => (
+            <button
+              key={complexity}
+              onClick={() => onFiltersChange({
+                maxTimeComplexity: filters.maxTimeComplexity === complexity ? null : complexity,
+              })}
+              title={`Only cards that take at most ${complexity} time`}
+              className={`px-3 py-1.5 border rounded-2xl cursor-pointer text-xs text-text-secondary font-mono transition-all duration-200 hover:bg-[#3c4043] hover:border-accent hover:text-text-primary ${
+                filters.maxTimeComplexity === complexity
+                  ? 'bg-accent text-background border-accent font-medium hover:bg-accent-hover hover:border-accent-hover'
+                  : 'border-border bg-background'
+              }`}
+            >
+              ≤ {complexity}
+            </button>
+          ))}
+        </div>
+      </div>
+
       <div className="mb-3 last:mb-0 flex justify-between items-center flex-wrap gap-3 md:flex-row md:flex-wrap">
         <label className="block font-medium text-text-secondary mb-3 text-xs uppercase tracking-[0.5px] md:mb-0">
           Sort By
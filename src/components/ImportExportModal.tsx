@@ -0,0 +1,296 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { Card } from '../types/card';
+import type { FilterState } from '../types/cardQuery';
+import { createCard, getAllCards, updateCard } from '../services/cardService';
+import {
+  exportCardsToJson,
+  exportCardsToMarkdownZip,
+  mergeImportedCard,
+  readImportFile,
+  titleKey,
+  type ExportedCard,
+  type ImportedCard,
+} from '../services/cardTransfer';
+import { compareCards, matchesFilters } from '../utils/cardQuery';
+import { downloadBlob } from '../utils/download';
+import { formatClassification } from '../utils/constants';
+import { AnkiExportSection } from './AnkiExportSection';
+
+interface ImportExportModalProps {
+  filters: FilterState;
+  canImport: boolean;
+  onClose: () => void;
+  onImported?: () => void;
+}
+
+type ExportScope = 'all' | 'filtered';
+type ImportAction = 'create' | 'skip' | 'overwrite' | 'merge';
+
+interface ImportRow extends ImportedCard {
+  existing?: Card;
+  duplicateInFile: boolean;
+}
+
+const IMPORT_ACTION_LABELS: Record<ImportAction, string> = {
+  create: 'Add',
+  skip: 'Skip',
+  overwrite: 'Overwrite',
+  merge: 'Merge',
+} as const;
+
+// Overwriting clears optional fields the imported card leaves out, instead of keeping the old values
+const CLEARED_FIELDS: Partial<ExportedCard> = {
+  timeComplexity: '',
+  spaceComplexity: '',
+  methods: [],
+  implementations: {},
+  variants: [],
+  useCases: [],
+  relatedProblems: [],
+  links: [],
+  testCases: [],
+  inputSets: [],
+} as const;
+
+function availableActions(row: ImportRow): ImportAction[] {
+  if (!row.card) return ['skip'];
+  if (row.existing) return ['skip', 'overwrite', 'merge'];
+  return row.duplicateInFile ? ['skip', 'create'] : ['create', 'skip'];
+}
+
+function exportFileName(extension: string): string {
+  return `toolbox-${new Date().toISOString().slice(0, 10)}.${extension}`;
+}
+
+export function ImportExportModal({ filters, canImport, onClose, onImported }: ImportExportModalProps) {
+  const [allCards, setAllCards] = useState<Card[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [scope, setScope] = useState<ExportScope>('all');
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [actions, setActions] = useState<ImportAction[]>([]);
+  const [results, setResults] = useState<(string | null)[]>([]);
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    let mounted = true;
+
+    getAllCards()
+      .then(cards => {
+        if (mounted) setAllCards(cards);
+      })
+      .catch(err => {
+        if (mounted) setError(err instanceof Error ? err.message : 'Failed to load cards');
+      })
+      .finally(() => {
+        if (mounted) setLoading(false);
+      });
+
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  const filteredCards = useMemo(
+    () => allCards
+      .filter(card => matchesFilters(card, filters))
+      .sort((a, b) => compareCards(a, b, filters.sortBy)),
+    [allCards, filters]
+  );
+
+  const exportCards = scope === 'all' ? allCards : filteredCards;
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    setResults([]);
+    try {
+      const imported = await readImportFile(file);
+      const byTitle = new Map(allCards.map(card => [titleKey(card.title), card]));
+      const seen = new Set<string>();
+      const nextRows = imported.map(item => {
+        const key = titleKey(item.title);
+        const row: ImportRow = { ...item, existing: byTitle.get(key), duplicateInFile: seen.has(key) };
+        seen.add(key);
+        return row;
+      });
+      setRows(nextRows);
+      setActions(nextRows.map(row => availableActions(row)[0]));
+    } catch (err) {
+      setRows([]);
+      setError(err instanceof Error ? err.message : 'Failed to read file');
+    }
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    setError(null);
+    const nextResults: (string | null)[] = [];
+
+    for (let idx = 0; idx < rows.length; idx++) {
+      const { card, existing } = rows[idx];
+      const action = actions[idx];
+      try {
+        if (!card || action === 'skip') {
+          nextResults.push(null);
+          continue;
+        }
+        if (action === 'create') {
+          await createCard(card);
+        } else if (existing && action === 'overwrite') {
+          await updateCard(existing.id, { ...CLEARED_FIELDS, ...card, dateAdded: existing.dateAdded }, existing.updatedAt);
+        } else if (existing && action === 'merge') {
+          await updateCard(existing.id, mergeImportedCard(existing, card), existing.updatedAt);
+        }
+        nextResults.push('Imported');
+      } catch (err) {
+        nextResults.push(err instanceof Error ? err.message : 'Failed to import card');
+      }
+      setResults([...nextResults]);
+    }
+
+    setResults(nextResults);
+    setImporting(false);
+    onImported?.();
+  };
+
+  const importCount = rows.filter((row, idx) => row.card && actions[idx] !== 'skip').length;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-[1000] flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-surface border-none rounded-lg w-full max-w-[800px] max-h-[90vh] flex flex-col shadow-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center px-8 py-6 border-b border-border">
+          <h2 className="m-0 text-2xl font-normal text-text-primary">Import &amp; Export</h2>
+          <button className="bg-transparent border-none text-text-tertiary text-[2rem] cursor-pointer leading-none p-0 w-8 h-8 flex items-center justify-center transition-colors duration-200 hover:text-text-primary" onClick={onClose}>×</button>
+        </div>
+
+        <div className="p-8 overflow-y-auto flex-1 flex flex-col gap-8">
+          {error && (
+            <div className="bg-[#5c2b29] text-[#f28b82] px-4 py-3 rounded text-sm">
+              {error}
+            </div>
+          )}
+
+          <section>
+            <h3 className="m-0 mb-3 text-lg font-medium text-text-primary">Export</h3>
+            {loading ? (
+              <p className="text-text-secondary text-sm">Loading cards...</p>
+            ) : (
+              <div className="flex flex-col gap-4">
+                <div className="flex gap-4 flex-wrap text-sm text-text-secondary">
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input type="radio" checked={scope === 'all'} onChange={() => setScope('all')} />
+                    All cards ({allCards.length})
+                  </label>
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input type="radio" checked={scope === 'filtered'} onChange={() => setScope('filtered')} />
+                    Current filters ({filteredCards.length})
+                  </label>
+                </div>
+                <div className="flex gap-3 flex-wrap">
+                  <button
+                    className="px-4 py-2 border-none rounded text-sm font-medium cursor-pointer transition-all duration-200 bg-accent text-background hover:bg-accent-hover disabled:opacity-60 disabled:cursor-not-allowed"
+                    onClick={() => downloadBlob(exportCardsToJson(exportCards), exportFileName('json'))}
+                    disabled={exportCards.length === 0}
+                  >
+                    Download JSON
+                  </button>
+                  <button
+                    className="px-4 py-2 bg-transparent border border-border rounded text-sm font-medium cursor-pointer transition-all duration-200 text-text-primary hover:bg-[#3c4043] hover:border-accent disabled:opacity-60 disabled:cursor-not-allowed"
+                    onClick={() => downloadBlob(exportCardsToMarkdownZip(exportCards), exportFileName('zip'))}
+                    disabled={exportCards.length === 0}
+                  >
+                    Download Markdown (.zip)
+                  </button>
+                </div>
+              </div>
+            )}
+          </section>
+
+          {!loading && <AnkiExportSection key={scope} cards={exportCards} />}
+
+          {canImport && (
+            <section>
+              <h3 className="m-0 mb-3 text-lg font-medium text-text-primary">Import</h3>
+              <p className="m-0 mb-3 text-text-tertiary text-sm">
+                Load a JSON export, a zip of Markdown files, or a single Markdown file. Cards whose title matches an
+                existing card can be skipped, overwritten, or merged into it.
+              </p>
+              <input
+                type="file"
+                accept=".json,.zip,.md,.markdown"
+                disabled={loading || importing}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleFile(file);
+                  e.target.value = '';
+                }}
+                className="text-sm text-text-secondary"
+              />
+
+              {rows.length > 0 && (
+                <>
+                  <ul className="list-none p-0 m-0 mt-4">
+                    {rows.map((row, idx) => (
+                      <li key={`${row.source}-${idx}`} className="py-3 border-b border-border last:border-b-0 flex items-start gap-3">
+                        <div className="flex-1 min-w-0">
+                          <div className="text-text-primary text-sm font-medium truncate">
+                            {row.title || '(untitled)'}
+                          </div>
+                          <div className="text-text-tertiary text-xs">
+                            {row.source}
+                            {row.card && ` · ${formatClassification(row.card.classification)}`}
+                            {row.existing && ' · matches an existing card'}
+                            {row.duplicateInFile && !row.existing && ' · repeated in this file'}
+                          </div>
+                          {row.issues.length > 0 && (
+                            <ul className="m-0 mt-1 pl-5 text-[#f28b82] text-xs">
+                              {row.issues.map(issue => (
+                                <li key={issue.column}><code>{issue.column}</code> {issue.message}</li>
+                              ))}
+                            </ul>
+                          )}
+                          {results[idx] && (
+                            <div className={`text-xs mt-1 ${results[idx] === 'Imported' ? 'text-[#81c995]' : 'text-[#f28b82]'}`}>
+                              {results[idx]}
+                            </div>
+                          )}
+                        </div>
+                        <div className="flex gap-1">
+                          {availableActions(row).map(action => (
+                            <button
+                              key={action}
+                              type="button"
+                              disabled={importing}
+                              onClick={() => setActions(prev => prev.map((a, i) => (i === idx ? action : a)))}
+                              className={`px-3 py-1 border rounded-2xl cursor-pointer text-xs transition-all duration-200 disabled:cursor-not-allowed ${
+                                actions[idx] === action
+                                  ? 'bg-accent text-background border-accent font-medium'
+                                  : 'border-border bg-background text-text-secondary hover:bg-[#3c4043]'
+                              }`}
+                            >
+                              {IMPORT_ACTION_LABELS[action]}
+                            </button>
+                          ))}
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+
+                  <div className="flex justify-end pt-4">
+                    <button
+                      className="px-6 py-3 border-none rounded text-sm font-medium cursor-pointer transition-all duration-200 bg-accent text-background hover:bg-accent-hover disabled:opacity-60 disabled:cursor-not-allowed"
+                      onClick={handleImport}
+                      disabled={importing || importCount === 0}
+                    >
+                      {importing ? 'Importing...' : `Import ${importCount} ${importCount === 1 ? 'Card' : 'Cards'}`}
+                    </button>
+                  </div>
+                </>
+              )}
+            </section>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
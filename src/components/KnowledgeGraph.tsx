@@ -0,0 +1,397 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { Card, CardDifficulty } from '../types/card';
+import type { FilterState } from '../types/cardQuery';
+import { getAllCards, subscribeToCards } from '../services/cardService';
+import { matchesFilters } from '../utils/cardQuery';
+import { buildCardEdges, findLearningPath, layoutGraph, MAX_TAG_GROUP_SIZE } from '../utils/cardGraph';
+import { formatLinkType } from '../utils/cardLinks';
+import { CLASSIFICATIONS, CLASSIFICATION_COLORS, formatClassification } from '../utils/constants';
+
+interface KnowledgeGraphProps {
+  filters: FilterState;
+  onCardClick: (card: Card) => void;
+}
+
+interface ViewTransform {
+  x: number;
+  y: number;
+  k: number;
+}
+
+// Size of the drawing area the layout fills; the SVG scales it to the available width
+const WIDTH = 1200;
+const HEIGHT = 760;
+
+const MIN_ZOOM = 0.3;
+const MAX_ZOOM = 4;
+const IDENTITY: ViewTransform = { x: 0, y: 0, k: 1 };
+
+const NODE_RADIUS: Record<CardDifficulty, number> = {
+  easy: 9,
+  medium: 13,
+  hard: 17,
+} as const;
+const DEFAULT_NODE_RADIUS = 11;
+
+function nodeRadius(card: Card): number {
+  return card.difficulty ? NODE_RADIUS[card.difficulty] : DEFAULT_NODE_RADIUS;
+}
+
+// Titles are always shown for small graphs, and otherwise once zoomed in
+const ALWAYS_LABEL_BELOW = 40;
+const LABEL_ZOOM = 1.5;
+
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+function clampZoom(k: number): number {
+  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, k));
+}
+
+/**
+ * Graph of every card matching the filters: nodes colored by classification and sized by
+ * difficulty, joined by their links and shared tags. Supports zoom and pan, opening a card
+ * by clicking it, and highlighting the learning path between two cards.
+ */
+export function KnowledgeGraph({ filters, onCardClick }: KnowledgeGraphProps) {
+  const [allCards, setAllCards] = useState<Card[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [view, setView] = useState<ViewTransform>(IDENTITY);
+  const [hovered, setHovered] = useState<string | null>(null);
+  const [pathFrom, setPathFrom] = useState('');
+  const [pathTo, setPathTo] = useState('');
+  const [panStart, setPanStart] = useState<{ pointerX: number; pointerY: number; view: ViewTransform } | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  useEffect(() => {
+    let mounted = true;
+
+    const load = () => getAllCards()
+      .then(cards => {
+        if (!mounted) return;
+        setAllCards(cards);
+        setError(null);
+      })
+      .catch(err => {
+        if (mounted) setError(err instanceof Error ? err.message : 'Failed to load cards');
+      })
+      .finally(() => {
+        if (mounted) setLoading(false);
+      });
+
+    load();
+    // Any change can add or remove nodes and edges, so reload the whole graph
+    const unsubscribe = subscribeToCards(() => {
+      load();
+    });
+
+    return () => {
+      mounted = false;
+      unsubscribe();
+    };
+  }, []);
+
+  const cards = useMemo(
+    () => allCards.filter(card => matchesFilters(card, filters)),
+    [allCards, filters]
+  );
+  const edges = useMemo(() => buildCardEdges(cards), [cards]);
+  const nodes = useMemo(() => layoutGraph(cards, edges, WIDTH, HEIGHT), [cards, edges]);
+  const nodesById = useMemo(() => new Map(nodes.map(node => [node.card.id, node])), [nodes]);
+  const sortedCards = useMemo(() => [...cards].sort((a, b) => a.title.localeCompare(b.title)), [cards]);
+
+  // Path ends can drop out of the graph when the filters change
+  const from = nodesById.has(pathFrom) ? pathFrom : '';
+  const to = nodesById.has(pathTo) ? pathTo : '';
+  const path = useMemo(() => (from && to ? findLearningPath(edges, from, to) : null), [edges, from, to]);
+  const pathIds = path ?? [];
+  const pathNodes = new Set(pathIds);
+  const pathEdges = new Set(pathIds.slice(1).map((id, i) => pairKey(pathIds[i], id)));
+  const hasGraph = !loading && !error && cards.length > 0;
+
+  // Wheel zoom has to cancel page scrolling, which React's passive wheel listener cannot do
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      const pointerX = ((event.clientX - rect.left) / rect.width) * WIDTH;
+      const pointerY = ((event.clientY - rect.top) / rect.height) * HEIGHT;
+      setView(current => {
+        const k = clampZoom(current.k * Math.exp(-event.deltaY * 0.0015));
+        // Keep the point under the pointer where it is
+        return {
+          k,
+          x: pointerX - ((pointerX - current.x) * k) / current.k,
+          y: pointerY - ((pointerY - current.y) * k) / current.k,
+        };
+      });
+    };
+
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, [hasGraph]);
+
+  const zoomBy = (factor: number) => {
+    setView(current => {
+      const k = clampZoom(current.k * factor);
+      return {
+        k,
+        x: WIDTH / 2 - ((WIDTH / 2 - current.x) * k) / current.k,
+        y: HEIGHT / 2 - ((HEIGHT / 2 - current.y) * k) / current.k,
+      };
+    });
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<SVGRectElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setPanStart({ pointerX: event.clientX, pointerY: event.clientY, view });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGRectElement>) => {
+    const svg = svgRef.current;
+    if (!panStart || !svg) return;
+    const scale = WIDTH / svg.getBoundingClientRect().width;
+    setView({
+      ...panStart.view,
+      x: panStart.view.x + (event.clientX - panStart.pointerX) * scale,
+      y: panStart.view.y + (event.clientY - panStart.pointerY) * scale,
+    });
+  };
+
+  const handlePointerUp = () => {
+    setPanStart(null);
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-12 text-text-secondary">
+        <p>Loading graph...</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-12 text-[#f28b82]">
+        <p>Error: {error}</p>
+      </div>
+    );
+  }
+
+  if (cards.length === 0) {
+    return (
+      <div className="text-center py-12 text-text-secondary">
+        <p>No cards match the current filters.</p>
+      </div>
+    );
+  }
+
+  const showAllLabels = cards.length < ALWAYS_LABEL_BELOW || view.k >= LABEL_ZOOM;
+  const highlighting = pathNodes.size > 0;
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-wrap items-center gap-3 text-sm text-text-secondary">
+        <span className="font-medium">Learning path</span>
+        <select
+          value={from}
+          onChange={(e) => setPathFrom(e.target.value)}
+          className="px-3 py-2 border border-border rounded text-sm bg-background text-text-primary cursor-pointer focus:outline-none focus:border-accent"
+          aria-label="Path start"
+        >
+          <option value="">From...</option>
+          {sortedCards.map(card => (
+            <option key={card.id} value={card.id}>{card.title}</option>
+          ))}
+        </select>
+        <span>→</span>
+        <select
+          value={to}
+          onChange={(e) => setPathTo(e.target.value)}
+          className="px-3 py-2 border border-border rounded text-sm bg-background text-text-primary cursor-pointer focus:outline-none focus:border-accent"
+          aria-label="Path end"
+        >
+          <option value="">To...</option>
+          {sortedCards.map(card => (
+            <option key={card.id} value={card.id}>{card.title}</option>
+          ))}
+        </select>
+        {(from || to) && (
+          <button
+            onClick={() => {
+              setPathFrom('');
+              setPathTo('');
+            }}
+            className="bg-transparent border-none p-0 text-text-tertiary cursor-pointer hover:underline"
+          >
+            Clear
+          </button>
+        )}
+        <div className="ml-auto flex gap-1">
+          <button
+            onClick={() => zoomBy(1.25)}
+            className="w-8 h-8 bg-transparent border border-border rounded cursor-pointer text-text-primary hover:bg-[#3c4043]"
+            title="Zoom in"
+          >
+            +
+          </button>
+          <button
+            onClick={() => zoomBy(0.8)}
+            className="w-8 h-8 bg-transparent border border-border rounded cursor-pointer text-text-primary hover:bg-[#3c4043]"
+            title="Zoom out"
+          >
+            −
+          </button>
+          <button
+            onClick={() => setView(IDENTITY)}
+            className="px-3 h-8 bg-transparent border border-border rounded cursor-pointer text-xs text-text-primary hover:bg-[#3c4043]"
+          >
+            Reset view
+          </button>
+        </div>
+      </div>
+
+      {from && to && (
+        path ? (
+          <ol className="m-0 p-0 list-none flex flex-wrap items-center gap-2 text-sm">
+            {path.map((id, idx) => {
+              const card = nodesById.get(id)!.card;
+              return (
+                <li key={id} className="flex items-center gap-2">
+                  {idx > 0 && <span className="text-text-tertiary">→</span>}
+                  <button
+                    onClick={() => onCardClick(card)}
+                    className="px-3 py-1 bg-[#3c4043] border border-accent rounded text-xs text-accent cursor-pointer hover:bg-[#4a4e52]"
+                  >
+                    {idx + 1}. {card.title}
+                  </button>
+                </li>
+              );
+            })}
+          </ol>
+        ) : (
+          <p className="m-0 text-sm text-text-tertiary italic">
+            These cards are not connected by links or shared tags.
+          </p>
+        )
+      )}
+
+      <div className="border border-border rounded bg-surface overflow-hidden">
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="w-full h-auto block select-none"
+          role="img"
+          aria-label={`Graph of ${cards.length} cards`}
+        >
+          <defs>
+            <marker id="graph-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+              <path d="M 0 0 L 10 5 L 0 10 z" fill="#9aa0a6" />
+            </marker>
+          </defs>
+          <rect
+            width={WIDTH}
+            height={HEIGHT}
+            fill="transparent"
+            className={panStart ? 'cursor-grabbing' : 'cursor-grab'}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          />
+          <g transform={`translate(${view.x} ${view.y}) scale(${view.k})`}>
+            {edges.map(edge => {
+              const source = nodesById.get(edge.source);
+              const target = nodesById.get(edge.target);
+              if (!source || !target) return null;
+              const onPath = pathEdges.has(pairKey(edge.source, edge.target));
+              const touchesHovered = hovered === edge.source || hovered === edge.target;
+              // Stop links at the edge of the target circle so the arrowhead shows
+              const distance = Math.max(1, Math.hypot(target.x - source.x, target.y - source.y));
+              const inset = nodeRadius(target.card) + 2;
+              const endX = target.x - ((target.x - source.x) / distance) * inset;
+              const endY = target.y - ((target.y - source.y) / distance) * inset;
+              return (
+                <line
+                  key={`${edge.kind}-${edge.source}-${edge.target}-${edge.linkType ?? ''}`}
+                  x1={source.x}
+                  y1={source.y}
+                  x2={edge.kind === 'link' ? endX : target.x}
+                  y2={edge.kind === 'link' ? endY : target.y}
+                  stroke={onPath ? '#8ab4f8' : edge.kind === 'link' ? '#9aa0a6' : '#5f6368'}
+                  strokeWidth={(onPath ? 3 : edge.kind === 'link' ? 1.5 : 1) / Math.sqrt(view.k)}
+                  strokeDasharray={edge.kind === 'tag' ? '4 4' : undefined}
+                  strokeOpacity={highlighting && !onPath ? 0.15 : touchesHovered ? 1 : 0.6}
+                  markerEnd={edge.kind === 'link' ? 'url(#graph-arrow)' : undefined}
+                >
+                  <title>
+                    {edge.kind === 'link'
+                      ? `${source.card.title} — ${formatLinkType(edge.linkType!).toLowerCase()} — ${target.card.title}`
+                      : `Shared tags: ${edge.tags.join(', ')}`}
+                  </title>
+                </line>
+              );
+            })}
+            {nodes.map(({ card, x, y }) => {
+              const radius = nodeRadius(card);
+              const onPath = pathNodes.has(card.id);
+              const dimmed = highlighting && !onPath;
+              return (
+                <g
+                  key={card.id}
+                  transform={`translate(${x} ${y})`}
+                  className="cursor-pointer"
+                  opacity={dimmed ? 0.3 : 1}
+                  onClick={() => onCardClick(card)}
+                  onPointerEnter={() => setHovered(card.id)}
+                  onPointerLeave={() => setHovered(null)}
+                >
+                  <circle
+                    r={radius}
+                    fill={CLASSIFICATION_COLORS[card.classification]}
+                    stroke={onPath ? '#8ab4f8' : hovered === card.id ? '#e8eaed' : '#202124'}
+                    strokeWidth={onPath || hovered === card.id ? 3 : 1.5}
+                  />
+                  {(showAllLabels || onPath || hovered === card.id) && (
+                    <text
+                      y={radius + 12}
+                      textAnchor="middle"
+                      fontSize={11 / Math.sqrt(view.k)}
+                      fill="#e8eaed"
+                      className="pointer-events-none"
+                    >
+                      {card.title}
+                    </text>
+                  )}
+                  <title>
+                    {`${card.title} (${formatClassification(card.classification)}${card.difficulty ? `, ${card.difficulty}` : ''})`}
+                  </title>
+                </g>
+              );
+            })}
+          </g>
+        </svg>
+      </div>
+
+      <div className="flex flex-wrap gap-x-5 gap-y-2 text-xs text-text-tertiary">
+        {CLASSIFICATIONS.map(classification => (
+          <span key={classification} className="flex items-center gap-1.5">
+            <span
+              className="inline-block w-3 h-3 rounded-full"
+              style={{ backgroundColor: CLASSIFICATION_COLORS[classification] }}
+            />
+            {formatClassification(classification)}
+          </span>
+        ))}
+        <span>Larger circles are harder cards.</span>
+        <span>Solid arrows are links; dashed lines join cards sharing a tag used by at most {MAX_TAG_GROUP_SIZE} cards.</span>
+        <span>Scroll to zoom, drag to pan.</span>
+      </div>
+    </div>
+  );
+}
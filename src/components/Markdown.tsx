@@ -0,0 +1,121 @@
+import type { ReactNode } from 'react';
+import ReactMarkdown, { type Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import rehypeSlug from 'rehype-slug';
+import 'katex/dist/katex.min.css';
+import 'highlight.js/styles/vs2015.css';
+
+import type { CardLanguage } from '../types/card';
+
+interface MarkdownProps {
+  children: string;
+  language?: CardLanguage; // Highlighting for fenced code blocks that do not name a language
+  inline?: boolean; // Render a single line without paragraph spacing, e.g. inside a list item
+}
+
+interface HastNode {
+  type: string;
+  tagName?: string;
+  properties?: Record<string, unknown>;
+  children?: HastNode[];
+}
+
+/**
+ * Rehype plugin that tags unlabelled code blocks with the card's language before highlighting.
+ * Blocks are always given a class, which is how the `code` component tells them from inline code.
+ */
+function rehypeDefaultLanguage(language?: string) {
+  return (tree: HastNode) => {
+    const visit = (node: HastNode, parent?: HastNode) => {
+      if (node.tagName === 'code' && parent?.tagName === 'pre') {
+        const classes = (node.properties?.className as string[] | undefined) ?? [];
+        if (!classes.some(name => name.startsWith('language-'))) {
+          node.properties = { ...node.properties, className: [...classes, language ? `language-${language}` : 'hljs'] };
+        }
+      }
+      node.children?.forEach(child => visit(child, node));
+    };
+    visit(tree);
+  };
+}
+
+function heading(Tag: 'h1' | 'h2' | 'h3' | 'h4', className: string) {
+  return ({ id, children }: { id?: string; children?: ReactNode }) => (
+    <Tag id={id} className={`group scroll-mt-4 text-text-primary font-medium ${className}`}>
+      {children}
+      {id && (
+        <a
+          href={`#${id}`}
+          className="ml-2 text-text-tertiary no-underline opacity-0 group-hover:opacity-100 transition-opacity duration-200"
+          aria-label="Link to this section"
+        >
+          #
+        </a>
+      )}
+    </Tag>
+  );
+}
+
+const COMPONENTS: Components = {
+  h1: heading('h1', 'text-xl mt-6 mb-3'),
+  h2: heading('h2', 'text-lg mt-6 mb-3'),
+  h3: heading('h3', 'text-base mt-5 mb-2'),
+  h4: heading('h4', 'text-sm mt-4 mb-2'),
+  p: ({ children }) => <p className="m-0 mb-4 last:mb-0">{children}</p>,
+  ul: ({ children }) => <ul className="m-0 mb-4 pl-6 list-disc">{children}</ul>,
+  ol: ({ children }) => <ol className="m-0 mb-4 pl-6 list-decimal">{children}</ol>,
+  li: ({ children }) => <li className="mb-1">{children}</li>,
+  a: ({ href, children }) => (
+    <a href={href} className="text-accent hover:underline" target={href?.startsWith('#') ? undefined : '_blank'} rel="noreferrer">
+      {children}
+    </a>
+  ),
+  blockquote: ({ children }) => (
+    <blockquote className="m-0 mb-4 pl-4 border-l-4 border-border text-text-tertiary">{children}</blockquote>
+  ),
+  pre: ({ children }) => (
+    // Padding comes from the highlight theme's `pre code.hljs` rule
+    <pre className="m-0 mb-4 bg-code-bg rounded overflow-hidden text-sm leading-normal">{children}</pre>
+  ),
+  code: ({ className, children }) => (
+    <code className={className ?? 'px-1.5 py-0.5 rounded bg-code-bg text-code-text font-mono text-[0.9em]'}>
+      {children}
+    </code>
+  ),
+  table: ({ children }) => (
+    <div className="mb-4 overflow-x-auto">
+      <table className="border-collapse text-sm">{children}</table>
+    </div>
+  ),
+  th: ({ children, style }) => (
+    <th style={style} className="px-3 py-2 border border-border text-left text-text-primary font-medium bg-surface">{children}</th>
+  ),
+  td: ({ children, style }) => (
+    <td style={style} className="px-3 py-2 border border-border">{children}</td>
+  ),
+  hr: () => <hr className="my-6 border-0 border-t border-border" />,
+};
+
+const INLINE_COMPONENTS: Components = {
+  ...COMPONENTS,
+  p: ({ children }) => <>{children}</>,
+};
+
+/**
+ * Render Markdown with GitHub-flavoured extensions, LaTeX math ($...$ and $$...$$),
+ * highlighted code blocks and linkable headings. Raw HTML is not rendered.
+ */
+export function Markdown({ children, language, inline = false }: MarkdownProps) {
+  return (
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm, remarkMath]}
+      rehypePlugins={[rehypeSlug, rehypeKatex, [rehypeDefaultLanguage, language], rehypeHighlight]}
+      components={inline ? INLINE_COMPONENTS : COMPONENTS}
+    >
+      {children}
+    </ReactMarkdown>
+  );
+}
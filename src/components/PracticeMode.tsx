@@ -0,0 +1,235 @@
+import { useEffect, useRef, useState } from 'react';
+import type { CardLanguage, Implementation, TestCase } from '../types/card';
+import { CodeEditor } from './CodeEditor';
+import { TestResultsTable } from './TestResultsTable';
+import { executeCode } from '../services/codeExecutor';
+import { runTestCases, type TestResult } from '../services/testRunner';
+import { diffLines } from '../utils/diff';
+import { formatLanguage } from '../utils/constants';
+import { getPracticeStub } from '../utils/practice';
+import { compareOutput } from '../utils/testCases';
+
+interface PracticeModeProps {
+  implementations: Implementation[];
+  initialLanguage: CardLanguage;
+  testCases?: TestCase[];
+}
+
+interface CheckResult {
+  passed: boolean;
+  expected: string; // Without test cases: the reference solution's output, and the attempt's
+  actual: string;
+  tests?: TestResult[]; // With test cases: a result per test
+}
+
+/**
+ * Write a card's implementation from memory: the reference solution stays hidden until the
+ * attempt has been checked, against the card's test cases or, without any, against the
+ * reference solution's output
+ */
+export function PracticeMode({ implementations, initialLanguage, testCases }: PracticeModeProps) {
+  const [language, setLanguage] = useState(initialLanguage);
+  const reference = implementations.find(impl => impl.language === language) ?? implementations[0];
+  const [attempt, setAttempt] = useState(() => getPracticeStub(reference.code, reference.language));
+  // Bumped to remount the editor when the attempt is reset
+  const [attemptId, setAttemptId] = useState(0);
+  const [expectedOutputs, setExpectedOutputs] = useState<Partial<Record<CardLanguage, string>>>({});
+  const [result, setResult] = useState<CheckResult | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [testProgress, setTestProgress] = useState<TestResult[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [revealed, setRevealed] = useState(false);
+  const checkController = useRef<AbortController | null>(null);
+  const hasTests = !!testCases && testCases.length > 0;
+
+  // A check still going when the practice closes is cancelled, and drops its results
+  useEffect(() => () => {
+    checkController.current?.abort();
+    checkController.current = null;
+  }, []);
+
+  const startOver = (next: Implementation) => {
+    setLanguage(next.language);
+    setAttempt(getPracticeStub(next.code, next.language));
+    setAttemptId(id => id + 1);
+    setResult(null);
+    setError(null);
+    setRevealed(false);
+  };
+
+  const handleCheck = async () => {
+    if (checkController.current) return;
+    const controller = new AbortController();
+    const { signal } = controller;
+    checkController.current = controller;
+    setChecking(true);
+    setError(null);
+    try {
+      if (hasTests) {
+        setTestProgress([]);
+        const tests = await runTestCases(
+          attempt,
+          reference.language,
+          testCases,
+          test => {
+            if (!signal.aborted) setTestProgress(prev => [...prev, test]);
+          },
+          { signal }
+        );
+        signal.throwIfAborted();
+        setResult({ passed: tests.every(test => test.passed), expected: '', actual: '', tests });
+        return;
+      }
+      // Run one after the other: the executor rate-limits bursts of requests
+      let expected = expectedOutputs[reference.language];
+      if (expected === undefined) {
+        const run = await executeCode(reference.code, reference.language, undefined, undefined, { signal });
+        signal.throwIfAborted();
+        expected = run.stdout || run.stderr;
+        setExpectedOutputs(prev => ({ ...prev, [reference.language]: expected }));
+      }
+      const run = await executeCode(attempt, reference.language, undefined, undefined, { signal });
+      signal.throwIfAborted();
+      const actual = run.stdout || run.stderr;
+      setResult({ passed: compareOutput(expected, actual), expected, actual });
+    } catch (err) {
+      // A cancelled check is dropped without an error
+      if (!signal.aborted) setError(err instanceof Error ? err.message : 'Failed to run your attempt');
+    } finally {
+      // The controller is gone once the practice has closed, and then nothing is updated
+      if (checkController.current === controller) {
+        checkController.current = null;
+        setChecking(false);
+      }
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-wrap items-center gap-3">
+        {implementations.length > 1 ? (
+          <select
+            value={reference.language}
+            onChange={(e) => {
+              const next = implementations.find(impl => impl.language === e.target.value);
+              if (next) startOver(next);
+            }}
+            className="px-2 py-1.5 border border-dark-border bg-dark-surface rounded text-xs cursor-pointer text-[#b5b5b5] focus:outline-none focus:border-[#5a5a5a]"
+            aria-label="Practice language"
+          >
+            {implementations.map(impl => (
+              <option key={impl.language} value={impl.language}>
+                {formatLanguage(impl.language)}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <span className="text-xs text-text-tertiary">{formatLanguage(reference.language)}</span>
+        )}
+        <p className="m-0 text-xs text-text-tertiary flex-1">
+          Fill in the function bodies from memory. The solution is shown once your attempt has been checked
+          {hasTests ? ` against the card's ${testCases.length} test${testCases.length === 1 ? '' : 's'}` : ''}.
+        </p>
+      </div>
+
+      <CodeEditor
+        key={`${reference.language}-${attemptId}`}
+        initialCode={attempt}
+        language={reference.language}
+        onChange={(code) => {
+          setAttempt(code);
+          setResult(null);
+        }}
+      />
+
+      <div className="flex flex-wrap gap-3 items-center">
+        <button
+          onClick={handleCheck}
+          disabled={checking}
+          className="px-4 py-2 border-none rounded text-sm font-medium cursor-pointer transition-all duration-200 bg-accent text-background hover:bg-accent-hover disabled:opacity-60 disabled:cursor-not-allowed"
+        >
+          {checking ? 'Checking...' : 'Check attempt'}
+        </button>
+        {checking && (
+          <button
+            onClick={() => checkController.current?.abort()}
+            className="px-4 py-2 bg-transparent border border-border rounded text-sm font-medium cursor-pointer transition-all duration-200 text-text-primary hover:bg-[#3c4043]"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          onClick={() => setRevealed(true)}
+          disabled={!result || revealed}
+          className="px-4 py-2 bg-transparent border border-border rounded text-sm font-medium cursor-pointer transition-all duration-200 text-text-primary hover:bg-[#3c4043] disabled:opacity-60 disabled:cursor-not-allowed"
+          title={result ? undefined : 'Check your attempt first'}
+        >
+          Reveal solution
+        </button>
+        <button
+          onClick={() => startOver(reference)}
+          className="px-4 py-2 bg-transparent border border-border rounded text-sm font-medium cursor-pointer transition-all duration-200 text-text-primary hover:bg-[#3c4043]"
+        >
+          Start over
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-[#5c2b29] text-[#f28b82] px-4 py-3 rounded text-sm">
+          {error}
+        </div>
+      )}
+
+      {hasTests && (checking || result) && (
+        <TestResultsTable testCases={testCases} results={result?.tests ?? testProgress} running={checking} />
+      )}
+
+      {result && !result.tests && (
+        <div className="flex flex-col gap-3">
+          <p className={`m-0 text-sm font-medium ${result.passed ? 'text-[#81c995]' : 'text-[#f28b82]'}`}>
+            {result.passed ? 'Your output matches the reference solution.' : 'Your output differs from the reference solution.'}
+          </p>
+          {!result.passed && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div className="min-w-0">
+                <h4 className="m-0 mb-1 text-xs font-medium text-text-secondary">Expected</h4>
+                <pre className="m-0 bg-code-bg rounded p-3 text-xs font-mono text-code-text overflow-x-auto whitespace-pre-wrap">
+                  {result.expected || '(no output)'}
+                </pre>
+              </div>
+              <div className="min-w-0">
+                <h4 className="m-0 mb-1 text-xs font-medium text-text-secondary">Yours</h4>
+                <pre className="m-0 bg-code-bg rounded p-3 text-xs font-mono text-code-text overflow-x-auto whitespace-pre-wrap">
+                  {result.actual || '(no output)'}
+                </pre>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {revealed && (
+        <div>
+          <h3 className="m-0 mb-2 text-sm font-medium text-text-primary">Your attempt compared to the solution</h3>
+          <pre className="m-0 bg-code-bg rounded p-3 text-xs font-mono overflow-x-auto">
+            {diffLines(attempt, reference.code).map((line, idx) => (
+              <div
+                key={idx}
+                className={
+                  line.type === 'added'
+                    ? 'bg-[#1e3a2a] text-[#81c995]'
+                    : line.type === 'removed'
+                      ? 'bg-[#3d1f1f] text-[#f28b82]'
+                      : 'text-code-text'
+                }
+              >
+                {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                {line.text}
+              </div>
+            ))}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import { useState } from 'react';
+import type { InputSet } from '../types/card';
+import { formatArgs, parseArgs, upsertInputSet } from '../utils/inputSets';
+
+interface ProgramInputPanelProps {
+  inputSets: InputSet[];
+  selectedName: string | null; // Input set the fields were loaded from, null for unsaved input
+  stdin: string;
+  argsText: string; // Arguments as typed, split with parseArgs when the program runs
+  onSelect: (inputSet: InputSet | null) => void;
+  onStdinChange: (stdin: string) => void;
+  onArgsChange: (argsText: string) => void;
+  onSaveInputSets?: (inputSets: InputSet[]) => Promise<void>; // Stores the sets on the card; saving is hidden without it
+}
+
+const BUTTON_CLASS =
+  'px-2 py-0.5 rounded text-[11px] bg-transparent border border-[#374151] text-[#9ca3af] cursor-pointer hover:text-white hover:border-[#6b7280] disabled:opacity-50 disabled:cursor-not-allowed';
+
+/**
+ * Standard input and command-line arguments for the editor's Run button, with named
+ * input sets that can be saved on the card
+ */
+export function ProgramInputPanel({
+  inputSets,
+  selectedName,
+  stdin,
+  argsText,
+  onSelect,
+  onStdinChange,
+  onArgsChange,
+  onSaveInputSets,
+}: ProgramInputPanelProps) {
+  const [newName, setNewName] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = inputSets.find(s => s.name === selectedName);
+  const modified = !!selected && (selected.stdin !== stdin || formatArgs(selected.args) !== formatArgs(parseArgs(argsText)));
+
+  const save = async (next: InputSet[], select: InputSet | null) => {
+    if (!onSaveInputSets) return;
+    setSaving(true);
+    setError(null);
+    try {
+      await onSaveInputSets(next);
+      onSelect(select);
+      setNewName(null);
+    } catch (err) {
+      console.error('Error saving input sets:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save input sets');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const current = (name: string): InputSet => {
+    const args = parseArgs(argsText);
+    return args.length > 0 ? { name, stdin, args } : { name, stdin };
+  };
+
+  const handleSave = () => {
+    if (!selected) return;
+    const inputSet = current(selected.name);
+    save(upsertInputSet(inputSets, inputSet), inputSet);
+  };
+
+  const handleSaveAs = () => {
+    const name = newName?.trim();
+    if (!name) return;
+    const inputSet = current(name);
+    save(upsertInputSet(inputSets, inputSet), inputSet);
+  };
+
+  return (
+    <div className="w-2/5 min-w-[200px] flex flex-col border-r border-[#374151]">
+      <div className="flex items-center gap-2 px-3 py-1 bg-[#1e1e1e] text-xs text-[#6b7280] font-mono border-b border-[#1f2937]">
+        <span>INPUT</span>
+        <select
+          value={selectedName ?? ''}
+          onChange={(e) => onSelect(inputSets.find(s => s.name === e.target.value) ?? null)}
+          className="min-w-0 flex-1 bg-[#252526] border border-[#374151] rounded text-[11px] text-[#d1d5db] px-1 py-0.5 cursor-pointer focus:outline-none"
+          aria-label="Input set"
+        >
+          <option value="">Unsaved input</option>
+          {inputSets.map(s => (
+            <option key={s.name} value={s.name}>{s.name}</option>
+          ))}
+          {/* Shown until the card reloads with a set that was just saved */}
+          {selectedName && !selected && <option value={selectedName}>{selectedName}</option>}
+        </select>
+        {onSaveInputSets && newName === null && (
+          <>
+            {selected && (
+              <button
+                onClick={handleSave}
+                disabled={saving || !modified}
+                className={BUTTON_CLASS}
+                title={`Overwrite "${selected.name}" with the input below`}
+              >
+                Save
+              </button>
+            )}
+            <button onClick={() => setNewName('')} disabled={saving} className={BUTTON_CLASS}>
+              Save as…
+            </button>
+            {selected && (
+              <button
+                onClick={() => save(inputSets.filter(s => s.name !== selected.name), null)}
+                disabled={saving}
+                className={BUTTON_CLASS}
+                title={`Delete "${selected.name}" from the card`}
+              >
+                Delete
+              </button>
+            )}
+          </>
+        )}
+      </div>
+
+      {newName !== null && (
+        <div className="flex items-center gap-2 px-3 py-1 bg-[#1e1e1e] border-b border-[#1f2937]">
+          <input
+            autoFocus
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleSaveAs();
+              if (e.key === 'Escape') setNewName(null);
+            }}
+            placeholder="Name, e.g. Sample 1"
+            className="min-w-0 flex-1 bg-[#252526] border border-[#374151] rounded text-xs text-[#d1d5db] px-2 py-0.5 focus:outline-none focus:border-[#6b7280]"
+          />
+          <button onClick={handleSaveAs} disabled={saving || !newName.trim()} className={BUTTON_CLASS}>
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+          <button onClick={() => setNewName(null)} disabled={saving} className={BUTTON_CLASS}>
+            Cancel
+          </button>
+        </div>
+      )}
+
+      <input
+        value={argsText}
+        onChange={(e) => onArgsChange(e.target.value)}
+        placeholder="Arguments, e.g. 10 &quot;two words&quot;"
+        spellCheck={false}
+        className="px-3 py-1.5 bg-black border-0 border-b border-[#1f2937] text-[#d1d5db] font-mono text-xs focus:outline-none placeholder:text-[#4b5563]"
+        aria-label="Command-line arguments"
+      />
+      <textarea
+        value={stdin}
+        onChange={(e) => onStdinChange(e.target.value)}
+        placeholder="Standard input..."
+        spellCheck={false}
+        className="flex-1 px-3 py-2 bg-black border-0 resize-none text-[#d1d5db] font-mono text-sm focus:outline-none placeholder:text-[#4b5563] placeholder:italic"
+        aria-label="Standard input"
+      />
+      {error && <div className="px-3 py-1 text-[11px] text-[#f87171] bg-[#1e1e1e]">{error}</div>}
+    </div>
+  );
+}
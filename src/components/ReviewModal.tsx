@@ -0,0 +1,283 @@
+import { useState } from 'react';
+import type { User } from '@supabase/supabase-js';
+import type { CardClassification, CardDifficulty, CardLanguage } from '../types/card';
+import type { ReviewGrade, ReviewScope } from '../types/review';
+import { useReviewSession } from '../hooks/useReviewSession';
+import { CodeEditor } from './CodeEditor';
+import { Markdown } from './Markdown';
+import { getDefaultImplementation } from '../utils/cardImplementations';
+import { CLASSIFICATIONS, DIFFICULTIES, formatClassification, formatLanguage, getDifficultyColor } from '../utils/constants';
+import { REVIEW_GRADES, reviewPrompt, scheduleReview } from '../utils/spacedRepetition';
+
+interface ReviewModalProps {
+  user: User | null;
+  initialScope: ReviewScope;
+  allTags: string[];
+  preferredLanguage?: CardLanguage;
+  onClose: () => void;
+}
+
+function toggle<T>(list: T[], value: T): T[] {
+  return list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+}
+
+function formatInterval(days: number): string {
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${(days / 365).toFixed(1)}y`;
+}
+
+/**
+ * Spaced-repetition review: due cards one at a time, prompt first, then the answer and a recall grade
+ */
+export function ReviewModal({ user, initialScope, allTags, preferredLanguage, onClose }: ReviewModalProps) {
+  const {
+    current,
+    remaining,
+    reviewedCount,
+    schedules,
+    scope,
+    setScope,
+    grade,
+    loading,
+    saving,
+    error,
+  } = useReviewSession(user, initialScope);
+  const [revealedId, setRevealedId] = useState<string | null>(null);
+  const [showScope, setShowScope] = useState(false);
+  const revealed = !!current && revealedId === current.id;
+
+  const handleGrade = (value: ReviewGrade) => {
+    // The hook keeps the error to show; the card stays current so it can be graded again
+    grade(value).catch(() => {});
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Leave typing in the code editor and form fields alone
+    if ((e.target as HTMLElement).closest('input, textarea, select, .monaco-editor') || !current || saving) return;
+    if (!revealed && (e.key === ' ' || e.key === 'Enter')) {
+      e.preventDefault();
+      setRevealedId(current.id);
+    } else if (revealed && /^[1-4]$/.test(e.key)) {
+      e.preventDefault();
+      handleGrade(REVIEW_GRADES[Number(e.key) - 1].grade);
+    }
+  };
+
+  const scopePill = (active: boolean) =>
+    `px-3 py-1 border rounded-2xl cursor-pointer text-xs transition-all duration-200 ${
+      active
+        ? 'bg-accent text-background border-accent font-medium'
+        : 'border-border bg-background text-text-secondary hover:bg-[#3c4043]'
+    }`;
+
+  const scopeSize = Object.values(scope).reduce((count, list) => count + list.length, 0);
+  const nowIso = new Date().toISOString();
+  const nextDue = Object.values(schedules)
+    .map(schedule => schedule.dueAt)
+    .filter(dueAt => dueAt > nowIso)
+    .sort()[0];
+  const implementation = current ? getDefaultImplementation(current, preferredLanguage) : null;
+
+  const renderBody = () => {
+    if (!user) {
+      return <p className="text-text-secondary text-sm">Sign in to review cards and keep your schedule.</p>;
+    }
+    if (loading) {
+      return <p className="text-text-secondary text-sm">Loading review queue...</p>;
+    }
+    if (!current) {
+      return (
+        <div className="text-center py-12">
+          <p className="m-0 mb-2 text-text-primary text-lg">
+            {reviewedCount > 0 ? `Done! You reviewed ${reviewedCount} card${reviewedCount === 1 ? '' : 's'}.` : 'Nothing is due for review.'}
+          </p>
+          {nextDue && (
+            <p className="m-0 text-text-tertiary text-sm">
+              Your next review is due {new Date(nextDue).toLocaleDateString()}.
+            </p>
+          )}
+        </div>
+      );
+    }
+
+    return (
+      <div className="flex flex-col gap-6">
+        <div>
+          <div className="flex gap-2 flex-wrap mb-3">
+            <span className="px-3 py-1 rounded-2xl text-xs font-medium uppercase text-text-primary tracking-[0.5px] bg-[#5b8fb8] border border-[#6b9fc8]">
+              {formatClassification(current.classification)}
+            </span>
+            {current.difficulty && (
+              <span
+                className="px-3 py-1 rounded-2xl text-xs font-medium uppercase text-text-primary tracking-[0.5px]"
+                style={{ backgroundColor: getDifficultyColor(current.difficulty) }}
+              >
+                {current.difficulty}
+              </span>
+            )}
+            {schedules[current.id] ? (
+              <span className="text-xs text-text-tertiary self-center">
+                Last reviewed {new Date(schedules[current.id].lastReviewedAt).toLocaleDateString()}
+              </span>
+            ) : (
+              <span className="text-xs text-text-tertiary self-center">New card</span>
+            )}
+          </div>
+          <h3 className="m-0 mb-2 text-2xl font-normal text-text-primary">{current.title}</h3>
+          <p className="m-0 text-text-secondary">{reviewPrompt(current)}</p>
+        </div>
+
+        {!revealed ? (
+          <button
+            onClick={() => setRevealedId(current.id)}
+            className="self-center px-6 py-3 border-none rounded text-sm font-medium cursor-pointer transition-all duration-200 bg-accent text-background hover:bg-accent-hover"
+          >
+            Show answer <span className="opacity-70">(Space)</span>
+          </button>
+        ) : (
+          <>
+            {implementation && (
+              <div>
+                <h4 className="m-0 mb-2 text-sm font-medium text-text-secondary">
+                  Code ({formatLanguage(implementation.language)})
+                </h4>
+                <CodeEditor
+                  key={`${current.id}-${implementation.language}`}
+                  initialCode={implementation.code}
+                  language={implementation.language}
+                />
+              </div>
+            )}
+            <div>
+              <h4 className="m-0 mb-2 text-sm font-medium text-text-secondary">Explanation</h4>
+              <div className="text-text-secondary leading-[1.75] text-sm">
+                <Markdown language={current.language}>{current.explanation}</Markdown>
+              </div>
+            </div>
+            {(current.timeComplexity || current.spaceComplexity || (current.methods && current.methods.length > 0)) && (
+              <div className="flex flex-wrap gap-6 text-sm">
+                {current.timeComplexity && (
+                  <span className="text-text-secondary">Time: <code className="font-mono text-text-primary">{current.timeComplexity}</code></span>
+                )}
+                {current.spaceComplexity && (
+                  <span className="text-text-secondary">Space: <code className="font-mono text-text-primary">{current.spaceComplexity}</code></span>
+                )}
+                {current.methods?.map(method => (
+                  <span key={method.name} className="text-text-secondary">
+                    {method.name}: <code className="font-mono text-text-primary">{method.timeComplexity}</code>
+                  </span>
+                ))}
+              </div>
+            )}
+
+            <div className="flex flex-col items-center gap-2 pt-4 border-t border-border">
+              <p className="m-0 text-xs text-text-tertiary">How well did you remember it?</p>
+              <div className="flex gap-2 flex-wrap justify-center">
+                {REVIEW_GRADES.map(({ grade: value, label }, idx) => (
+                  <button
+                    key={value}
+                    onClick={() => handleGrade(value)}
+                    disabled={saving}
+                    className={`px-5 py-2 border-none rounded text-sm font-medium cursor-pointer transition-all duration-200 text-text-primary disabled:opacity-60 disabled:cursor-not-allowed ${
+                      value < 3 ? 'bg-error hover:bg-error-hover' : 'bg-[#3c4043] hover:bg-[#4a4e52]'
+                    }`}
+                    title={`Press ${idx + 1}`}
+                  >
+                    {label}
+                    <span className="ml-2 text-xs opacity-70">
+                      {formatInterval(scheduleReview(current.id, schedules[current.id], value).intervalDays)}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-[1000] flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-surface border-none rounded-lg w-full max-w-[900px] max-h-[90vh] flex flex-col shadow-modal outline-none"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+        tabIndex={-1}
+        ref={(el) => el?.focus({ preventScroll: true })}
+      >
+        <div className="flex justify-between items-center px-8 py-6 border-b border-border gap-4">
+          <div>
+            <h2 className="m-0 text-2xl font-normal text-text-primary">Review</h2>
+            {user && !loading && (
+              <p className="m-0 text-xs text-text-tertiary">
+                {remaining} due · {reviewedCount} reviewed this session
+              </p>
+            )}
+          </div>
+          <div className="flex items-center gap-3">
+            {user && (
+              <button
+                onClick={() => setShowScope(show => !show)}
+                className="px-3 py-1.5 bg-transparent border border-border rounded text-xs cursor-pointer text-text-primary hover:bg-[#3c4043]"
+              >
+                Scope{scopeSize > 0 ? ` (${scopeSize})` : ': all cards'}
+              </button>
+            )}
+            <button className="bg-transparent border-none text-text-tertiary text-[2rem] cursor-pointer leading-none p-0 w-8 h-8 flex items-center justify-center transition-colors duration-200 hover:text-text-primary" onClick={onClose}>×</button>
+          </div>
+        </div>
+
+        {showScope && user && (
+          <div className="px-8 py-4 border-b border-border flex flex-col gap-3">
+            <div className="flex flex-wrap gap-1.5">
+              {CLASSIFICATIONS.map(classification => (
+                <button
+                  key={classification}
+                  onClick={() => setScope({ ...scope, classifications: toggle<CardClassification>(scope.classifications, classification) })}
+                  className={scopePill(scope.classifications.includes(classification))}
+                >
+                  {formatClassification(classification)}
+                </button>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-1.5">
+              {DIFFICULTIES.map(difficulty => (
+                <button
+                  key={difficulty}
+                  onClick={() => setScope({ ...scope, difficulties: toggle<CardDifficulty>(scope.difficulties, difficulty) })}
+                  className={scopePill(scope.difficulties.includes(difficulty))}
+                >
+                  {difficulty.charAt(0).toUpperCase() + difficulty.slice(1)}
+                </button>
+              ))}
+            </div>
+            {allTags.length > 0 && (
+              <div className="flex flex-wrap gap-1.5">
+                {allTags.map(tag => (
+                  <button
+                    key={tag}
+                    onClick={() => setScope({ ...scope, tags: toggle(scope.tags, tag) })}
+                    className={scopePill(scope.tags.includes(tag))}
+                  >
+                    {tag}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="p-8 overflow-y-auto flex-1">
+          {error && (
+            <div className="bg-[#5c2b29] text-[#f28b82] px-4 py-3 rounded mb-6 text-sm">
+              {error}
+            </div>
+          )}
+          {renderBody()}
+        </div>
+      </div>
+    </div>
+  );
+}
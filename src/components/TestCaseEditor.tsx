@@ -0,0 +1,156 @@
+import type { CardLanguage, TestCase, TestComparator, TestInputMode } from '../types/card';
+import {
+  ARGS_LANGUAGES,
+  DEFAULT_FLOAT_TOLERANCE,
+  TEST_COMPARATORS,
+  TEST_INPUT_MODES,
+  formatComparator,
+} from '../utils/testCases';
+
+interface TestCaseEditorProps {
+  testCases: TestCase[];
+  language: CardLanguage; // Language of the card's main code, which the tests run against
+  onChange: (testCases: TestCase[]) => void;
+}
+
+const MODE_LABELS: Record<TestInputMode, string> = {
+  stdin: 'Stdin',
+  args: 'Function args',
+} as const;
+
+const INPUT_CLASS =
+  'px-3 py-2 border border-border rounded text-sm bg-background text-text-primary font-mono transition-all duration-200 focus:outline-none focus:border-accent focus:shadow-[0_0_0_1px_#8ab4f8] focus:bg-surface';
+
+const SELECT_CLASS =
+  'px-3 py-2 border border-border rounded text-sm bg-background text-text-primary font-mono cursor-pointer focus:outline-none focus:border-accent';
+
+/**
+ * Editor for a card's test cases: input (stdin or function arguments), expected output and how to compare them
+ */
+export function TestCaseEditor({ testCases, language, onChange }: TestCaseEditorProps) {
+  const canCallFunctions = ARGS_LANGUAGES.includes(language);
+
+  const addTestCase = () => {
+    onChange([...testCases, { mode: canCallFunctions ? 'args' : 'stdin', input: '', expected: '' }]);
+  };
+
+  const updateTestCase = (index: number, updates: Partial<TestCase>) => {
+    onChange(testCases.map((testCase, i) => (i === index ? { ...testCase, ...updates } : testCase)));
+  };
+
+  const removeTestCase = (index: number) => {
+    onChange(testCases.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={addTestCase}
+        className="px-3 py-1 text-[0.9em] bg-[#3b82f6] text-white border-none rounded cursor-pointer"
+      >
+        + Add Test
+      </button>
+      {testCases.length === 0 ? (
+        <p className="text-[#6b7280] text-[0.9em] mt-2">
+          Tests are run from the code editor to check the code still gives the expected output.
+          {canCallFunctions
+            ? ' Feed the program stdin, or call a function with arguments written in its language.'
+            : ' Each test feeds the program stdin.'}
+        </p>
+      ) : (
+        <div className="mt-3 flex flex-col gap-3">
+          {testCases.map((testCase, index) => (
+            <div key={index} className="p-4 border border-border rounded flex flex-col gap-2.5">
+              <div className="flex gap-2.5 items-center flex-wrap">
+                <input
+                  type="text"
+                  value={testCase.name ?? ''}
+                  onChange={(e) => updateTestCase(index, { name: e.target.value })}
+                  className={`flex-1 min-w-[160px] ${INPUT_CLASS}`}
+                  placeholder={`Name (optional, e.g., "empty array")`}
+                />
+                <select
+                  value={testCase.mode}
+                  onChange={(e) => updateTestCase(index, { mode: e.target.value as TestInputMode })}
+                  className={SELECT_CLASS}
+                  aria-label="Input mode"
+                >
+                  {TEST_INPUT_MODES.map(mode => (
+                    <option key={mode} value={mode} disabled={mode === 'args' && !canCallFunctions}>
+                      {MODE_LABELS[mode]}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={testCase.comparator ?? 'exact'}
+                  onChange={(e) => {
+                    const comparator = e.target.value as TestComparator;
+                    updateTestCase(index, {
+                      comparator: comparator === 'exact' ? undefined : comparator,
+                      tolerance: comparator === 'float' ? testCase.tolerance : undefined,
+                    });
+                  }}
+                  className={SELECT_CLASS}
+                  aria-label="Comparison"
+                >
+                  {TEST_COMPARATORS.map(comparator => (
+                    <option key={comparator} value={comparator}>
+                      {formatComparator(comparator)}
+                    </option>
+                  ))}
+                </select>
+                {testCase.comparator === 'float' && (
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={testCase.tolerance ?? ''}
+                    onChange={(e) => updateTestCase(index, {
+                      tolerance: e.target.value === '' ? undefined : Number(e.target.value),
+                    })}
+                    className={`w-28 ${INPUT_CLASS}`}
+                    placeholder={`± ${DEFAULT_FLOAT_TOLERANCE}`}
+                    aria-label="Tolerance"
+                  />
+                )}
+                <button
+                  type="button"
+                  onClick={() => removeTestCase(index)}
+                  className="px-3 py-2 bg-[#ef4444] text-white border-none rounded cursor-pointer"
+                >
+                  Remove
+                </button>
+              </div>
+              {testCase.mode === 'args' && (
+                <input
+                  type="text"
+                  value={testCase.functionName ?? ''}
+                  onChange={(e) => updateTestCase(index, { functionName: e.target.value })}
+                  className={`w-full ${INPUT_CLASS}`}
+                  placeholder="Function to call (defaults to the first one in the code)"
+                />
+              )}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2.5">
+                <textarea
+                  value={testCase.input}
+                  onChange={(e) => updateTestCase(index, { input: e.target.value })}
+                  rows={3}
+                  className={`w-full resize-y ${INPUT_CLASS}`}
+                  placeholder={testCase.mode === 'args' ? 'Arguments, e.g. [2, 7, 11, 15], 9' : 'Stdin'}
+                />
+                <textarea
+                  value={testCase.expected}
+                  onChange={(e) => updateTestCase(index, { expected: e.target.value })}
+                  rows={3}
+                  className={`w-full resize-y ${INPUT_CLASS}`}
+                  placeholder={testCase.mode === 'args' ? 'Expected return value, e.g. [0, 1]' : 'Expected output'}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import type { TestCase } from '../types/card';
+import type { TestResult } from '../services/testRunner';
+import { diffLines } from '../utils/diff';
+import { formatComparator, formatTestCase, normalizeOutput } from '../utils/testCases';
+
+interface TestResultsTableProps {
+  testCases: TestCase[];
+  results: TestResult[]; // Results so far, in test order; tests past the end are still to run
+  running: boolean;
+}
+
+/**
+ * Pass/fail table for a test run, with a diff of expected against actual output for each failure
+ */
+export function TestResultsTable({ testCases, results, running }: TestResultsTableProps) {
+  const passed = results.filter(result => result.passed).length;
+
+  return (
+    <div className="border border-[#374151] rounded-md bg-[#1e1e1e] overflow-hidden text-left">
+      <div className="flex justify-between items-center px-4 py-2 border-b border-[#374151] text-xs font-mono">
+        <span className="text-[#6b7280]">TESTS</span>
+        <span className={results.length < testCases.length ? 'text-[#9ca3af]' : passed === testCases.length ? 'text-[#81c995]' : 'text-[#f28b82]'}>
+          {running ? `Running ${results.length + 1}/${testCases.length}...` : `${passed}/${testCases.length} passed`}
+        </span>
+      </div>
+      <table className="w-full border-collapse text-xs font-mono">
+        <tbody>
+          {testCases.map((testCase, idx) => {
+            const result = results[idx];
+            return (
+              <tr key={idx} className="border-b border-[#1f2937] last:border-b-0 align-top">
+                <td className="px-4 py-2 w-16">
+                  {result ? (
+                    <span className={result.passed ? 'text-[#81c995]' : 'text-[#f28b82]'}>
+                      {result.passed ? 'PASS' : 'FAIL'}
+                    </span>
+                  ) : (
+                    <span className="text-[#4b5563]">{running && idx === results.length ? '...' : '-'}</span>
+                  )}
+                </td>
+                <td className="px-2 py-2 text-[#d1d5db]">
+                  <div className="flex gap-2 items-baseline flex-wrap">
+                    <span>{formatTestCase(testCase, idx)}</span>
+                    {testCase.comparator && testCase.comparator !== 'exact' && (
+                      <span className="text-[#6b7280]">{formatComparator(testCase.comparator)}</span>
+                    )}
+                  </div>
+                  {result?.error && (
+                    <pre className="m-0 mt-1 text-[#f28b82] whitespace-pre-wrap">{result.error}</pre>
+                  )}
+                  {result && !result.passed && !result.error && (
+                    <pre className="m-0 mt-1 bg-code-bg rounded p-2 overflow-x-auto">
+                      {diffLines(normalizeOutput(testCase.expected), normalizeOutput(result.actual)).map((line, lineIdx) => (
+                        <div
+                          key={lineIdx}
+                          className={
+                            line.type === 'added'
+                              ? 'bg-[#1e3a2a] text-[#81c995]'
+                              : line.type === 'removed'
+                                ? 'bg-[#3d1f1f] text-[#f28b82]'
+                                : 'text-code-text'
+                          }
+                        >
+                          {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                          {line.text}
+                        </div>
+                      ))}
+                    </pre>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      {results.some(result => !result.passed && !result.error) && (
+        <p className="m-0 px-4 py-1.5 border-t border-[#1f2937] text-[11px] text-[#6b7280] font-mono">
+          - expected &nbsp; + actual
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import type { StoredTestSummary } from '../services/testSummaries';
+import { formatLanguage } from '../utils/constants';
+
+interface TestSummaryBadgeProps {
+  summary: StoredTestSummary | undefined;
+  testCount: number; // Shown instead of a result while the tests have not been run
+  className: string; // Size and shape of the badge
+}
+
+/**
+ * Pass/fail count of a card's last test run, green when every test passed
+ */
+export function TestSummaryBadge({ summary, testCount, className }: TestSummaryBadgeProps) {
+  const colors = !summary
+    ? 'bg-[#5f6368] border-[#70757a]'
+    : summary.passed === summary.total
+      ? 'bg-[#2e7d32] border-[#3e8d42]'
+      : 'bg-[#b3261e] border-[#c3362e]';
+
+  return (
+    <span
+      className={`${className} font-medium text-text-primary border ${colors}`}
+      title={summary
+        ? `Last test run: ${formatLanguage(summary.language)}, ${new Date(summary.ranAt).toLocaleString()}`
+        : 'Run the tests from the code editor'}
+    >
+      {summary
+        ? `Tests ${summary.passed}/${summary.total} passing`
+        : `${testCount} test${testCount === 1 ? '' : 's'}`}
+    </span>
+  );
+}
@@ -0,0 +1,42 @@
+import { useEffect } from 'react';
+
+interface ToastProps {
+  message: string;
+  actionLabel?: string;
+  onAction?: () => void;
+  onDismiss: () => void;
+  durationMs?: number;
+}
+
+const DEFAULT_DURATION_MS = 8000;
+
+export function Toast({ message, actionLabel, onAction, onDismiss, durationMs = DEFAULT_DURATION_MS }: ToastProps) {
+  useEffect(() => {
+    const timer = window.setTimeout(onDismiss, durationMs);
+    return () => window.clearTimeout(timer);
+  }, [onDismiss, durationMs]);
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[1100] flex items-center gap-4 px-5 py-3 rounded bg-[#e8eaed] text-background shadow-modal text-sm"
+    >
+      <span>{message}</span>
+      {actionLabel && onAction && (
+        <button
+          className="bg-transparent border-none p-0 text-[#1a73e8] font-medium cursor-pointer uppercase text-xs tracking-[0.5px] hover:underline"
+          onClick={onAction}
+        >
+          {actionLabel}
+        </button>
+      )}
+      <button
+        className="bg-transparent border-none p-0 text-[#5f6368] cursor-pointer text-lg leading-none hover:text-background"
+        onClick={onDismiss}
+        aria-label="Dismiss"
+      >
+        ×
+      </button>
+    </div>
+  );
+}
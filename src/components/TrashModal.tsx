@@ -0,0 +1,135 @@
+import { useEffect, useState } from 'react';
+import type { TrashedCard } from '../types/card';
+import { getTrashedCards, purgeCard, restoreCard } from '../services/cardService';
+import { TRASH_RETENTION_DAYS, formatClassification } from '../utils/constants';
+
+interface TrashModalProps {
+  onClose: () => void;
+  onRestored?: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Days left before a trashed card is purged automatically
+ */
+function daysUntilPurge(card: TrashedCard): number {
+  const purgeAt = new Date(card.deletedAt).getTime() + TRASH_RETENTION_DAYS * DAY_MS;
+  return Math.max(0, Math.ceil((purgeAt - Date.now()) / DAY_MS));
+}
+
+export function TrashModal({ onClose, onRestored }: TrashModalProps) {
+  const [cards, setCards] = useState<TrashedCard[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [confirmPurgeId, setConfirmPurgeId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+
+    getTrashedCards()
+      .then(trashed => {
+        if (mounted) setCards(trashed);
+      })
+      .catch(err => {
+        if (mounted) setError(err instanceof Error ? err.message : 'Failed to load trash');
+      })
+      .finally(() => {
+        if (mounted) setLoading(false);
+      });
+
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  const handleRestore = async (card: TrashedCard) => {
+    setBusyId(card.id);
+    setError(null);
+    try {
+      await restoreCard(card.id);
+      setCards(prev => prev.filter(c => c.id !== card.id));
+      onRestored?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore card');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = async (card: TrashedCard) => {
+    if (confirmPurgeId !== card.id) {
+      setConfirmPurgeId(card.id);
+      return;
+    }
+
+    setBusyId(card.id);
+    setError(null);
+    try {
+      await purgeCard(card.id);
+      setCards(prev => prev.filter(c => c.id !== card.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete card');
+    } finally {
+      setBusyId(null);
+      setConfirmPurgeId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-[1000] flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-surface border-none rounded-lg w-full max-w-[700px] max-h-[90vh] flex flex-col shadow-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center px-8 py-6 border-b border-border">
+          <h2 className="m-0 text-2xl font-normal text-text-primary">Trash</h2>
+          <button className="bg-transparent border-none text-text-tertiary text-[2rem] cursor-pointer leading-none p-0 w-8 h-8 flex items-center justify-center transition-colors duration-200 hover:text-text-primary" onClick={onClose}>×</button>
+        </div>
+
+        <div className="p-8 overflow-y-auto flex-1">
+          <p className="m-0 mb-6 text-text-tertiary text-sm">
+            Deleted cards are kept for {TRASH_RETENTION_DAYS} days before they are removed permanently.
+          </p>
+
+          {error && (
+            <div className="bg-[#5c2b29] text-[#f28b82] px-4 py-3 rounded mb-6 text-sm">
+              {error}
+            </div>
+          )}
+
+          {loading ? (
+            <p className="text-text-secondary text-sm">Loading trash...</p>
+          ) : cards.length === 0 ? (
+            <p className="text-[#6a6a6a] italic text-left">The trash is empty.</p>
+          ) : (
+            <ul className="list-none p-0 m-0">
+              {cards.map(card => (
+                <li key={card.id} className="py-3 border-b border-border last:border-b-0 flex items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="text-text-primary text-sm font-medium truncate">{card.title}</div>
+                    <div className="text-text-tertiary text-xs">
+                      {formatClassification(card.classification)} · deleted {new Date(card.deletedAt).toLocaleDateString()} · purged in {daysUntilPurge(card)} days
+                    </div>
+                  </div>
+                  <button
+                    className="px-3 py-1 border-none rounded text-xs font-medium cursor-pointer transition-all duration-200 bg-accent text-background hover:bg-accent-hover disabled:opacity-60 disabled:cursor-not-allowed"
+                    onClick={() => handleRestore(card)}
+                    disabled={busyId !== null}
+                  >
+                    Restore
+                  </button>
+                  <button
+                    className="px-3 py-1 border-none rounded text-xs font-medium cursor-pointer transition-all duration-200 bg-error text-text-primary hover:bg-error-hover disabled:opacity-60 disabled:cursor-not-allowed"
+                    onClick={() => handlePurge(card)}
+                    disabled={busyId !== null}
+                  >
+                    {confirmPurgeId === card.id ? 'Confirm Delete Forever' : 'Delete Forever'}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,18 +1,24 @@
 import { useState, useEffect } from 'react';
 import type { User, Session } from '@supabase/supabase-js';
 
-import { supabase } from '../lib/supabase';
+import { getSupabase, isSupabaseConfigured } from '../lib/supabase';
+import { LOCAL_USER, isAdmin } from '../lib/currentUser';
 
 /**
  * Custom hook for managing authentication state
  * @returns Authentication state and methods
  */
 export function useAuth() {
-  const [user, setUser] = useState<User | null>(null);
+  const [user, setUser] = useState<User | null>(isSupabaseConfigured ? null : LOCAL_USER);
   const [session, setSession] = useState<Session | null>(null);
-  const [loading, setLoading] = useState(true);
+  const [loading, setLoading] = useState(isSupabaseConfigured);
 
   useEffect(() => {
+    if (!isSupabaseConfigured) {
+      return;
+    }
+    const supabase = getSupabase();
+
     // Get initial session
     supabase.auth.getSession().then(({ data: { session } }) => {
       setSession(session);
@@ -33,7 +39,7 @@ export function useAuth() {
   }, []);
 
   const signInWithGoogle = async () => {
-    const { error } = await supabase.auth.signInWithOAuth({
+    const { error } = await getSupabase().auth.signInWithOAuth({
       provider: 'google',
       options: {
         redirectTo: window.location.origin,
@@ -46,7 +52,7 @@ export function useAuth() {
   };
 
   const signOut = async () => {
-    const { error } = await supabase.auth.signOut();
+    const { error } = await getSupabase().auth.signOut();
     if (error) {
       console.error('Error signing out:', error);
       throw error;
@@ -58,8 +64,9 @@ export function useAuth() {
     session,
     loading,
     isAuthenticated: !!user,
+    isAdmin: isAdmin(user),
+    isLocalMode: !isSupabaseConfigured,
     signInWithGoogle,
     signOut,
   };
 }
-
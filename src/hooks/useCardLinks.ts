@@ -0,0 +1,51 @@
+import { useState, useEffect } from 'react';
+
+import type { Card, CardLinkType } from '../types/card';
+import { getBacklinkingCards, getCardsByIds } from '../services/cardService';
+import { findBacklinks } from '../utils/cardLinks';
+
+export interface LinkedCard {
+  type: CardLinkType;
+  card: Card;
+}
+
+/**
+ * Custom hook for the cards a card links to and the cards that link to it.
+ * Links whose target has been deleted are left out.
+ * @param card - Card to load the links of
+ * @returns Linked cards in the card's link order, backlinks sorted by title, and the last error
+ */
+export function useCardLinks(card: Card) {
+  const [linked, setLinked] = useState<LinkedCard[]>([]);
+  const [backlinks, setBacklinks] = useState<LinkedCard[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reload when the card's own links change, not on every unrelated edit
+  const linksKey = JSON.stringify(card.links ?? []);
+
+  useEffect(() => {
+    const links = JSON.parse(linksKey) as NonNullable<Card['links']>;
+    let cancelled = false;
+
+    Promise.all([getCardsByIds(links.map(link => link.targetId)), getBacklinkingCards(card.id)])
+      .then(([targets, linking]) => {
+        if (cancelled) return;
+        const byId = new Map(targets.map(target => [target.id, target]));
+        setLinked(links.flatMap(link => {
+          const target = byId.get(link.targetId);
+          return target ? [{ type: link.type, card: target }] : [];
+        }));
+        setBacklinks(findBacklinks(card.id, linking));
+        setError(null);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load linked cards');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [card.id, linksKey]);
+
+  return { linked, backlinks, error };
+}
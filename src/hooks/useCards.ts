@@ -1,32 +1,160 @@
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 
-import { supabase } from '../lib/supabase';
-import { getAllCards } from '../services/cardService';
+import {
+  getCardRepository,
+  type CardChange,
+  type CardRepository,
+  type ConnectionStatus,
+} from '../services/cardRepository';
+import {
+  applyOutbox,
+  getOutboxEntries,
+  getSyncStatuses,
+  startBackgroundSync,
+  subscribeToOutbox,
+  type OutboxEntry,
+} from '../services/cardOutbox';
 import type { Card } from '../types/card';
+import type { CardPage, CardQuery } from '../types/cardQuery';
+import { compareCards, matchesFilters } from '../utils/cardQuery';
+
+// Background tabs may have their realtime socket throttled, so resync after a long absence
+const RESYNC_AFTER_HIDDEN_MS = 5 * 60 * 1000;
+
+/**
+ * A page fetched for a query. Stale pages are still shown when they are opened, then
+ * refetched.
+ */
+interface CachedPage {
+  page: CardPage;
+  stale: boolean;
+}
+
+function markAllStale(cache: Map<string, CachedPage>) {
+  cache.forEach(cachedPage => {
+    cachedPage.stale = true;
+  });
+}
+
+/**
+ * Check whether a change can alter a page of a query's results: the card is on the
+ * page, or it entered, left or moved within the results. Without the card as it was
+ * before, an update or delete of a card off the page might have done any of those.
+ * @param cards - Cards on the page fetched for the query
+ * @param change - Change to check
+ * @param query - Query the page was fetched with
+ * @returns True if the page may be out of date
+ */
+function changeAffectsQuery(cards: Card[], change: CardChange, query: CardQuery): boolean {
+  if (change.type === 'INSERT') {
+    return matchesFilters(change.card, query.filters);
+  }
+  const id = change.type === 'DELETE' ? change.id : change.card.id;
+  if (cards.some(card => card.id === id) || !change.previous) {
+    return true;
+  }
+
+  const wasMatch = matchesFilters(change.previous, query.filters);
+  if (change.type === 'DELETE') {
+    return wasMatch;
+  }
+  const isMatch = matchesFilters(change.card, query.filters);
+  return wasMatch !== isMatch || (isMatch && compareCards(change.previous, change.card, query.filters.sortBy) !== 0);
+}
+
+/**
+ * Apply a realtime update to the current page in place, if that is enough
+ * @param cards - Cards on the current page
+ * @param change - Change to apply
+ * @param query - Query the page was fetched with
+ * @returns Updated cards (the same array if the change doesn't touch the page), or null
+ * if the page has to be refetched from the backend
+ */
+function applyCardChange(cards: Card[], change: CardChange, query: CardQuery): Card[] | null {
+  if (!changeAffectsQuery(cards, change, query)) {
+    return cards;
+  }
+  // Inserts and deletes shift every later card across the page boundary
+  if (change.type !== 'UPDATE') {
+    return null;
+  }
+
+  const incoming = change.card;
+  const existing = cards.find(card => card.id === incoming.id);
+  // A card that left the results or moved in the sort order shifts the cards around it
+  if (!existing || !matchesFilters(incoming, query.filters) || compareCards(existing, incoming, query.filters.sortBy) !== 0) {
+    return null;
+  }
+  // Payloads can arrive out of order; never replace a newer version with an older one
+  if (existing.updatedAt && incoming.updatedAt && incoming.updatedAt < existing.updatedAt) {
+    return cards;
+  }
+  return cards.map(card => (card.id === incoming.id ? incoming : card));
+}
 
 /**
- * Custom hook for managing cards data with real-time updates
- * @returns Cards data, loading state, error state, and refetch function
+ * Custom hook for one page of cards, filtered, sorted and paged by the backend,
+ * with real-time updates. Changes still waiting in the outbox are applied on top.
+ * Realtime updates to cards on the page are applied in place; other changes that can
+ * affect the results refetch just the current page, and the rest are ignored. The
+ * page is also refetched after the connection drops or the tab has been in the
+ * background for a while. The next page is prefetched so paging forward is instant;
+ * fetched pages are kept, and shown while they are refetched once a change makes
+ * them stale.
+ * @param query - Filters, sort option, page number and page size
+ * @param repository - Card storage backend (defaults to the configured one)
+ * @returns Cards on the page, total matching cards, per-card sync status, connection status, loading state, error state, and refetch function
  */
-export function useCards() {
-  const [cards, setCards] = useState<Card[]>([]);
+export function useCards(query: CardQuery, repository: CardRepository = getCardRepository()) {
+  const [serverPage, setServerPage] = useState<CardPage>({ cards: [], total: 0 });
+  const [allTags, setAllTags] = useState<string[]>([]);
+  const [outboxEntries, setOutboxEntries] = useState<OutboxEntry[]>(getOutboxEntries);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>(
+    navigator.onLine ? 'reconnecting' : 'offline'
+  );
+
+  const queryKey = JSON.stringify(query);
+  const serverPageRef = useRef(serverPage);
+
+  // Pages fetched so far, keyed by their query
+  const pageCache = useRef(new Map<string, CachedPage>());
+
+  // Latest handlers for the current query, so long-lived listeners always act on the right page
+  const reloadRef = useRef<() => Promise<void>>(async () => {});
+  const applyChangeRef = useRef<(change: CardChange) => void>(() => {});
 
-  // Fetch cards and set up real-time subscription
+  useEffect(() => {
+    serverPageRef.current = serverPage;
+  }, [serverPage]);
+
+  // Fetch the current page whenever the query changes, then prefetch the next one
   useEffect(() => {
     let mounted = true;
+    const currentQuery: CardQuery = JSON.parse(queryKey);
 
-    async function loadCards() {
+    async function prefetchNext(page: CardPage) {
+      if (currentQuery.page * currentQuery.pageSize >= page.total) return;
+      const nextQuery = { ...currentQuery, page: currentQuery.page + 1 };
+      const nextKey = JSON.stringify(nextQuery);
+      if (pageCache.current.get(nextKey)?.stale === false) return;
       try {
-        setLoading(true);
-        setError(null);
+        pageCache.current.set(nextKey, { page: await repository.query(nextQuery), stale: false });
+      } catch (err) {
+        // Prefetching is opportunistic; the page is fetched again when it is opened
+        console.error('Error prefetching cards:', err);
+      }
+    }
 
-        const fetchedCards = await getAllCards();
-        
-        if (mounted) {
-          setCards(fetchedCards);
-        }
+    async function loadPage() {
+      try {
+        setError(null);
+        const page = await repository.query(currentQuery);
+        if (!mounted) return;
+        pageCache.current.set(queryKey, { page, stale: false });
+        setServerPage(page);
+        prefetchNext(page);
       } catch (err) {
         console.error('Error loading cards:', err);
         if (mounted) {
@@ -39,64 +167,187 @@ export function useCards() {
       }
     }
 
-    loadCards();
+    const cached = pageCache.current.get(queryKey);
+    if (cached) {
+      setServerPage(cached.page);
+      setLoading(false);
+      if (cached.stale) {
+        loadPage();
+      } else {
+        prefetchNext(cached.page);
+      }
+    } else {
+      loadPage();
+    }
+
+    reloadRef.current = async () => {
+      markAllStale(pageCache.current);
+      await loadPage();
+    };
+
+    applyChangeRef.current = change => {
+      pageCache.current.forEach((cachedPage, key) => {
+        if (key !== queryKey && changeAffectsQuery(cachedPage.page.cards, change, JSON.parse(key))) {
+          cachedPage.stale = true;
+        }
+      });
+
+      const current = serverPageRef.current;
+      const cards = applyCardChange(current.cards, change, currentQuery);
+      if (!cards) {
+        loadPage();
+      } else if (cards !== current.cards) {
+        // Kept in step right away, so a change arriving before the next render builds on this one
+        const page = { ...current, cards };
+        serverPageRef.current = page;
+        pageCache.current.set(queryKey, { page, stale: false });
+        setServerPage(page);
+      }
+    };
+
+    return () => {
+      mounted = false;
+    };
+  }, [queryKey, repository]);
+
+  // Load tags and set up real-time subscription
+  useEffect(() => {
+    let mounted = true;
+
+    async function loadTags() {
+      try {
+        const tags = await repository.getTags();
+        if (mounted) {
+          setAllTags(tags);
+        }
+      } catch (err) {
+        console.error('Error loading tags:', err);
+      }
+    }
+
+    loadTags();
+
+    async function resync() {
+      await Promise.all([reloadRef.current(), loadTags()]);
+    }
+
+    let channelStatus: ConnectionStatus = 'reconnecting';
+    let hasBeenLive = false;
+    let missedChanges = false;
 
     // Set up real-time subscription for card changes
-    const channel = supabase
-      .channel('cards-changes')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'cards',
-        },
-        async () => {
-          // Reload cards when any change occurs
-          try {
-            const fetchedCards = await getAllCards();
-            if (mounted) {
-              setCards(fetchedCards);
-            }
-          } catch (err) {
-            console.error('Error reloading cards after real-time update:', err);
-          }
+    const unsubscribe = repository.subscribe(
+      change => {
+        if (!mounted) return;
+        if (change.type !== 'DELETE') {
+          setAllTags(prev => {
+            const missing = change.card.tags.filter(tag => !prev.includes(tag));
+            return missing.length > 0 ? [...prev, ...missing].sort() : prev;
+          });
         }
-      )
-      .subscribe();
+        applyChangeRef.current(change);
+      },
+      status => {
+        if (!mounted) return;
+        channelStatus = status;
+        setConnectionStatus(navigator.onLine ? status : 'offline');
+
+        if (status !== 'live') {
+          missedChanges = missedChanges || hasBeenLive;
+          return;
+        }
+        // Changes made while we were disconnected were never delivered
+        if (missedChanges) {
+          missedChanges = false;
+          resync();
+        }
+        hasBeenLive = true;
+      }
+    );
+
+    const handleOffline = () => {
+      setConnectionStatus('offline');
+    };
+
+    const handleOnline = () => {
+      setConnectionStatus(channelStatus);
+      resync();
+    };
+
+    let hiddenAt: number | null = null;
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        hiddenAt = Date.now();
+        return;
+      }
+      if (hiddenAt !== null && Date.now() - hiddenAt > RESYNC_AFTER_HIDDEN_MS) {
+        resync();
+      }
+      hiddenAt = null;
+    };
+
+    window.addEventListener('offline', handleOffline);
+    window.addEventListener('online', handleOnline);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
 
     return () => {
       mounted = false;
-      supabase.removeChannel(channel);
+      unsubscribe();
+      window.removeEventListener('offline', handleOffline);
+      window.removeEventListener('online', handleOnline);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
     };
-  }, []);
+  }, [repository]);
 
-  // Get all unique tags from all cards
-  const allTags = useMemo(() => {
-    const tagSet = new Set<string>();
-    cards.forEach(card => {
-      card.tags.forEach(tag => tagSet.add(tag));
+  // Track queued changes and fold synced ones in without waiting for a refetch
+  useEffect(() => {
+    const unsubscribe = subscribeToOutbox(event => {
+      if (event.type === 'changed') {
+        setOutboxEntries(event.entries);
+        return;
+      }
+      const { cardId, card } = event;
+      applyChangeRef.current(card ? { type: 'UPDATE', card } : { type: 'DELETE', id: cardId });
     });
-    return Array.from(tagSet).sort();
-  }, [cards]);
+
+    startBackgroundSync();
+    return unsubscribe;
+  }, []);
+
+  // Cards created offline are not on any server page yet; show them at the top of the first page
+  const cards = useMemo(() => {
+    const entries = query.page === 1
+      ? outboxEntries
+      : outboxEntries.filter(entry => entry.type !== 'create');
+    return applyOutbox(serverPage.cards, entries).filter(card => matchesFilters(card, query.filters));
+  }, [serverPage, outboxEntries, query.page, query.filters]);
+
+  const syncStatuses = useMemo(() => getSyncStatuses(outboxEntries), [outboxEntries]);
 
   const refetch = async () => {
     try {
-      setLoading(true);
       setError(null);
-      const fetchedCards = await getAllCards();
-      setCards(fetchedCards);
+      markAllStale(pageCache.current);
+      const [page, tags] = await Promise.all([
+        repository.query(query),
+        repository.getTags(),
+      ]);
+      pageCache.current.set(queryKey, { page, stale: false });
+      setServerPage(page);
+      setAllTags(tags);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to reload cards';
       setError(errorMessage);
       throw err;
-    } finally {
-      setLoading(false);
     }
   };
 
   return {
     cards,
+    totalCards: serverPage.total,
+    syncStatuses,
+    pendingChanges: outboxEntries,
+    connectionStatus,
     allTags,
     loading,
     error,
@@ -0,0 +1,25 @@
+import { useEffect, useState } from 'react';
+
+const TICK_MS = 250;
+
+/**
+ * Custom hook that counts down to a moment, for showing how long a wait has left
+ * @param until - Date.now() timestamp to count down to, or null when nothing is pending
+ * @returns Whole seconds left, rounded up; 0 when nothing is pending
+ */
+export function useCountdown(until: number | null): number {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (until === null) return;
+    const tick = () => setNow(Date.now());
+    const first = setTimeout(tick, 0);
+    const timer = setInterval(tick, TICK_MS);
+    return () => {
+      clearTimeout(first);
+      clearInterval(timer);
+    };
+  }, [until]);
+
+  return until === null ? 0 : Math.max(0, Math.ceil((until - now) / 1000));
+}
@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Custom hook that follows a value only once it has stopped changing
+ * @param value - Value to follow
+ * @param delayMs - How long the value must stay unchanged
+ * @returns The latest value that was stable for delayMs
+ */
+export function useDebouncedValue<T>(value: T, delayMs: number): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delayMs);
+    return () => clearTimeout(timer);
+  }, [value, delayMs]);
+
+  return debounced;
+}
@@ -0,0 +1,28 @@
+import { useState, useEffect } from 'react';
+
+import type { ExecutorHealth } from '../types/executor';
+import { checkExecutorHealth, getExecutorClient } from '../services/codeExecutor';
+
+/**
+ * Custom hook for the status of the configured code executor. The check is shared
+ * across components, so mounting many editors costs one request.
+ * @returns The last health check (null until it answers), the executor's URL, and a function to check again
+ */
+export function useExecutorHealth() {
+  const [health, setHealth] = useState<ExecutorHealth | null>(null);
+  const [refreshCount, setRefreshCount] = useState(0);
+
+  useEffect(() => {
+    let mounted = true;
+    checkExecutorHealth(refreshCount > 0).then(result => {
+      if (mounted) setHealth(result);
+    });
+    return () => {
+      mounted = false;
+    };
+  }, [refreshCount]);
+
+  const recheck = () => setRefreshCount(count => count + 1);
+
+  return { health, url: getExecutorClient().url, recheck };
+}
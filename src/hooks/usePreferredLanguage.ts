@@ -0,0 +1,61 @@
+import { useState } from 'react';
+import type { User } from '@supabase/supabase-js';
+
+import type { CardLanguage } from '../types/card';
+import { getSupabase, isSupabaseConfigured } from '../lib/supabase';
+import { LANGUAGES } from '../utils/constants';
+
+const STORAGE_KEY = 'toolbox-preferred-language';
+
+function isCardLanguage(value: unknown): value is CardLanguage {
+  return typeof value === 'string' && LANGUAGES.includes(value as CardLanguage);
+}
+
+function loadStoredLanguage(): CardLanguage | undefined {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return isCardLanguage(stored) ? stored : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Custom hook for the language the user wants to see implementations in first.
+ * Signed-in users keep it in their account metadata so it follows them between devices;
+ * it is also remembered on this device for when they are signed out.
+ * @param user - Signed-in user, if any
+ * @returns Preferred language (undefined when none is set) and a setter
+ */
+export function usePreferredLanguage(user: User | null) {
+  const [chosen, setChosen] = useState<CardLanguage | undefined>(loadStoredLanguage);
+  // Set once the user picks a language here, so the choice shows before the account update lands
+  const [changedHere, setChangedHere] = useState(false);
+
+  const accountLanguage: unknown = user?.user_metadata?.preferred_language;
+  const preferredLanguage = !changedHere && isCardLanguage(accountLanguage) ? accountLanguage : chosen;
+
+  const setPreferredLanguage = async (language: CardLanguage | undefined) => {
+    setChosen(language);
+    setChangedHere(true);
+    try {
+      if (language) {
+        localStorage.setItem(STORAGE_KEY, language);
+      } else {
+        localStorage.removeItem(STORAGE_KEY);
+      }
+    } catch (error) {
+      // Storage can be full or disabled; the preference just won't be remembered on this device
+      console.error('Error saving preferred language:', error);
+    }
+
+    if (!isSupabaseConfigured || !user) return;
+    const { error } = await getSupabase().auth.updateUser({ data: { preferred_language: language ?? null } });
+    if (error) {
+      console.error('Error saving preferred language:', error);
+      throw new Error(`Failed to save preferred language: ${error.message}`);
+    }
+  };
+
+  return { preferredLanguage, setPreferredLanguage };
+}
@@ -0,0 +1,66 @@
+import { useState, useEffect } from 'react';
+import type { User } from '@supabase/supabase-js';
+
+import type { ProblemStatus } from '../types/card';
+import { getProgressRepository, type ProblemStatuses, type ProgressRepository } from '../services/progressRepository';
+
+/**
+ * Custom hook for the signed-in user's solve status on related problems.
+ * Status changes show immediately and are rolled back if saving fails.
+ * @param user - Signed-in user; nothing is loaded while signed out
+ * @param repository - Progress storage backend (defaults to the configured one)
+ * @returns Status per problem key, a setter, and the last error
+ */
+export function useProblemProgress(user: User | null, repository: ProgressRepository = getProgressRepository()) {
+  const [statuses, setStatuses] = useState<ProblemStatuses>({});
+  const [error, setError] = useState<string | null>(null);
+  const userId = user?.id ?? null;
+
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+    repository.getStatuses()
+      .then(loaded => {
+        if (cancelled) return;
+        setStatuses(loaded);
+        setError(null);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load problem progress');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, repository]);
+
+  /**
+   * Mark a problem, or clear its status
+   * @param key - problemKey of the problem
+   * @param status - New status, or null to clear it
+   * @throws Error if the status could not be saved
+   */
+  const setStatus = async (key: string, status: ProblemStatus | null) => {
+    const previous = statuses[key];
+    const apply = (next: ProblemStatus | null | undefined) => setStatuses(current => {
+      const updated = { ...current };
+      if (next) {
+        updated[key] = next;
+      } else {
+        delete updated[key];
+      }
+      return updated;
+    });
+
+    apply(status);
+    try {
+      await repository.setStatus(key, status);
+      setError(null);
+    } catch (err) {
+      apply(previous);
+      setError(err instanceof Error ? err.message : 'Failed to save problem progress');
+      throw err;
+    }
+  };
+
+  return { statuses: userId ? statuses : {}, setStatus, error };
+}
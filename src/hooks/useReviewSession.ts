@@ -0,0 +1,103 @@
+import { useState, useEffect } from 'react';
+import type { User } from '@supabase/supabase-js';
+
+import type { Card } from '../types/card';
+import type { ReviewGrade, ReviewSchedule, ReviewScope } from '../types/review';
+import { getAllCards } from '../services/cardService';
+import { getReviewRepository, type ReviewRepository } from '../services/reviewRepository';
+import { buildReviewQueue, scheduleReview } from '../utils/spacedRepetition';
+
+/**
+ * Custom hook for a spaced-repetition review session: the user's due cards within a scope,
+ * one at a time. Grading a card saves its next review date; cards graded as forgotten
+ * come back at the end of the session.
+ * @param user - Signed-in user whose schedules are used; nothing is loaded while signed out
+ * @param initialScope - Classifications, difficulties and tags to review
+ * @param repository - Review storage backend (defaults to the configured one)
+ * @returns Current card, queue size, scope and its setter, grade function, and loading/error state
+ */
+export function useReviewSession(
+  user: User | null,
+  initialScope: ReviewScope,
+  repository: ReviewRepository = getReviewRepository()
+) {
+  const [cards, setCards] = useState<Card[]>([]);
+  const [schedules, setSchedules] = useState<Record<string, ReviewSchedule>>({});
+  // The initial scope only seeds the first queue; later changes go through setScope
+  const [startScope] = useState(initialScope);
+  const [scope, setScopeState] = useState<ReviewScope>(initialScope);
+  const [queue, setQueue] = useState<Card[]>([]);
+  const [reviewedCount, setReviewedCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const userId = user?.id ?? null;
+
+  useEffect(() => {
+    if (!userId) return;
+    let mounted = true;
+
+    Promise.all([getAllCards(), repository.getSchedules()])
+      .then(([loadedCards, loadedSchedules]) => {
+        if (!mounted) return;
+        setCards(loadedCards);
+        setSchedules(loadedSchedules);
+        setQueue(buildReviewQueue(loadedCards, loadedSchedules, startScope));
+      })
+      .catch(err => {
+        if (mounted) setError(err instanceof Error ? err.message : 'Failed to load review queue');
+      })
+      .finally(() => {
+        if (mounted) setLoading(false);
+      });
+
+    return () => {
+      mounted = false;
+    };
+  }, [userId, repository, startScope]);
+
+  /**
+   * Change which cards are reviewed, starting the queue over
+   */
+  const setScope = (next: ReviewScope) => {
+    setScopeState(next);
+    setQueue(buildReviewQueue(cards, schedules, next));
+  };
+
+  /**
+   * Record how well the current card was recalled and move on to the next one
+   * @throws Error if the schedule could not be saved; the card stays current so it can be graded again
+   */
+  const grade = async (value: ReviewGrade) => {
+    const current = queue[0];
+    if (!current || saving) return;
+
+    const schedule = scheduleReview(current.id, schedules[current.id], value);
+    setSaving(true);
+    setError(null);
+    try {
+      await repository.saveSchedule(schedule);
+      setSchedules(prev => ({ ...prev, [current.id]: schedule }));
+      setQueue(prev => (value < 3 ? [...prev.slice(1), current] : prev.slice(1)));
+      setReviewedCount(count => count + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save review');
+      throw err;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return {
+    current: queue[0] ?? null,
+    remaining: queue.length,
+    reviewedCount,
+    schedules,
+    scope,
+    setScope,
+    grade,
+    loading: !!userId && loading,
+    saving,
+    error,
+  };
+}
@@ -0,0 +1,15 @@
+import { useEffect, useState } from 'react';
+
+import { loadTestSummaries, subscribeToTestSummaries, type TestSummaries } from '../services/testSummaries';
+
+/**
+ * Custom hook for the last test run of each card on this device, kept up to date as tests run
+ * @returns Summaries by card id
+ */
+export function useTestSummaries(): TestSummaries {
+  const [summaries, setSummaries] = useState<TestSummaries>(loadTestSummaries);
+
+  useEffect(() => subscribeToTestSummaries(setSummaries), []);
+
+  return summaries;
+}
@@ -0,0 +1,47 @@
+import type { User } from '@supabase/supabase-js';
+
+import { getSupabase, isSupabaseConfigured } from './supabase';
+
+/**
+ * Stand-in user for running without Supabase, so cards can still be edited locally
+ */
+export const LOCAL_USER: User = {
+  id: 'local',
+  aud: 'local',
+  email: 'local@toolbox',
+  // The cards on this device are the user's own to fix
+  app_metadata: { role: 'admin' },
+  user_metadata: { full_name: 'Local User' },
+  created_at: new Date(0).toISOString(),
+};
+
+/**
+ * Get the signed-in user outside of React
+ * @returns The session user, the local user when Supabase is not configured, or null if signed out
+ */
+export async function getCurrentUser(): Promise<User | null> {
+  if (!isSupabaseConfigured) {
+    return LOCAL_USER;
+  }
+  const { data: { session } } = await getSupabase().auth.getSession();
+  return session?.user ?? null;
+}
+
+/**
+ * Name to show for a user
+ * @param user - User to describe
+ * @returns Full name, falling back to email
+ */
+export function getUserDisplayName(user: User): string {
+  return user.user_metadata?.full_name || user.email || 'Unknown';
+}
+
+/**
+ * Check whether a user may see and repair invalid card rows. The role is read from the
+ * user's app metadata, which only the server can set.
+ * @param user - User to check
+ * @returns True for users with the admin role
+ */
+export function isAdmin(user: User | null): boolean {
+  return user?.app_metadata?.role === 'admin';
+}
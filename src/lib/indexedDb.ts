@@ -0,0 +1,86 @@
+const DB_NAME = 'toolbox';
+
+/**
+ * Object stores created by each schema version, applied in order on upgrade
+ */
+const MIGRATIONS: readonly ((db: IDBDatabase) => void)[] = [
+  db => {
+    db.createObjectStore('cards', { keyPath: 'id' });
+  },
+  db => {
+    db.createObjectStore('outbox', { keyPath: 'seq', autoIncrement: true });
+  },
+  db => {
+    db.createObjectStore('revisions', { keyPath: 'id' }).createIndex('card_id', 'card_id');
+  },
+  db => {
+    db.createObjectStore('problemProgress', { keyPath: 'key' });
+  },
+  db => {
+    db.createObjectStore('reviews', { keyPath: 'card_id' });
+  },
+];
+
+const DB_VERSION = MIGRATIONS.length;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open the toolbox IndexedDB database, upgrading its schema if needed
+ * @returns Promise resolving to the shared database connection
+ * @throws Error if IndexedDB is unavailable or the database cannot be opened
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) {
+    return dbPromise;
+  }
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this environment'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      for (let version = event.oldVersion; version < MIGRATIONS.length; version++) {
+        MIGRATIONS[version](db);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('Failed to open IndexedDB'));
+  });
+
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+}
+
+/**
+ * Wrap an IDBRequest in a promise
+ * @param request - Request to wait for
+ * @returns Promise resolving to the request result
+ */
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+  });
+}
+
+/**
+ * Wait for a transaction to commit
+ * @param transaction - Transaction to wait for
+ * @returns Promise resolving once the transaction completes
+ */
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error ?? new Error('IndexedDB transaction failed'));
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+  });
+}
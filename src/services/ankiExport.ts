@@ -0,0 +1,196 @@
+import type { Card } from '../types/card';
+import { CARD_FIELDS, type CardField } from '../utils/cardFields';
+import { LANGUAGES, formatClassification, formatLanguage } from '../utils/constants';
+import { formatProblem, problemUrl } from '../utils/problems';
+
+/**
+ * Which side of the flashcard a field goes on
+ */
+export type AnkiSide = 'front' | 'back' | 'omit';
+
+/**
+ * Card fields that can be placed on a flashcard. Tags become Anki tags instead,
+ * links to other cards are left out since the linked cards may not be exported with them,
+ * and test cases and input sets are left out since they are for running code, not recalling it.
+ */
+export type AnkiField = Exclude<CardField, 'tags' | 'links' | 'testCases' | 'inputSets'>;
+
+export type AnkiTemplate = Record<AnkiField, AnkiSide>;
+
+export const ANKI_FIELDS = CARD_FIELDS.filter((field): field is AnkiField =>
+  field !== 'tags' && field !== 'links' && field !== 'testCases' && field !== 'inputSets'
+);
+
+export const DEFAULT_ANKI_TEMPLATE: AnkiTemplate = {
+  title: 'front',
+  classification: 'front',
+  difficulty: 'front',
+  language: 'omit',
+  code: 'back',
+  implementations: 'omit',
+  variants: 'omit',
+  explanation: 'back',
+  timeComplexity: 'back',
+  spaceComplexity: 'back',
+  methods: 'back',
+  useCases: 'omit',
+  relatedProblems: 'omit',
+  dateAdded: 'omit',
+} as const;
+
+const TEMPLATE_STORAGE_KEY = 'toolbox-anki-template';
+
+/**
+ * Load the template last used on this device
+ * @returns Saved template, with defaults for any field it does not mention
+ */
+export function loadAnkiTemplate(): AnkiTemplate {
+  try {
+    const saved = JSON.parse(localStorage.getItem(TEMPLATE_STORAGE_KEY) ?? '{}');
+    return { ...DEFAULT_ANKI_TEMPLATE, ...saved };
+  } catch {
+    return DEFAULT_ANKI_TEMPLATE;
+  }
+}
+
+/**
+ * Remember a template for the next export on this device
+ */
+export function saveAnkiTemplate(template: AnkiTemplate): void {
+  try {
+    localStorage.setItem(TEMPLATE_STORAGE_KEY, JSON.stringify(template));
+  } catch (error) {
+    // Storage can be full or disabled; the template just won't be remembered
+    console.error('Error saving Anki template:', error);
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function list(items: string[]): string {
+  return `<ul>${items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`;
+}
+
+/**
+ * Render one card field as HTML for a flashcard side
+ * @returns HTML, or an empty string when the card has no value for the field
+ */
+function renderField(card: Card, field: AnkiField): string {
+  switch (field) {
+    case 'title':
+      return `<h2>${escapeHtml(card.title)}</h2>`;
+    case 'classification':
+      return `<div>${escapeHtml(formatClassification(card.classification))}</div>`;
+    case 'difficulty':
+      return card.difficulty ? `<div>Difficulty: ${escapeHtml(card.difficulty)}</div>` : '';
+    case 'language':
+      return card.language ? `<div>Language: ${escapeHtml(formatLanguage(card.language))}</div>` : '';
+    case 'code':
+      return card.code.trim() ? `<pre><code>${escapeHtml(card.code)}</code></pre>` : '';
+    case 'implementations':
+      return LANGUAGES
+        .filter(language => card.implementations?.[language] !== undefined)
+        .map(language => `<div>${escapeHtml(formatLanguage(language))}</div><pre><code>${escapeHtml(card.implementations?.[language] ?? '')}</code></pre>`)
+        .join('');
+    case 'variants':
+      return (card.variants ?? [])
+        .map(v => {
+          const complexity = [v.timeComplexity && `Time: ${v.timeComplexity}`, v.spaceComplexity && `Space: ${v.spaceComplexity}`]
+            .filter(Boolean)
+            .join(', ');
+          return `<div>${escapeHtml(v.name)} (${escapeHtml(formatLanguage(v.language))})${complexity ? ` &middot; ${escapeHtml(complexity)}` : ''}</div>`
+            + `<pre><code>${escapeHtml(v.code)}</code></pre>`;
+        })
+        .join('');
+    case 'explanation':
+      return card.explanation.trim() ? `<div>${escapeHtml(card.explanation)}</div>` : '';
+    case 'timeComplexity':
+      return card.timeComplexity ? `<div>Time: ${escapeHtml(card.timeComplexity)}</div>` : '';
+    case 'spaceComplexity':
+      return card.spaceComplexity ? `<div>Space: ${escapeHtml(card.spaceComplexity)}</div>` : '';
+    case 'methods':
+      return card.methods && card.methods.length > 0
+        ? `<table><tr><th>Method</th><th>Time</th></tr>${card.methods
+          .map(m => `<tr><td>${escapeHtml(m.name)}</td><td>${escapeHtml(m.timeComplexity)}</td></tr>`)
+          .join('')}</table>`
+        : '';
+    case 'useCases':
+      return card.useCases && card.useCases.length > 0 ? `<div>Use cases:</div>${list(card.useCases)}` : '';
+    case 'relatedProblems':
+      return card.relatedProblems && card.relatedProblems.length > 0
+        ? `<div>Related problems:</div><ul>${card.relatedProblems
+          .map(p => {
+            // Only http and https links are linked; any other URL is shown as text
+            const url = problemUrl(p);
+            const name = url
+              ? `<a href="${escapeHtml(url)}">${escapeHtml(formatProblem(p))}</a>`
+              : escapeHtml(formatProblem(p) || p.url || '');
+            return `<li>${name}${p.difficulty ? ` (${escapeHtml(p.difficulty)})` : ''}</li>`;
+          })
+          .join('')}</ul>`
+        : '';
+    case 'dateAdded':
+      return card.dateAdded ? `<div>Added ${escapeHtml(new Date(card.dateAdded).toLocaleDateString())}</div>` : '';
+    default:
+      return '';
+  }
+}
+
+/**
+ * Render the fields assigned to one side of the flashcard
+ */
+export function renderAnkiSide(card: Card, template: AnkiTemplate, side: Exclude<AnkiSide, 'omit'>): string {
+  return ANKI_FIELDS
+    .filter(field => template[field] === side)
+    .map(field => renderField(card, field))
+    .filter(Boolean)
+    .join('');
+}
+
+/**
+ * Make HTML safe for a tab-separated field: tabs and newlines would start a new field or note
+ */
+function toTsvField(html: string): string {
+  return html.replace(/\t/g, '&#9;').replace(/\r?\n/g, '<br>');
+}
+
+/**
+ * Anki tags are separated by spaces, so spaces inside a tag become underscores
+ */
+function toAnkiTag(tag: string): string {
+  return tag.trim().replace(/\s+/g, '_');
+}
+
+/**
+ * Build a tab-separated notes file that Anki (2.1.55+) imports with File > Import.
+ * The card id is used as the note GUID, so importing an updated export again
+ * updates the existing notes instead of duplicating them.
+ * @param cards - Cards to turn into notes
+ * @param template - Which fields go on the front and back
+ * @param deckName - Deck the notes are imported into
+ * @returns Notes file contents
+ */
+export function exportCardsToAnki(cards: Card[], template: AnkiTemplate, deckName: string): Blob {
+  const header = [
+    '#separator:tab',
+    '#html:true',
+    '#notetype:Basic',
+    `#deck:${deckName.replace(/[\t\r\n]/g, ' ')}`,
+    '#guid column:1',
+    '#tags column:4',
+  ];
+  const notes = cards.map(card => [
+    card.id,
+    toTsvField(renderAnkiSide(card, template, 'front')),
+    toTsvField(renderAnkiSide(card, template, 'back')),
+    card.tags.map(toAnkiTag).filter(Boolean).join(' '),
+  ].join('\t'));
+
+  return new Blob([[...header, ...notes].join('\n') + '\n'], { type: 'text/tab-separated-values' });
+}
@@ -0,0 +1,36 @@
+import type { Card } from '../types/card';
+
+/**
+ * Thrown when an update was based on an outdated version of a card
+ */
+export class CardConflictError extends Error {
+  /** The card as currently stored */
+  readonly theirs: Card;
+
+  constructor(theirs: Card) {
+    super(`"${theirs.title}" was changed by someone else since you started editing`);
+    this.name = 'CardConflictError';
+    this.theirs = theirs;
+  }
+}
+
+/**
+ * A problem with one column of a stored or submitted card
+ */
+export interface CardValidationIssue {
+  column: string;
+  message: string;
+}
+
+/**
+ * Thrown when a card would be written with values the app cannot display
+ */
+export class CardValidationError extends Error {
+  readonly issues: CardValidationIssue[];
+
+  constructor(issues: CardValidationIssue[]) {
+    super(`Invalid card: ${issues.map(issue => `${issue.column} ${issue.message}`).join('; ')}`);
+    this.name = 'CardValidationError';
+    this.issues = issues;
+  }
+}
@@ -0,0 +1,402 @@
+import type { Card, CardLink, CardRevision, CodeVariant, RelatedProblem, TestCase, TrashedCard } from '../types/card';
+import { getChangedFields } from '../utils/cardFields';
+import { complexityRank } from '../utils/complexity';
+import { problemFromText } from '../utils/problems';
+
+/**
+ * Database schema type (snake_case)
+ */
+export interface DatabaseCard {
+  id: string;
+  title: string;
+  classification: string;
+  difficulty: string | null;
+  code: string;
+  explanation: string;
+  time_complexity: string | null;
+  time_complexity_rank: number | null; // Derived from time_complexity, for sorting and filtering by growth
+  space_complexity: string | null;
+  methods: { name: string; time_complexity: string }[] | null;
+  tags: string[];
+  use_cases: string[] | null;
+  related_problems: (DatabaseRelatedProblem | string)[] | null; // Plain strings were saved before problems were structured
+  date_added: string | null;
+  language: string | null;
+  implementations: Record<string, string> | null;
+  variants: DatabaseVariant[] | null;
+  links: DatabaseCardLink[] | null;
+  test_cases: DatabaseTestCase[] | null;
+  input_sets: DatabaseInputSet[] | null;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+/**
+ * Database shape of a named code variant
+ */
+export interface DatabaseVariant {
+  name: string;
+  language: string;
+  code: string;
+  time_complexity: string | null;
+  space_complexity: string | null;
+}
+
+/**
+ * Database shape of a link to another card
+ */
+export interface DatabaseCardLink {
+  type: string;
+  target_id: string;
+}
+
+/**
+ * Database shape of a test case
+ */
+export interface DatabaseTestCase {
+  name: string | null;
+  mode: string;
+  input: string;
+  function_name: string | null;
+  expected: string;
+  comparator: string | null;
+  tolerance: number | null;
+}
+
+/**
+ * Database shape of a named program input
+ */
+export interface DatabaseInputSet {
+  name: string;
+  stdin: string;
+  args: string[] | null;
+}
+
+/**
+ * Database shape of a related problem
+ */
+export interface DatabaseRelatedProblem {
+  platform: string;
+  number: string | null;
+  title: string;
+  url: string | null;
+  difficulty: string | null;
+  notes: string | null;
+}
+
+/**
+ * Writable columns of a database card
+ */
+export type DatabaseCardInput = Omit<DatabaseCard, 'id' | 'created_at' | 'updated_at' | 'deleted_at'>;
+
+/**
+ * Database schema type for card revisions
+ */
+export interface DatabaseRevision {
+  id: string;
+  card_id: string;
+  kind: string;
+  snapshot: DatabaseCardInput;
+  changed_fields: string[];
+  author_id: string | null;
+  author_name: string | null;
+  created_at: string;
+}
+
+export type DatabaseRevisionInput = Omit<DatabaseRevision, 'id'>;
+
+/**
+ * Transform database card columns to Card fields
+ */
+export function dbToCardContent(dbCard: DatabaseCardInput): Omit<Card, 'id'> {
+  return {
+    title: dbCard.title,
+    classification: dbCard.classification as Card['classification'],
+    difficulty: (dbCard.difficulty as Card['difficulty']) || undefined,
+    code: dbCard.code,
+    explanation: dbCard.explanation,
+    timeComplexity: dbCard.time_complexity || undefined,
+    spaceComplexity: dbCard.space_complexity || undefined,
+    methods: dbCard.methods
+      ? dbCard.methods.map(m => ({ name: m.name, timeComplexity: m.time_complexity }))
+      : undefined,
+    tags: dbCard.tags,
+    useCases: dbCard.use_cases || undefined,
+    relatedProblems: dbCard.related_problems
+      ? dbCard.related_problems.map(p => typeof p === 'string'
+        ? problemFromText(p)
+        : {
+          platform: p.platform as RelatedProblem['platform'],
+          number: p.number || undefined,
+          title: p.title,
+          url: p.url || undefined,
+          difficulty: (p.difficulty as RelatedProblem['difficulty']) || undefined,
+          notes: p.notes || undefined,
+        })
+      : undefined,
+    dateAdded: dbCard.date_added || undefined,
+    language: (dbCard.language as Card['language']) || undefined,
+    implementations: (dbCard.implementations as Card['implementations']) || undefined,
+    variants: dbCard.variants
+      ? dbCard.variants.map(v => ({
+        name: v.name,
+        language: v.language as CodeVariant['language'],
+        code: v.code,
+        timeComplexity: v.time_complexity || undefined,
+        spaceComplexity: v.space_complexity || undefined,
+      }))
+      : undefined,
+    links: dbCard.links
+      ? dbCard.links.map(l => ({ type: l.type as CardLink['type'], targetId: l.target_id }))
+      : undefined,
+    testCases: dbCard.test_cases
+      ? dbCard.test_cases.map(t => ({
+        name: t.name || undefined,
+        mode: t.mode as TestCase['mode'],
+        input: t.input,
+        functionName: t.function_name || undefined,
+        expected: t.expected,
+        comparator: (t.comparator as TestCase['comparator']) || undefined,
+        tolerance: t.tolerance ?? undefined,
+      }))
+      : undefined,
+    inputSets: dbCard.input_sets
+      ? dbCard.input_sets.map(s => ({ name: s.name, stdin: s.stdin, args: s.args || undefined }))
+      : undefined,
+  };
+}
+
+/**
+ * Transform database card to Card interface
+ */
+export function dbToCard(dbCard: DatabaseCard): Card {
+  return {
+    id: dbCard.id,
+    ...dbToCardContent(dbCard),
+    updatedAt: dbCard.updated_at,
+  };
+}
+
+/**
+ * Transform a trashed database card to TrashedCard interface
+ */
+export function dbToTrashedCard(dbCard: DatabaseCard & { deleted_at: string }): TrashedCard {
+  return {
+    ...dbToCard(dbCard),
+    deletedAt: dbCard.deleted_at,
+  };
+}
+
+/**
+ * Transform database revision to CardRevision interface
+ */
+export function dbToRevision(dbRevision: DatabaseRevision): CardRevision {
+  return {
+    id: dbRevision.id,
+    cardId: dbRevision.card_id,
+    kind: dbRevision.kind as CardRevision['kind'],
+    snapshot: dbToCardContent(dbRevision.snapshot),
+    changedFields: dbRevision.changed_fields,
+    authorId: dbRevision.author_id || undefined,
+    authorName: dbRevision.author_name || undefined,
+    createdAt: dbRevision.created_at,
+  };
+}
+
+// An empty set of other implementations is stored as null, like the other optional columns
+function implementationsToDb(implementations: Card['implementations']): Record<string, string> | null {
+  return implementations && Object.keys(implementations).length > 0 ? { ...implementations } : null;
+}
+
+function variantsToDb(variants: Card['variants']): DatabaseVariant[] | null {
+  return variants && variants.length > 0
+    ? variants.map(v => ({
+      name: v.name,
+      language: v.language,
+      code: v.code,
+      time_complexity: v.timeComplexity || null,
+      space_complexity: v.spaceComplexity || null,
+    }))
+    : null;
+}
+
+function relatedProblemsToDb(problems: Card['relatedProblems']): DatabaseRelatedProblem[] | null {
+  return problems
+    ? problems.map(p => ({
+      platform: p.platform,
+      number: p.number || null,
+      title: p.title,
+      url: p.url || null,
+      difficulty: p.difficulty || null,
+      notes: p.notes || null,
+    }))
+    : null;
+}
+
+function linksToDb(links: Card['links']): DatabaseCardLink[] | null {
+  return links && links.length > 0 ? links.map(l => ({ type: l.type, target_id: l.targetId })) : null;
+}
+
+function testCasesToDb(testCases: Card['testCases']): DatabaseTestCase[] | null {
+  return testCases && testCases.length > 0
+    ? testCases.map(t => ({
+      name: t.name || null,
+      mode: t.mode,
+      input: t.input,
+      function_name: t.functionName || null,
+      expected: t.expected,
+      comparator: t.comparator || null,
+      tolerance: t.tolerance ?? null,
+    }))
+    : null;
+}
+
+function inputSetsToDb(inputSets: Card['inputSets']): DatabaseInputSet[] | null {
+  return inputSets && inputSets.length > 0
+    ? inputSets.map(s => ({ name: s.name, stdin: s.stdin, args: s.args && s.args.length > 0 ? s.args : null }))
+    : null;
+}
+
+/**
+ * Transform Card interface to database format
+ */
+export function cardToDb(card: Omit<Card, 'id'> & { id?: string }): DatabaseCardInput {
+  return {
+    title: card.title,
+    classification: card.classification,
+    difficulty: card.difficulty || null,
+    code: card.code,
+    explanation: card.explanation,
+    time_complexity: card.timeComplexity || null,
+    time_complexity_rank: complexityRank(card.timeComplexity),
+    space_complexity: card.spaceComplexity || null,
+    methods: card.methods
+      ? card.methods.map(m => ({ name: m.name, time_complexity: m.timeComplexity }))
+      : null,
+    tags: card.tags,
+    use_cases: card.useCases || null,
+    related_problems: relatedProblemsToDb(card.relatedProblems),
+    date_added: card.dateAdded || null,
+    language: card.language || null,
+    implementations: implementationsToDb(card.implementations),
+    variants: variantsToDb(card.variants),
+    links: linksToDb(card.links),
+    test_cases: testCasesToDb(card.testCases),
+    input_sets: inputSetsToDb(card.inputSets),
+  };
+}
+
+/**
+ * Transform a partial Card update to the changed database columns
+ */
+export function updatesToDb(updates: Partial<Omit<Card, 'id'>>): Partial<DatabaseCardInput> {
+  const updateData: Partial<DatabaseCardInput> = {};
+
+  if (updates.title !== undefined) updateData.title = updates.title;
+  if (updates.classification !== undefined) updateData.classification = updates.classification;
+  if (updates.difficulty !== undefined) updateData.difficulty = updates.difficulty || null;
+  if (updates.code !== undefined) updateData.code = updates.code;
+  if (updates.explanation !== undefined) updateData.explanation = updates.explanation;
+  if (updates.timeComplexity !== undefined) {
+    updateData.time_complexity = updates.timeComplexity || null;
+    updateData.time_complexity_rank = complexityRank(updates.timeComplexity);
+  }
+  if (updates.spaceComplexity !== undefined) updateData.space_complexity = updates.spaceComplexity || null;
+  if (updates.methods !== undefined) {
+    updateData.methods = updates.methods
+      ? updates.methods.map(m => ({ name: m.name, time_complexity: m.timeComplexity }))
+      : null;
+  }
+  if (updates.tags !== undefined) updateData.tags = updates.tags;
+  if (updates.useCases !== undefined) updateData.use_cases = updates.useCases || null;
+  if (updates.relatedProblems !== undefined) updateData.related_problems = relatedProblemsToDb(updates.relatedProblems);
+  if (updates.dateAdded !== undefined) updateData.date_added = updates.dateAdded || null;
+  if (updates.language !== undefined) updateData.language = updates.language || null;
+  if (updates.implementations !== undefined) updateData.implementations = implementationsToDb(updates.implementations);
+  if (updates.variants !== undefined) updateData.variants = variantsToDb(updates.variants);
+  if (updates.links !== undefined) updateData.links = linksToDb(updates.links);
+  if (updates.testCases !== undefined) updateData.test_cases = testCasesToDb(updates.testCases);
+  if (updates.inputSets !== undefined) updateData.input_sets = inputSetsToDb(updates.inputSets);
+
+  return updateData;
+}
+
+/**
+ * Recompute the columns derived from others, for writes that set columns directly
+ */
+export function withDerivedColumns<T extends Partial<DatabaseCardInput>>(columns: T): T {
+  return 'time_complexity' in columns
+    ? { ...columns, time_complexity_rank: complexityRank(columns.time_complexity) }
+    : columns;
+}
+
+/**
+ * Strip the row metadata from a database card, leaving its content
+ */
+export function snapshotOf(row: DatabaseCard): DatabaseCardInput {
+  return {
+    title: row.title,
+    classification: row.classification,
+    difficulty: row.difficulty,
+    code: row.code,
+    explanation: row.explanation,
+    time_complexity: row.time_complexity,
+    time_complexity_rank: row.time_complexity_rank,
+    space_complexity: row.space_complexity,
+    methods: row.methods,
+    tags: row.tags,
+    use_cases: row.use_cases,
+    related_problems: row.related_problems,
+    date_added: row.date_added,
+    language: row.language,
+    implementations: row.implementations,
+    variants: row.variants,
+    links: row.links,
+    test_cases: row.test_cases,
+    input_sets: row.input_sets,
+  };
+}
+
+/**
+ * Build the revision row to record for a write
+ * @param before - Row before the write, or null for a create
+ * @param after - Row after the write
+ * @param author - Who made the change
+ * @returns The revision row. With Supabase the database replaces its author and time
+ *   with the signed-in user and its own clock.
+ */
+export function buildRevisionRow(
+  before: DatabaseCard | null,
+  after: DatabaseCard,
+  author: { id: string | null; name: string | null }
+): DatabaseRevisionInput {
+  return {
+    card_id: after.id,
+    kind: before ? 'update' : 'create',
+    snapshot: snapshotOf(after),
+    changed_fields: getChangedFields(before ? dbToCardContent(before) : {}, dbToCardContent(after)),
+    author_id: author.id,
+    author_name: author.name,
+    created_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Build the baseline revision of a card without history: its content before its first
+ * recorded edit, so that edit can always be undone. With Supabase the database records
+ * baselines itself.
+ * @param before - Row before the edit
+ * @returns The baseline revision row
+ */
+export function buildBaselineRow(before: DatabaseCard): DatabaseRevisionInput {
+  return {
+    card_id: before.id,
+    kind: 'baseline',
+    snapshot: snapshotOf(before),
+    changed_fields: [],
+    author_id: null,
+    author_name: null,
+    created_at: before.updated_at,
+  };
+}
@@ -0,0 +1,456 @@
+import { openDatabase, requestToPromise, transactionDone } from '../lib/indexedDb';
+import type { Card } from '../types/card';
+import { getCardRepository, type CardUpdates, type NewCard } from './cardRepository';
+import { CardConflictError } from './cardErrors';
+
+const STORE = 'outbox';
+const SYNC_INTERVAL_MS = 30_000;
+
+export type CardSyncStatus = 'pending' | 'synced' | 'failed';
+
+/**
+ * A card mutation waiting to be replayed against the backend
+ */
+export type OutboxMutation =
+  | { type: 'create'; cardId: string; card: NewCard; dateAdded: string }
+  | { type: 'update'; cardId: string; updates: CardUpdates; expectedVersion?: string }
+  | { type: 'delete'; cardId: string };
+
+type QueuedMutation = OutboxMutation & {
+  status: 'pending' | 'failed';
+  error?: string;
+  conflict?: boolean; // Failed because someone else changed the card first
+  queuedAt: string;
+};
+
+export type OutboxEntry = QueuedMutation & { seq: number };
+
+/**
+ * Outbox notifications: the entry list changed, or a mutation reached the
+ * backend (card is null for deletes)
+ */
+export type OutboxEvent =
+  | { type: 'changed'; entries: OutboxEntry[] }
+  | { type: 'synced'; cardId: string; card: Card | null };
+
+type OutboxListener = (event: OutboxEvent) => void;
+
+const listeners = new Set<OutboxListener>();
+// Cards whose queued changes reached the backend during this session
+const syncedCardIds = new Set<string>();
+let entriesCache: OutboxEntry[] = [];
+let flushPromise: Promise<void> | null = null;
+let flushRequested = false;
+let inFlightSeq: number | null = null;
+// Errors from the last replay of each entry, kept so callers can inspect e.g. a CardConflictError
+const replayErrors = new Map<number, unknown>();
+let backgroundSyncStarted = false;
+
+/**
+ * Whether an error means the backend could not be reached, as opposed to the
+ * backend rejecting the mutation
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) {
+    return true;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return /failed to fetch|networkerror|network request failed|load failed|fetch failed/i.test(message);
+}
+
+function emit(event: OutboxEvent) {
+  listeners.forEach(listener => listener(event));
+}
+
+async function readEntries(): Promise<OutboxEntry[]> {
+  const db = await openDatabase();
+  return requestToPromise<OutboxEntry[]>(
+    db.transaction(STORE, 'readonly').objectStore(STORE).getAll()
+  );
+}
+
+async function writeEntries(put: OutboxEntry[], remove: number[]): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE, 'readwrite');
+  const store = transaction.objectStore(STORE);
+  remove.forEach(seq => store.delete(seq));
+  put.forEach(entry => store.put(entry));
+  await transactionDone(transaction);
+}
+
+/**
+ * Read the entries and write changes back in one readwrite transaction. IndexedDB runs
+ * such transactions one at a time, across tabs too, so nothing queued in between can be
+ * overwritten or lost.
+ * @param change - Issues puts and deletes on the store; it must not wait on anything else
+ * @returns What change returned, once the transaction has committed
+ */
+async function changeEntries<T>(change: (entries: OutboxEntry[], store: IDBObjectStore) => T): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE, 'readwrite');
+  const store = transaction.objectStore(STORE);
+  const result = change(await requestToPromise<OutboxEntry[]>(store.getAll()), store);
+  await transactionDone(transaction);
+  return result;
+}
+
+async function refreshEntries(): Promise<OutboxEntry[]> {
+  entriesCache = await readEntries();
+  emit({ type: 'changed', entries: entriesCache });
+  return entriesCache;
+}
+
+/**
+ * Add a mutation to the outbox, folding it into any queued mutation for the
+ * same card so each card has at most one entry to replay
+ */
+async function enqueue(mutation: OutboxMutation): Promise<number | null> {
+  const seqRequest = await changeEntries((entries, store) => {
+    const existing = entries.find(entry => entry.cardId === mutation.cardId);
+    const next = foldMutation(existing, mutation);
+    if (!next) {
+      store.delete(existing!.seq);
+      return null;
+    }
+    return store.put(existing ? { ...next, seq: existing.seq } : next);
+  });
+
+  if (seqRequest) {
+    syncedCardIds.delete(mutation.cardId);
+  }
+  await refreshEntries();
+  return seqRequest ? seqRequest.result as number : null;
+}
+
+/**
+ * The entry to queue for a mutation, given the card's queued entry if it has one
+ * @returns The entry, or null if the mutation cancels the queued one out
+ */
+function foldMutation(existing: OutboxEntry | undefined, mutation: OutboxMutation): QueuedMutation | null {
+  const queuedAt = new Date().toISOString();
+
+  let next: QueuedMutation | null;
+  if (!existing) {
+    next = { ...mutation, status: 'pending', queuedAt };
+  } else if (mutation.type === 'delete') {
+    // Deleting a card the backend has never seen cancels the create entirely,
+    // unless that create is being sent right now
+    next = existing.type === 'create' && existing.seq !== inFlightSeq
+      ? null
+      : { ...mutation, status: 'pending', queuedAt };
+  } else if (mutation.type === 'update' && existing.type === 'create') {
+    next = { ...existing, card: { ...existing.card, ...mutation.updates }, status: 'pending', error: undefined, queuedAt };
+  } else if (mutation.type === 'update' && existing.type === 'update') {
+    // Queued edits keep the version the first one started from. After a rejection the
+    // new edit was made against what the user can see now, so its version applies.
+    next = {
+      ...existing,
+      updates: { ...existing.updates, ...mutation.updates },
+      expectedVersion: existing.status === 'failed' ? mutation.expectedVersion : existing.expectedVersion,
+      status: 'pending',
+      error: undefined,
+      conflict: undefined,
+      queuedAt,
+    };
+  } else {
+    next = { ...mutation, status: 'pending', queuedAt };
+  }
+  return next;
+}
+
+async function replay(entry: OutboxEntry): Promise<Card | null> {
+  const repository = getCardRepository();
+  switch (entry.type) {
+    case 'create':
+      return repository.create({ ...entry.card }, entry.cardId, entry.dateAdded);
+    case 'update':
+      return repository.update(entry.cardId, entry.updates, entry.expectedVersion);
+    case 'delete':
+      await repository.delete(entry.cardId);
+      return null;
+  }
+}
+
+async function runFlush(): Promise<void> {
+  const entries = (await readEntries()).filter(entry => entry.status === 'pending');
+  const blockedCards = new Set<string>();
+
+  for (const entry of entries) {
+    if (blockedCards.has(entry.cardId)) {
+      continue;
+    }
+
+    inFlightSeq = entry.seq;
+    try {
+      const card = await replay(entry);
+      // The entry may have been folded into a newer mutation while it was in flight;
+      // keep that one queued rather than dropping it
+      const removed = await changeEntries((current, store) => {
+        if (!isUnchanged(current, entry)) return false;
+        store.delete(entry.seq);
+        return true;
+      });
+      if (removed) {
+        replayErrors.delete(entry.seq);
+        syncedCardIds.add(entry.cardId);
+      }
+      emit({ type: 'synced', cardId: entry.cardId, card });
+    } catch (error) {
+      if (isNetworkError(error)) {
+        // Still offline: leave this and later entries queued for the next attempt
+        break;
+      }
+      console.error('Error syncing queued card change:', error);
+      blockedCards.add(entry.cardId);
+      const marked = await changeEntries((current, store) => {
+        if (!isUnchanged(current, entry)) return false;
+        store.put({
+          ...entry,
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Failed to sync change',
+          conflict: error instanceof CardConflictError,
+        });
+        return true;
+      });
+      if (marked) {
+        replayErrors.set(entry.seq, error);
+      }
+    } finally {
+      inFlightSeq = null;
+    }
+  }
+
+  await refreshEntries();
+}
+
+function isUnchanged(entries: OutboxEntry[], entry: OutboxEntry): boolean {
+  return entries.find(current => current.seq === entry.seq)?.queuedAt === entry.queuedAt;
+}
+
+/**
+ * Replay pending mutations against the backend, in the order they were queued
+ * @returns Promise resolving once the attempt finishes (whether or not it synced everything)
+ */
+export function flushOutbox(): Promise<void> {
+  if (flushPromise) {
+    flushRequested = true;
+    return flushPromise;
+  }
+
+  flushPromise = runFlush()
+    .catch(error => {
+      console.error('Error flushing card outbox:', error);
+    })
+    .finally(() => {
+      flushPromise = null;
+      if (flushRequested) {
+        flushRequested = false;
+        void flushOutbox();
+      }
+    });
+
+  return flushPromise;
+}
+
+/**
+ * Queue a mutation and try to sync it right away
+ * @returns 'synced' if it reached the backend, 'pending' if it is waiting for connectivity
+ * @throws Error if the backend rejected the mutation (it is dropped from the outbox)
+ */
+async function submit(mutation: OutboxMutation): Promise<{ status: 'synced' | 'pending'; card: Card | null }> {
+  let syncedCard: Card | null = null;
+  const listener: OutboxListener = (event) => {
+    if (event.type === 'synced' && event.cardId === mutation.cardId) {
+      syncedCard = event.card;
+    }
+  };
+
+  listeners.add(listener);
+  let seq: number | null;
+  try {
+    seq = await enqueue(mutation);
+    if (seq === null) {
+      return { status: 'synced', card: null };
+    }
+    await flushOutbox();
+    // A flush already in progress may have skipped the new entry; run once more
+    if (entriesCache.some(entry => entry.seq === seq && entry.status === 'pending') && navigator.onLine) {
+      await flushOutbox();
+    }
+  } finally {
+    listeners.delete(listener);
+  }
+
+  const entry = entriesCache.find(e => e.seq === seq);
+  if (!entry) {
+    return { status: 'synced', card: syncedCard };
+  }
+  if (entry.status === 'failed') {
+    const error = replayErrors.get(entry.seq) ?? new Error(entry.error);
+    replayErrors.delete(entry.seq);
+    await writeEntries([], [entry.seq]);
+    await refreshEntries();
+    throw error;
+  }
+  return { status: 'pending', card: null };
+}
+
+/**
+ * Create a card through the outbox
+ * @returns The stored card, or the optimistic local copy if it was queued
+ */
+export async function submitCreate(card: NewCard): Promise<Card> {
+  const cardId = crypto.randomUUID();
+  const dateAdded = new Date().toISOString();
+  const result = await submit({ type: 'create', cardId, card, dateAdded });
+  return result.card ?? { ...card, id: cardId, dateAdded };
+}
+
+/**
+ * Update a card through the outbox
+ * @param expectedVersion - `updatedAt` the edit started from, checked when the update is applied
+ * @returns The stored card, or null if the update was queued for background sync
+ * @throws CardConflictError if the card changed since expectedVersion
+ */
+export async function submitUpdate(cardId: string, updates: CardUpdates, expectedVersion?: string): Promise<Card | null> {
+  return (await submit({ type: 'update', cardId, updates, expectedVersion })).card;
+}
+
+/**
+ * Delete a card through the outbox
+ */
+export async function submitDelete(cardId: string): Promise<void> {
+  await submit({ type: 'delete', cardId });
+}
+
+/**
+ * Retry a failed mutation for a card
+ */
+export async function retryCardSync(cardId: string): Promise<void> {
+  await changeEntries((entries, store) => {
+    entries
+      .filter(entry => entry.cardId === cardId && entry.status === 'failed')
+      .forEach(entry => store.put({ ...entry, status: 'pending', error: undefined }));
+  });
+  await refreshEntries();
+  await flushOutbox();
+}
+
+/**
+ * Drop any queued mutation for a card, keeping the backend version
+ */
+export async function discardCardSync(cardId: string): Promise<void> {
+  await changeEntries((entries, store) => {
+    entries.filter(entry => entry.cardId === cardId).forEach(entry => store.delete(entry.seq));
+  });
+  await refreshEntries();
+}
+
+/**
+ * Cancel a delete that has not reached the backend yet
+ * @returns True if a queued delete was cancelled
+ */
+export async function cancelQueuedDelete(cardId: string): Promise<boolean> {
+  const cancelled = await changeEntries((entries, store) => {
+    const queued = entries.find(entry => entry.cardId === cardId && entry.type === 'delete' && entry.seq !== inFlightSeq);
+    if (queued) store.delete(queued.seq);
+    return Boolean(queued);
+  });
+  if (!cancelled) {
+    return false;
+  }
+  await refreshEntries();
+  return true;
+}
+
+/**
+ * Apply queued mutations on top of the backend's cards so the UI shows local edits immediately
+ * @param cards - Cards as returned by the backend
+ * @param entries - Current outbox entries
+ * @returns Cards with pending creates, updates and deletes applied
+ */
+export function applyOutbox(cards: Card[], entries: OutboxEntry[]): Card[] {
+  if (entries.length === 0) {
+    return cards;
+  }
+
+  const byCard = new Map(entries.map(entry => [entry.cardId, entry]));
+  const result: Card[] = [];
+
+  entries.forEach(entry => {
+    if (entry.type === 'create' && !cards.some(card => card.id === entry.cardId)) {
+      result.push({ ...entry.card, id: entry.cardId, dateAdded: entry.dateAdded });
+    }
+  });
+
+  cards.forEach(card => {
+    const entry = byCard.get(card.id);
+    if (!entry) {
+      result.push(card);
+    } else if (entry.type === 'update') {
+      result.push({ ...card, ...entry.updates });
+    } else if (entry.type === 'create') {
+      result.push({ ...card, ...entry.card });
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Sync status of each card that has (or had, this session) queued changes
+ */
+export function getSyncStatuses(entries: OutboxEntry[]): Record<string, CardSyncStatus> {
+  const statuses: Record<string, CardSyncStatus> = {};
+  syncedCardIds.forEach(id => {
+    statuses[id] = 'synced';
+  });
+  entries.forEach(entry => {
+    statuses[entry.cardId] = entry.status;
+  });
+  return statuses;
+}
+
+/**
+ * Current outbox entries, as of the last read
+ */
+export function getOutboxEntries(): OutboxEntry[] {
+  return entriesCache;
+}
+
+/**
+ * Listen for outbox changes
+ * @returns Function that removes the listener
+ */
+export function subscribeToOutbox(listener: OutboxListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Load the outbox and replay it now, whenever the browser comes back online,
+ * and periodically while anything is still pending. Safe to call more than once.
+ */
+export function startBackgroundSync(): void {
+  if (backgroundSyncStarted) {
+    return;
+  }
+  backgroundSyncStarted = true;
+
+  window.addEventListener('online', () => {
+    void flushOutbox();
+  });
+  window.setInterval(() => {
+    if (navigator.onLine && entriesCache.some(entry => entry.status === 'pending')) {
+      void flushOutbox();
+    }
+  }, SYNC_INTERVAL_MS);
+
+  refreshEntries()
+    .then(() => flushOutbox())
+    .catch(error => {
+      console.error('Error loading card outbox:', error);
+    });
+}
@@ -0,0 +1,134 @@
+import type { Card, CardRevision, TrashedCard } from '../types/card';
+import type { CardPage, CardQuery } from '../types/cardQuery';
+import type { DatabaseCardInput } from './cardMapper';
+import type { InvalidCardRow } from './cardValidation';
+import { isSupabaseConfigured } from '../lib/supabase';
+import { createSupabaseCardRepository } from './repositories/supabaseCardRepository';
+import { createIndexedDbCardRepository } from './repositories/indexedDbCardRepository';
+
+export type CardBackend = 'supabase' | 'indexeddb';
+
+export type NewCard = Omit<Card, 'id' | 'dateAdded'>;
+export type CardUpdates = Partial<Omit<Card, 'id'>>;
+
+/**
+ * A single change to the cards table, as delivered to subscribers. Updates and deletes
+ * carry the card as it was listed before the change when the backend knows it.
+ */
+export type CardChange =
+  | { type: 'INSERT'; card: Card }
+  | { type: 'UPDATE'; card: Card; previous?: Card }
+  | { type: 'DELETE'; id: string; previous?: Card };
+
+export type CardChangeListener = (change: CardChange) => void;
+
+/**
+ * State of the realtime connection: receiving changes, retrying after a drop, or disconnected
+ */
+export type ConnectionStatus = 'live' | 'reconnecting' | 'offline';
+
+export type ConnectionStatusListener = (status: ConnectionStatus) => void;
+
+/**
+ * Storage backend for cards
+ */
+export interface CardRepository {
+  readonly backend: CardBackend;
+  /** Fetch all cards not in the trash, newest first. Rows that fail validation are left out. */
+  getAll(): Promise<Card[]>;
+  /** Fetch one page of the cards not in the trash that match a query, plus the total match count */
+  query(query: CardQuery): Promise<CardPage>;
+  /** Fetch every distinct tag used by cards not in the trash, sorted */
+  getTags(): Promise<string[]>;
+  /** Fetch the cards with the given ids; ids of missing or trashed cards are skipped */
+  getByIds(ids: string[]): Promise<Card[]>;
+  /** Fetch the cards not in the trash that link to a card */
+  getBacklinks(cardId: string): Promise<Card[]>;
+  /**
+   * Create a card and return it as stored. Creating again with the same
+   * client-generated id is a no-op overwrite, so queued creates can be replayed.
+   * @param dateAdded - When the card was added, for creates that were queued; defaults to now
+   * @throws CardValidationError if the card has values the app cannot display
+   */
+  create(card: NewCard, id?: string, dateAdded?: string): Promise<Card>;
+  /**
+   * Update a card, record a revision, and return it as stored
+   * @param expectedVersion - `updatedAt` the edit started from; if the stored card has
+   *   moved on since, the update is rejected with a CardConflictError
+   * @throws CardValidationError if the updates have values the app cannot display
+   */
+  update(id: string, updates: CardUpdates, expectedVersion?: string): Promise<Card>;
+  /** Move a card to the trash */
+  delete(id: string): Promise<void>;
+  /** Fetch the cards in the trash, most recently deleted first */
+  getTrash(): Promise<TrashedCard[]>;
+  /** Move a card out of the trash and return it */
+  restore(id: string): Promise<Card>;
+  /**
+   * Permanently delete a card, its history and the links other cards make to it,
+   * including cards in the trash
+   */
+  purge(id: string): Promise<void>;
+  /**
+   * Permanently delete cards that have been in the trash longer than the retention period,
+   * along with the links to them. Backends with a server of their own purge expired trash
+   * there and do nothing here.
+   * @param retentionDays - Days a card stays in the trash
+   * @returns Number of cards purged
+   */
+  purgeExpiredTrash(retentionDays: number): Promise<number>;
+  /** Fetch every stored row that fails validation, with what is wrong with it */
+  getInvalid(): Promise<InvalidCardRow[]>;
+  /**
+   * Overwrite the columns of a row that failed validation. No revision is recorded,
+   * since the broken row is not a version anyone would want back.
+   * @throws CardValidationError if the new columns are still invalid
+   */
+  repair(id: string, columns: DatabaseCardInput): Promise<Card>;
+  /** Fetch the recorded revisions of a card, newest first */
+  getRevisions(cardId: string): Promise<CardRevision[]>;
+  /**
+   * Listen for changes made by any client
+   * @param onStatusChange - Called whenever the realtime connection changes state
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: CardChangeListener, onStatusChange?: ConnectionStatusListener): () => void;
+}
+
+/**
+ * Resolve the configured backend. VITE_CARD_BACKEND wins; otherwise Supabase is
+ * used when configured and the browser's IndexedDB when it is not.
+ */
+export function getConfiguredBackend(): CardBackend {
+  const configured = import.meta.env.VITE_CARD_BACKEND;
+  if (configured === 'supabase' || configured === 'indexeddb') {
+    return configured;
+  }
+  if (configured) {
+    console.warn(`Unknown VITE_CARD_BACKEND "${configured}", falling back to the default backend`);
+  }
+  return isSupabaseConfigured ? 'supabase' : 'indexeddb';
+}
+
+let repository: CardRepository | null = null;
+
+/**
+ * Get the card repository for the configured backend
+ * @returns Shared card repository
+ */
+export function getCardRepository(): CardRepository {
+  if (!repository) {
+    repository = getConfiguredBackend() === 'supabase'
+      ? createSupabaseCardRepository()
+      : createIndexedDbCardRepository();
+  }
+  return repository;
+}
+
+/**
+ * Replace the shared card repository (e.g. with an in-memory one in tests)
+ * @param next - Repository to use, or null to go back to the configured backend
+ */
+export function setCardRepository(next: CardRepository | null): void {
+  repository = next;
+}
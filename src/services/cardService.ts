@@ -1,175 +1,199 @@
-import { supabase } from '../lib/supabase';
-import type { Card } from '../types/card';
-
-/**
- * Database schema type (snake_case)
- */
-interface DatabaseCard {
-  id: string;
-  title: string;
-  classification: string;
-  difficulty: string | null;
-  code: string;
-  explanation: string;
-  time_complexity: string | null;
-  space_complexity: string | null;
-  methods: { name: string; time_complexity: string }[] | null;
-  tags: string[];
-  use_cases: string[] | null;
-  related_problems: string[] | null;
-  date_added: string | null;
-  language: string | null;
-  created_at: string;
-  updated_at: string;
-}
-
-/**
- * Transform database card to Card interface
- */
-function dbToCard(dbCard: DatabaseCard): Card {
-  return {
-    id: dbCard.id,
-    title: dbCard.title,
-    classification: dbCard.classification as Card['classification'],
-    difficulty: (dbCard.difficulty as Card['difficulty']) || undefined,
-    code: dbCard.code,
-    explanation: dbCard.explanation,
-    timeComplexity: dbCard.time_complexity || undefined,
-    spaceComplexity: dbCard.space_complexity || undefined,
-    methods: dbCard.methods
-      ? dbCard.methods.map(m => ({ name: m.name, timeComplexity: m.time_complexity }))
-      : undefined,
-    tags: dbCard.tags,
-    useCases: dbCard.use_cases || undefined,
-    relatedProblems: dbCard.related_problems || undefined,
-    dateAdded: dbCard.date_added || undefined,
-    language: (dbCard.language as Card['language']) || undefined,
-  };
-}
-
-/**
- * Transform Card interface to database format
- */
-function cardToDb(card: Omit<Card, 'id'> & { id?: string }): Omit<DatabaseCard, 'id' | 'created_at' | 'updated_at'> {
-  return {
-    title: card.title,
-    classification: card.classification,
-    difficulty: card.difficulty || null,
-    code: card.code,
-    explanation: card.explanation,
-    time_complexity: card.timeComplexity || null,
-    space_complexity: card.spaceComplexity || null,
-    methods: card.methods
-      ? card.methods.map(m => ({ name: m.name, time_complexity: m.timeComplexity }))
-      : null,
-    tags: card.tags,
-    use_cases: card.useCases || null,
-    related_problems: card.relatedProblems || null,
-    date_added: card.dateAdded || null,
-    language: card.language || null,
-  };
-}
-
-/**
- * Fetch all cards from Supabase
+import type { Card, CardRevision, TrashedCard } from '../types/card';
+import type { CardPage, CardQuery } from '../types/cardQuery';
+import { getCardRepository, type CardChangeListener } from './cardRepository';
+import { cancelQueuedDelete, submitCreate, submitDelete, submitUpdate } from './cardOutbox';
+import { TRASH_RETENTION_DAYS } from '../utils/constants';
+import { cardToDb, updatesToDb, type DatabaseCardInput } from './cardMapper';
+import { assertValidCardColumns, type InvalidCardRow } from './cardValidation';
+import { getCurrentUser, isAdmin } from '../lib/currentUser';
+
+/**
+ * Fetch all cards from the configured backend
  * @returns Promise resolving to array of cards
  * @throws Error if fetch fails
  */
 export async function getAllCards(): Promise<Card[]> {
-  const { data, error } = await supabase
-    .from('cards')
-    .select('*')
-    .order('created_at', { ascending: false });
-
-  if (error) {
-    console.error('Error fetching cards:', error);
-    throw new Error(`Failed to fetch cards: ${error.message}`);
-  }
+  return getCardRepository().getAll();
+}
+
+/**
+ * Fetch one page of cards matching the filters, sorted on the backend
+ * @param query - Filters, sort option, page number and page size
+ * @returns Promise resolving to the page's cards and the total number of matches
+ * @throws Error if the query fails
+ */
+export async function queryCards(query: CardQuery): Promise<CardPage> {
+  return getCardRepository().query(query);
+}
+
+/**
+ * Fetch every tag in use, for the tag filter
+ * @returns Promise resolving to sorted, distinct tags
+ * @throws Error if fetch fails
+ */
+export async function getAllTags(): Promise<string[]> {
+  return getCardRepository().getTags();
+}
+
+/**
+ * Fetch cards by id, e.g. the targets of a card's links
+ * @param ids - Card IDs
+ * @returns Promise resolving to the cards found; missing and trashed cards are left out
+ * @throws Error if fetch fails
+ */
+export async function getCardsByIds(ids: string[]): Promise<Card[]> {
+  return getCardRepository().getByIds(ids);
+}
 
-  return (data || []).map(dbToCard);
+/**
+ * Fetch the cards that link to a card
+ * @param cardId - Card ID
+ * @returns Promise resolving to the linking cards, sorted by title
+ * @throws Error if fetch fails
+ */
+export async function getBacklinkingCards(cardId: string): Promise<Card[]> {
+  return getCardRepository().getBacklinks(cardId);
 }
 
 /**
- * Create a new card
+ * Create a new card. While offline the card is queued in the outbox and synced later.
  * @param card - Card data (without id and dateAdded)
- * @returns Promise resolving to created card
- * @throws Error if creation fails
+ * @returns Promise resolving to created card (the local copy if it was queued)
+ * @throws CardValidationError if the card has values the app cannot display
+ * @throws Error if the backend rejects the card
  */
 export async function createCard(card: Omit<Card, 'id' | 'dateAdded'>): Promise<Card> {
-  const dbCard = cardToDb(card);
-  
-  const { data, error } = await supabase
-    .from('cards')
-    .insert(dbCard)
-    .select()
-    .single();
-
-  if (error) {
-    console.error('Error creating card:', error);
-    throw new Error(`Failed to create card: ${error.message}`);
-  }
-
-  return dbToCard(data);
+  // Checked up front too, so an invalid card is never queued while offline
+  assertValidCardColumns(cardToDb(card));
+  return submitCreate(card);
 }
 
 /**
- * Update an existing card
+ * Update an existing card. While offline the update is queued in the outbox and synced later.
  * @param id - Card ID
  * @param updates - Partial card data to update
- * @returns Promise resolving to updated card
- * @throws Error if update fails
- */
-export async function updateCard(id: string, updates: Partial<Omit<Card, 'id'>>): Promise<Card> {
-  const updateData: Partial<DatabaseCard> = {};
-  
-  if (updates.title !== undefined) updateData.title = updates.title;
-  if (updates.classification !== undefined) updateData.classification = updates.classification;
-  if (updates.difficulty !== undefined) updateData.difficulty = updates.difficulty || null;
-  if (updates.code !== undefined) updateData.code = updates.code;
-  if (updates.explanation !== undefined) updateData.explanation = updates.explanation;
-  if (updates.timeComplexity !== undefined) updateData.time_complexity = updates.timeComplexity || null;
-  if (updates.spaceComplexity !== undefined) updateData.space_complexity = updates.spaceComplexity || null;
-  if (updates.methods !== undefined) {
-    updateData.methods = updates.methods
-      ? updates.methods.map(m => ({ name: m.name, time_complexity: m.timeComplexity }))
-      : null;
-  }
-  if (updates.tags !== undefined) updateData.tags = updates.tags;
-  if (updates.useCases !== undefined) updateData.use_cases = updates.useCases || null;
-  if (updates.relatedProblems !== undefined) updateData.related_problems = updates.relatedProblems || null;
-  if (updates.dateAdded !== undefined) updateData.date_added = updates.dateAdded || null;
-  if (updates.language !== undefined) updateData.language = updates.language || null;
-
-  const { data, error } = await supabase
-    .from('cards')
-    .update(updateData)
-    .eq('id', id)
-    .select()
-    .single();
-
-  if (error) {
-    console.error('Error updating card:', error);
-    throw new Error(`Failed to update card: ${error.message}`);
-  }
-
-  return dbToCard(data);
+ * @param expectedVersion - `updatedAt` of the card the edit started from; omit to overwrite unconditionally
+ * @returns Promise resolving to updated card, or null if the update was queued
+ * @throws CardConflictError if the card was changed by someone else since expectedVersion
+ * @throws CardValidationError if the updates have values the app cannot display
+ * @throws Error if the backend rejects the update
+ */
+export async function updateCard(
+  id: string,
+  updates: Partial<Omit<Card, 'id'>>,
+  expectedVersion?: string
+): Promise<Card | null> {
+  assertValidCardColumns(updatesToDb(updates), true);
+  return submitUpdate(id, updates, expectedVersion);
 }
 
 /**
- * Delete a card
+ * Move a card to the trash. While offline the delete is queued in the outbox and synced later.
+ * Links other cards make to it are kept but not shown while it is in the trash, so
+ * restoring it brings them back; they are removed when it is purged.
  * @param id - Card ID to delete
- * @throws Error if deletion fails
+ * @throws Error if the backend rejects the deletion
  */
 export async function deleteCard(id: string): Promise<void> {
-  const { error } = await supabase
-    .from('cards')
-    .delete()
-    .eq('id', id);
-
-  if (error) {
-    console.error('Error deleting card:', error);
-    throw new Error(`Failed to delete card: ${error.message}`);
+  await submitDelete(id);
+}
+
+/**
+ * Fetch the cards in the trash
+ * @returns Promise resolving to trashed cards, most recently deleted first
+ * @throws Error if fetch fails
+ */
+export async function getTrashedCards(): Promise<TrashedCard[]> {
+  return getCardRepository().getTrash();
+}
+
+/**
+ * Move a card out of the trash, or cancel its delete if it has not synced yet
+ * @param id - Card ID to restore
+ * @throws Error if restore fails
+ */
+export async function restoreCard(id: string): Promise<void> {
+  if (await cancelQueuedDelete(id)) {
+    return;
   }
+  await getCardRepository().restore(id);
+}
+
+/**
+ * Permanently delete a card from the trash, and the links other cards make to it
+ * @param id - Card ID to purge
+ * @throws Error if purge fails
+ */
+export async function purgeCard(id: string): Promise<void> {
+  await getCardRepository().purge(id);
+}
+
+/**
+ * Permanently delete cards that have been in the trash longer than the retention period,
+ * and the links other cards make to them. Only the browser's own store is purged here;
+ * Supabase purges its trash on a schedule.
+ * @returns Promise resolving to the number of cards purged
+ * @throws Error if purge fails
+ */
+export async function purgeExpiredTrash(): Promise<number> {
+  return getCardRepository().purgeExpiredTrash(TRASH_RETENTION_DAYS);
+}
+
+async function assertAdmin(action: string): Promise<void> {
+  if (!isAdmin(await getCurrentUser())) {
+    throw new Error(`Only admins can ${action}`);
+  }
+}
+
+/**
+ * Fetch stored cards that fail validation and are hidden from the grid
+ * @returns Promise resolving to the invalid rows and what is wrong with each
+ * @throws Error if the user is not an admin or fetch fails
+ */
+export async function getInvalidCards(): Promise<InvalidCardRow[]> {
+  await assertAdmin('view invalid cards');
+  return getCardRepository().getInvalid();
 }
 
+/**
+ * Replace the columns of a card that failed validation
+ * @param id - Card ID
+ * @param columns - Corrected database columns
+ * @returns Promise resolving to the repaired card
+ * @throws CardValidationError if the columns are still invalid
+ * @throws Error if the user is not an admin or the write fails
+ */
+export async function repairCard(id: string, columns: DatabaseCardInput): Promise<Card> {
+  await assertAdmin('repair cards');
+  return getCardRepository().repair(id, columns);
+}
+
+/**
+ * Permanently delete a card that failed validation, and the links other cards make to it.
+ * Unlike purging from the trash, this works on cards that are not in the trash.
+ * @param id - Card ID
+ * @throws Error if the user is not an admin or the delete fails
+ */
+export async function deleteInvalidCard(id: string): Promise<void> {
+  await assertAdmin('delete invalid cards');
+  await purgeCard(id);
+}
 
+/**
+ * Fetch the revision history of a card
+ * @param cardId - Card ID
+ * @returns Promise resolving to revisions, newest first
+ * @throws Error if fetch fails
+ */
+export async function getCardRevisions(cardId: string): Promise<CardRevision[]> {
+  return getCardRepository().getRevisions(cardId);
+}
+
+/**
+ * Subscribe to card changes from any client
+ * @param listener - Called with each change
+ * @returns Function that removes the subscription
+ */
+export function subscribeToCards(listener: CardChangeListener): () => void {
+  return getCardRepository().subscribe(listener);
+}
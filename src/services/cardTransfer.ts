@@ -0,0 +1,360 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+
+import type { Card, RelatedProblem } from '../types/card';
+import { dbToCardContent, type DatabaseCardInput } from './cardMapper';
+import { validateCardColumns } from './cardValidation';
+import { CARD_FIELDS } from '../utils/cardFields';
+import { problemKey } from '../utils/problems';
+import { testCaseKey } from '../utils/testCases';
+import type { CardValidationIssue } from './cardErrors';
+
+/**
+ * Card content as written to export files: everything but the storage metadata
+ */
+export type ExportedCard = Omit<Card, 'id' | 'updatedAt'>;
+
+export const EXPORT_FORMAT = 'toolbox-cards';
+// Version 2 stores related problems as objects; version 1 files with plain text ones still import
+export const EXPORT_FORMAT_VERSION = 2;
+
+/**
+ * Shape of a JSON export file
+ */
+export interface CardExportFile {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  cards: ExportedCard[];
+}
+
+/**
+ * A card read from an import file. Cards with issues cannot be imported.
+ */
+export interface ImportedCard {
+  source: string; // File (and position) the card came from, for the preview
+  card: ExportedCard | null;
+  title: string;
+  issues: CardValidationIssue[];
+}
+
+// Unset fields are left out so files stay short
+function toExportedCard(card: Card): ExportedCard {
+  return Object.fromEntries(
+    CARD_FIELDS.filter(field => card[field] !== undefined).map(field => [field, card[field]])
+  ) as ExportedCard;
+}
+
+/**
+ * Build a versioned JSON export of cards
+ * @param cards - Cards to export
+ * @returns JSON file contents
+ */
+export function exportCardsToJson(cards: Card[]): Blob {
+  const file: CardExportFile = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    cards: cards.map(toExportedCard),
+  };
+  return new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+}
+
+/**
+ * Render one card as Markdown: YAML front-matter for the fields, then the
+ * explanation, then the code as the last fenced block
+ */
+export function cardToMarkdown(card: Card): string {
+  const { code, explanation, ...fields } = toExportedCard(card);
+  // A fence must be longer than any run of backticks inside the code
+  const longestRun = Math.max(0, ...(code.match(/`+/g) ?? []).map(run => run.length));
+  const fence = '`'.repeat(Math.max(3, longestRun + 1));
+
+  return [
+    '---',
+    stringifyYaml(fields).trimEnd(),
+    '---',
+    '',
+    explanation.trim(),
+    '',
+    `${fence}${card.language ?? ''}`,
+    code,
+    fence,
+    '',
+  ].join('\n');
+}
+
+function slugify(title: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return slug || 'card';
+}
+
+/**
+ * Build a zip of Markdown files, one per card
+ * @param cards - Cards to export
+ * @returns Zip file contents
+ */
+export function exportCardsToMarkdownZip(cards: Card[]): Blob {
+  const files: Record<string, Uint8Array> = {};
+  cards.forEach(card => {
+    const slug = slugify(card.title);
+    let name = `${slug}.md`;
+    for (let n = 2; files[name]; n++) {
+      name = `${slug}-${n}.md`;
+    }
+    files[name] = strToU8(cardToMarkdown(card));
+  });
+  const zipped = zipSync(files);
+  return new Blob([zipped.buffer as ArrayBuffer], { type: 'application/zip' });
+}
+
+/**
+ * Check a raw card object from an import file and convert it to card content
+ */
+function readImportedCard(raw: unknown, source: string): ImportedCard {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { source, card: null, title: '', issues: [{ column: 'card', message: 'is not an object' }] };
+  }
+
+  const fields = raw as Record<string, unknown>;
+  const methods = fields.methods;
+  const variants = fields.variants;
+  const relatedProblems = fields.relatedProblems;
+  const links = fields.links;
+  const testCases = fields.testCases;
+  const inputSets = fields.inputSets;
+  const columns = {
+    title: fields.title,
+    classification: fields.classification,
+    difficulty: fields.difficulty ?? null,
+    code: fields.code ?? '',
+    explanation: fields.explanation ?? '',
+    time_complexity: fields.timeComplexity ?? null,
+    space_complexity: fields.spaceComplexity ?? null,
+    methods: Array.isArray(methods)
+      ? methods.map(m => ({ name: m?.name, time_complexity: m?.timeComplexity }))
+      : methods ?? null,
+    tags: fields.tags ?? [],
+    use_cases: fields.useCases ?? null,
+    related_problems: Array.isArray(relatedProblems)
+      ? relatedProblems.map(p => (p && typeof p === 'object'
+        ? {
+          platform: p.platform,
+          number: p.number ?? null,
+          title: p.title,
+          url: p.url ?? null,
+          difficulty: p.difficulty ?? null,
+          notes: p.notes ?? null,
+        }
+        : p))
+      : relatedProblems ?? null,
+    date_added: fields.dateAdded ?? null,
+    language: fields.language ?? null,
+    implementations: fields.implementations ?? null,
+    variants: Array.isArray(variants)
+      ? variants.map(v => ({
+        name: v?.name,
+        language: v?.language,
+        code: v?.code,
+        time_complexity: v?.timeComplexity ?? null,
+        space_complexity: v?.spaceComplexity ?? null,
+      }))
+      : variants ?? null,
+    links: Array.isArray(links)
+      ? links.map(l => ({ type: l?.type, target_id: l?.targetId }))
+      : links ?? null,
+    test_cases: Array.isArray(testCases)
+      ? testCases.map(t => (t && typeof t === 'object'
+        ? {
+          name: t.name ?? null,
+          mode: t.mode,
+          input: t.input,
+          function_name: t.functionName ?? null,
+          expected: t.expected,
+          comparator: t.comparator ?? null,
+          tolerance: t.tolerance ?? null,
+        }
+        : t))
+      : testCases ?? null,
+    input_sets: Array.isArray(inputSets)
+      ? inputSets.map(s => (s && typeof s === 'object' ? { name: s.name, stdin: s.stdin ?? '', args: s.args ?? null } : s))
+      : inputSets ?? null,
+  };
+
+  const issues = validateCardColumns(columns);
+  const title = typeof fields.title === 'string' ? fields.title : '';
+  return {
+    source,
+    card: issues.length === 0 ? dbToCardContent(columns as DatabaseCardInput) : null,
+    title,
+    issues,
+  };
+}
+
+/**
+ * Parse a card from a Markdown file written by cardToMarkdown
+ * @throws Error if the file has no front-matter
+ */
+export function markdownToRawCard(markdown: string): Record<string, unknown> {
+  const text = markdown.replace(/\r\n/g, '\n');
+  const frontMatter = /^---\n([\s\S]*?)\n---\n?/.exec(text);
+  if (!frontMatter) {
+    throw new Error('Missing YAML front-matter');
+  }
+
+  const fields = parseYaml(frontMatter[1]) ?? {};
+  if (typeof fields !== 'object' || Array.isArray(fields)) {
+    throw new Error('Front-matter must be a set of fields');
+  }
+
+  // The code is the last fenced block. Its fence is longer than any backtick run inside it,
+  // so the opening line is the last one that starts with exactly that fence.
+  const lines = text.slice(frontMatter[0].length).trimEnd().split('\n');
+  const fence = /^`{3,}$/.test(lines[lines.length - 1]) ? lines[lines.length - 1] : null;
+  let opening = -1;
+  for (let idx = lines.length - 2; fence && idx >= 0; idx--) {
+    if (lines[idx].match(/^`+/)?.[0] === fence) {
+      opening = idx;
+      break;
+    }
+  }
+
+  return {
+    ...fields,
+    explanation: (opening >= 0 ? lines.slice(0, opening) : lines).join('\n').trim(),
+    code: opening >= 0 ? lines.slice(opening + 1, -1).join('\n') : '',
+  };
+}
+
+function readJsonExport(text: string, fileName: string): ImportedCard[] {
+  const parsed: unknown = JSON.parse(text);
+  let cards: unknown;
+
+  if (Array.isArray(parsed)) {
+    cards = parsed;
+  } else if (parsed && typeof parsed === 'object' && (parsed as CardExportFile).format === EXPORT_FORMAT) {
+    const file = parsed as CardExportFile;
+    if (file.version > EXPORT_FORMAT_VERSION) {
+      throw new Error(`${fileName} was exported by a newer version of the app (format version ${file.version})`);
+    }
+    cards = file.cards;
+  } else {
+    throw new Error(`${fileName} is not a card export`);
+  }
+
+  if (!Array.isArray(cards)) {
+    throw new Error(`${fileName} has no list of cards`);
+  }
+  return cards.map((raw, idx) => readImportedCard(raw, `${fileName} #${idx + 1}`));
+}
+
+function readMarkdownFile(text: string, fileName: string): ImportedCard {
+  try {
+    return readImportedCard(markdownToRawCard(text), fileName);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Could not be read';
+    return { source: fileName, card: null, title: '', issues: [{ column: 'file', message }] };
+  }
+}
+
+/**
+ * Read the cards from an import file: a JSON export, a zip of Markdown files, or a single Markdown file
+ * @param file - File picked by the user
+ * @returns Cards found, each with any problems that stop it from being imported
+ * @throws Error if the file is not in a supported format
+ */
+export async function readImportFile(file: File): Promise<ImportedCard[]> {
+  const name = file.name.toLowerCase();
+
+  try {
+    if (name.endsWith('.zip')) {
+      const entries = unzipSync(new Uint8Array(await file.arrayBuffer()), {
+        filter: entry => entry.name.toLowerCase().endsWith('.md') && !entry.name.startsWith('__MACOSX/'),
+      });
+      return Object.entries(entries)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([entryName, data]) => readMarkdownFile(strFromU8(data), entryName));
+    }
+    if (name.endsWith('.md') || name.endsWith('.markdown')) {
+      return [readMarkdownFile(await file.text(), file.name)];
+    }
+    return readJsonExport(await file.text(), file.name);
+  } catch (error) {
+    console.error('Error reading import file:', error);
+    throw new Error(`Failed to read ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Normalize a title for duplicate detection
+ */
+export function titleKey(title: string): string {
+  return title.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function union(a: string[] | undefined, b: string[] | undefined): string[] | undefined {
+  if (!a && !b) return undefined;
+  return Array.from(new Set([...(a ?? []), ...(b ?? [])]));
+}
+
+/**
+ * Merge an imported card into an existing one: list fields are combined and
+ * the existing values win for everything else, unless they are empty
+ * @param existing - Card already in the toolbox
+ * @param incoming - Card from the import file
+ * @returns Fields to update on the existing card
+ */
+export function mergeImportedCard(existing: Card, incoming: ExportedCard): Partial<Omit<Card, 'id'>> {
+  const methods = [...(existing.methods ?? [])];
+  (incoming.methods ?? []).forEach(method => {
+    if (!methods.some(m => m.name === method.name)) methods.push(method);
+  });
+
+  const variants = [...(existing.variants ?? [])];
+  (incoming.variants ?? []).forEach(variant => {
+    if (!variants.some(v => v.name === variant.name)) variants.push(variant);
+  });
+
+  const links = [...(existing.links ?? [])];
+  (incoming.links ?? []).forEach(link => {
+    if (!links.some(l => l.type === link.type && l.targetId === link.targetId)) links.push(link);
+  });
+
+  const testCases = [...(existing.testCases ?? [])];
+  (incoming.testCases ?? []).forEach(testCase => {
+    if (!testCases.some(t => testCaseKey(t) === testCaseKey(testCase))) testCases.push(testCase);
+  });
+
+  const inputSets = [...(existing.inputSets ?? [])];
+  (incoming.inputSets ?? []).forEach(inputSet => {
+    if (!inputSets.some(s => s.name === inputSet.name)) inputSets.push(inputSet);
+  });
+
+  const relatedProblems: RelatedProblem[] = [...(existing.relatedProblems ?? [])];
+  (incoming.relatedProblems ?? []).forEach(problem => {
+    if (!relatedProblems.some(p => problemKey(p) === problemKey(problem))) relatedProblems.push(problem);
+  });
+
+  return {
+    difficulty: existing.difficulty ?? incoming.difficulty,
+    language: existing.language ?? incoming.language,
+    code: existing.code.trim() ? existing.code : incoming.code,
+    implementations: existing.implementations || incoming.implementations
+      ? { ...incoming.implementations, ...existing.implementations }
+      : undefined,
+    explanation: existing.explanation.trim() ? existing.explanation : incoming.explanation,
+    timeComplexity: existing.timeComplexity || incoming.timeComplexity,
+    spaceComplexity: existing.spaceComplexity || incoming.spaceComplexity,
+    methods: methods.length > 0 ? methods : undefined,
+    variants: variants.length > 0 ? variants : undefined,
+    tags: union(existing.tags, incoming.tags) ?? [],
+    useCases: union(existing.useCases, incoming.useCases),
+    relatedProblems: existing.relatedProblems || incoming.relatedProblems ? relatedProblems : undefined,
+    links: links.length > 0 ? links : undefined,
+    testCases: testCases.length > 0 ? testCases : undefined,
+    inputSets: inputSets.length > 0 ? inputSets : undefined,
+  };
+}
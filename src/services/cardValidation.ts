@@ -0,0 +1,201 @@
+import type { Card, CardLanguage, CardLinkType, ProblemPlatform, TestComparator, TestInputMode } from '../types/card';
+import { dbToCard, type DatabaseCard, type DatabaseCardInput } from './cardMapper';
+import { CardValidationError, type CardValidationIssue } from './cardErrors';
+import { CLASSIFICATIONS, DIFFICULTIES, LANGUAGES } from '../utils/constants';
+import { PROBLEM_PLATFORMS } from '../utils/problems';
+import { LINK_TYPES } from '../utils/cardLinks';
+import { TEST_COMPARATORS, TEST_INPUT_MODES } from '../utils/testCases';
+
+/**
+ * A stored card that failed validation, kept out of the grid until it is fixed
+ */
+export interface InvalidCardRow {
+  row: DatabaseCard;
+  issues: CardValidationIssue[];
+}
+
+type ColumnCheck = (value: unknown) => string | null;
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(isString);
+
+const oneOf = (allowed: readonly string[]): ColumnCheck => value =>
+  isString(value) && allowed.includes(value)
+    ? null
+    : `must be one of ${allowed.join(', ')} (got ${JSON.stringify(value)})`;
+
+const nullable = (check: ColumnCheck): ColumnCheck => value =>
+  value === null || value === undefined ? null : check(value);
+
+const text: ColumnCheck = value => (isString(value) ? null : 'must be text');
+
+const stringList: ColumnCheck = value => (isStringList(value) ? null : 'must be a list of text values');
+
+const isOptionalString = (value: unknown): boolean => value === null || value === undefined || isString(value);
+
+/**
+ * Check for every writable column; each returns a message describing the problem, or null
+ */
+const COLUMN_CHECKS: Record<keyof DatabaseCardInput, ColumnCheck> = {
+  title: value => (isString(value) && value.trim() ? null : 'is required'),
+  classification: oneOf(CLASSIFICATIONS),
+  difficulty: nullable(oneOf(DIFFICULTIES)),
+  code: text,
+  explanation: text,
+  time_complexity: nullable(text),
+  time_complexity_rank: nullable(value =>
+    typeof value === 'number' && Number.isFinite(value) ? null : 'must be a number'
+  ),
+  space_complexity: nullable(text),
+  methods: nullable(value =>
+    Array.isArray(value) &&
+    value.every(m => m && typeof m === 'object' && isString(m.name) && isString(m.time_complexity))
+      ? null
+      : 'must be a list of { "name", "time_complexity" } objects'
+  ),
+  tags: stringList,
+  use_cases: nullable(stringList),
+  related_problems: nullable(value =>
+    Array.isArray(value) &&
+    value.every(p =>
+      // Plain text entries were saved before problems were structured
+      isString(p) || (
+        p && typeof p === 'object' &&
+        PROBLEM_PLATFORMS.includes(p.platform as ProblemPlatform) &&
+        isString(p.title) &&
+        isOptionalString(p.number) &&
+        isOptionalString(p.url) &&
+        isOptionalString(p.notes) &&
+        (p.difficulty === null || p.difficulty === undefined || DIFFICULTIES.includes(p.difficulty))
+      )
+    )
+      ? null
+      : 'must be a list of { "platform", "number", "title", "url", "difficulty", "notes" } objects'
+  ),
+  date_added: nullable(value =>
+    isString(value) && !Number.isNaN(Date.parse(value)) ? null : 'must be a date'
+  ),
+  language: nullable(oneOf(LANGUAGES)),
+  implementations: nullable(value =>
+    value && typeof value === 'object' && !Array.isArray(value) &&
+    Object.entries(value).every(([language, code]) => LANGUAGES.includes(language as CardLanguage) && isString(code))
+      ? null
+      : `must map languages (${LANGUAGES.join(', ')}) to code`
+  ),
+  variants: nullable(value =>
+    Array.isArray(value) &&
+    value.every(v =>
+      v && typeof v === 'object' &&
+      isString(v.name) && v.name.trim() &&
+      LANGUAGES.includes(v.language) &&
+      isString(v.code) &&
+      isOptionalString(v.time_complexity) &&
+      isOptionalString(v.space_complexity)
+    )
+      ? null
+      : 'must be a list of { "name", "language", "code", "time_complexity", "space_complexity" } objects'
+  ),
+  links: nullable(value =>
+    Array.isArray(value) &&
+    value.every(l =>
+      l && typeof l === 'object' &&
+      LINK_TYPES.includes(l.type as CardLinkType) &&
+      isString(l.target_id) && l.target_id
+    )
+      ? null
+      : `must be a list of { "type", "target_id" } objects with type one of ${LINK_TYPES.join(', ')}`
+  ),
+  test_cases: nullable(value =>
+    Array.isArray(value) &&
+    value.every(t =>
+      t && typeof t === 'object' &&
+      TEST_INPUT_MODES.includes(t.mode as TestInputMode) &&
+      isString(t.input) &&
+      isString(t.expected) &&
+      isOptionalString(t.name) &&
+      isOptionalString(t.function_name) &&
+      (t.comparator === null || t.comparator === undefined || TEST_COMPARATORS.includes(t.comparator as TestComparator)) &&
+      (t.tolerance === null || t.tolerance === undefined || (typeof t.tolerance === 'number' && t.tolerance >= 0))
+    )
+      ? null
+      : 'must be a list of { "name", "mode", "input", "function_name", "expected", "comparator", "tolerance" } objects'
+  ),
+  input_sets: nullable(value =>
+    Array.isArray(value) &&
+    value.every(s =>
+      s && typeof s === 'object' &&
+      isString(s.name) && s.name.trim() &&
+      isString(s.stdin) &&
+      (s.args === null || s.args === undefined || (Array.isArray(s.args) && s.args.every(isString)))
+    ) &&
+    new Set(value.map(s => s.name)).size === value.length
+      ? null
+      : 'must be a list of { "name", "stdin", "args" } objects with distinct names'
+  ),
+} as const;
+
+/**
+ * Check card columns against the shapes the app relies on
+ * @param row - Card columns, e.g. a stored row or the columns of a pending write
+ * @param partial - Only check the columns present, for updates
+ * @returns Issues found, empty if the row is valid
+ */
+export function validateCardColumns(row: object, partial = false): CardValidationIssue[] {
+  const values = row as Record<string, unknown>;
+  const issues: CardValidationIssue[] = [];
+  (Object.keys(COLUMN_CHECKS) as (keyof DatabaseCardInput)[]).forEach(column => {
+    if (partial && !(column in values)) return;
+    const message = COLUMN_CHECKS[column](values[column]);
+    if (message) {
+      issues.push({ column, message });
+    }
+  });
+  return issues;
+}
+
+/**
+ * Reject a write whose columns would be quarantined on the next read
+ * @throws CardValidationError listing every problem
+ */
+export function assertValidCardColumns(row: Partial<DatabaseCardInput>, partial = false): void {
+  const issues = validateCardColumns(row, partial);
+  if (issues.length > 0) {
+    throw new CardValidationError(issues);
+  }
+}
+
+/**
+ * Check whether a stored row can be shown in the app
+ */
+export function isValidCardRow(row: DatabaseCard): boolean {
+  return validateCardColumns(row).length === 0;
+}
+
+/**
+ * The card readers see for a stored row
+ * @returns The card, or undefined if the row is in the trash or fails validation
+ */
+export function listedCard(row: DatabaseCard): Card | undefined {
+  return !row.deleted_at && isValidCardRow(row) ? dbToCard(row) : undefined;
+}
+
+/**
+ * Split stored rows into ones that can be shown and ones that need fixing
+ * @param rows - Rows read from the backend
+ * @returns Valid rows, and invalid rows with their problems
+ */
+export function partitionCardRows(rows: DatabaseCard[]): { valid: DatabaseCard[]; invalid: InvalidCardRow[] } {
+  const valid: DatabaseCard[] = [];
+  const invalid: InvalidCardRow[] = [];
+  rows.forEach(row => {
+    const issues = validateCardColumns(row);
+    if (issues.length === 0) {
+      valid.push(row);
+    } else {
+      invalid.push({ row, issues });
+    }
+  });
+  return { valid, invalid };
+}
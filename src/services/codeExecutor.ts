@@ -0,0 +1,293 @@
+import type { CardLanguage } from '../types/card';
+import type { CompilerDiagnostic, ExecuteRequest, ExecutorHealth, PhaseResult } from '../types/executor';
+import { createHttpExecutorClient } from './executors/httpExecutorClient';
+import { createWorkerExecutorClient, isBrowserLanguage } from './executors/workerExecutorClient';
+import { ExecutorError, isRetryable } from './executorErrors';
+
+const DEFAULT_EXECUTOR_URL = 'https://executor.charles-bai.com';
+const DEFAULT_AUTH_HEADER = 'Authorization';
+
+const MAX_RETRIES = 4;
+const BASE_RETRY_DELAY_MS = 1_000;
+// Longer waits, including ones asked for with Retry-After, fail the run instead
+const MAX_RETRY_DELAY_MS = 30_000;
+
+/**
+ * What happened when a program ran. `stdout` and `stderr` are the output of the last
+ * step that ran; the steps themselves are set when the executor reports them.
+ */
+export interface ExecutionResult {
+  stdout: string;
+  stderr: string;
+  compile?: PhaseResult; // Only for languages with a build step
+  run?: PhaseResult; // Left out when compiling failed
+  diagnostics: CompilerDiagnostic[];
+}
+
+/**
+ * Where the executor is and how to authenticate with it
+ */
+export interface ExecutorConfig {
+  url: string; // Base URL; requests go to `${url}/execute` and `${url}/health`
+  authHeader: string;
+  authToken?: string; // Sent as the value of `authHeader` when set
+}
+
+/**
+ * Options for a single executor call
+ */
+export interface ExecuteOptions {
+  signal?: AbortSignal; // Cancels the run
+}
+
+/**
+ * A run waiting to be retried after the executor turned it away
+ */
+export interface QueuedRun {
+  retry: number; // Which retry comes next, from 1
+  maxRetries: number;
+  retryAt: number; // When it goes out again, as a Date.now() timestamp
+  reason: ExecutorError;
+}
+
+/**
+ * Options for running code with executeCode
+ */
+export interface RunOptions extends ExecuteOptions {
+  onQueued?: (queued: QueuedRun | null) => void; // Called before each wait for a retry, and with null when the run goes out again
+}
+
+/**
+ * A service that runs code
+ */
+export interface ExecutorClient {
+  readonly url: string;
+  /**
+   * Run a program
+   * @throws ExecutorError if the executor is unreachable, busy, or could not run the code, or the run was cancelled
+   */
+  execute(request: ExecuteRequest, options?: ExecuteOptions): Promise<ExecutionResult>;
+  /** Check whether the executor is up; never throws */
+  health(): Promise<ExecutorHealth>;
+}
+
+/**
+ * Read the executor settings from VITE_EXECUTOR_URL, VITE_EXECUTOR_AUTH_HEADER and
+ * VITE_EXECUTOR_AUTH_TOKEN, defaulting to the public executor
+ */
+export function getExecutorConfig(): ExecutorConfig {
+  const url = (import.meta.env.VITE_EXECUTOR_URL || DEFAULT_EXECUTOR_URL)
+    .replace(/\/+$/, '')
+    // Older settings pointed at the endpoint itself
+    .replace(/\/execute$/, '');
+  return {
+    url,
+    authHeader: import.meta.env.VITE_EXECUTOR_AUTH_HEADER || DEFAULT_AUTH_HEADER,
+    authToken: import.meta.env.VITE_EXECUTOR_AUTH_TOKEN || undefined,
+  };
+}
+
+/**
+ * A run shared by every caller that asked for the same request while it was in progress.
+ * It is only cancelled once all of them have cancelled.
+ */
+interface SharedRun {
+  result: Promise<ExecutionResult>;
+  controller: AbortController;
+  subscribers: number; // Callers still waiting for the result
+  listeners: Set<NonNullable<RunOptions['onQueued']>>; // Their onQueued callbacks
+  queued: QueuedRun | null; // The wait in progress, for callers that join during it
+}
+
+let client: ExecutorClient | null = null;
+let browserClient: ExecutorClient | null = null;
+let healthCheck: Promise<ExecutorHealth> | null = null;
+// Runs in progress by request, so identical rapid clicks share one run
+const inFlight = new Map<string, SharedRun>();
+
+/**
+ * Get the client for the configured executor
+ * @returns Shared executor client
+ */
+export function getExecutorClient(): ExecutorClient {
+  if (!client) {
+    client = createHttpExecutorClient(getExecutorConfig());
+  }
+  return client;
+}
+
+/**
+ * Replace the shared executor client (e.g. with a fake one in tests)
+ * @param next - Client to use, or null to go back to the configured executor
+ */
+export function setExecutorClient(next: ExecutorClient | null): void {
+  client = next;
+  healthCheck = null;
+}
+
+/**
+ * Check whether the configured executor is up. The result is shared by every caller
+ * until a fresh check is asked for.
+ * @param refresh - Check again instead of reusing the last result
+ * @returns What the check found
+ */
+export function checkExecutorHealth(refresh = false): Promise<ExecutorHealth> {
+  if (!healthCheck || refresh) {
+    healthCheck = getExecutorClient().health();
+  }
+  return healthCheck;
+}
+
+/**
+ * Check whether code in a language runs in a Web Worker rather than on the executor
+ * @param language - Language of the code
+ * @returns True for JavaScript and TypeScript when the browser supports workers
+ */
+export function runsInBrowser(language: CardLanguage): boolean {
+  return isBrowserLanguage(language) && typeof Worker !== 'undefined';
+}
+
+/**
+ * How long to wait before a retry: what the executor asked for, or an exponential
+ * backoff with some jitter so clients turned away together don't return together
+ * @param retry - Which retry this is, from 1
+ * @param retryAfterMs - Wait the executor asked for, if any
+ * @returns Milliseconds to wait
+ */
+export function getRetryDelay(retry: number, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) return retryAfterMs;
+  const backoff = Math.min(BASE_RETRY_DELAY_MS * 2 ** (retry - 1), MAX_RETRY_DELAY_MS);
+  return Math.round(backoff * (0.8 + Math.random() * 0.4));
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const cancelled = () => {
+      clearTimeout(timer);
+      reject(new ExecutorError('cancelled', 'Run cancelled.'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', cancelled);
+      resolve();
+    }, ms);
+    if (signal?.aborted) cancelled();
+    signal?.addEventListener('abort', cancelled, { once: true });
+  });
+}
+
+async function executeWithRetry(client: ExecutorClient, request: ExecuteRequest, options: RunOptions): Promise<ExecutionResult> {
+  for (let retry = 1; ; retry++) {
+    if (options.signal?.aborted) throw new ExecutorError('cancelled', 'Run cancelled.');
+    try {
+      return await client.execute(request, { signal: options.signal });
+    } catch (error) {
+      if (!isRetryable(error) || retry > MAX_RETRIES) throw error;
+      const delay = getRetryDelay(retry, error.retryAfterMs);
+      if (delay > MAX_RETRY_DELAY_MS) throw error;
+
+      options.onQueued?.({ retry, maxRetries: MAX_RETRIES, retryAt: Date.now() + delay, reason: error });
+      await wait(delay, options.signal);
+      options.onQueued?.(null);
+    }
+  }
+}
+
+function startSharedRun(key: string, request: ExecuteRequest): SharedRun {
+  let executor: ExecutorClient;
+  if (runsInBrowser(request.language)) {
+    browserClient ??= createWorkerExecutorClient();
+    executor = browserClient;
+  } else {
+    executor = getExecutorClient();
+  }
+
+  const controller = new AbortController();
+  const listeners: SharedRun['listeners'] = new Set();
+  const run: SharedRun = {
+    controller,
+    subscribers: 0,
+    listeners,
+    queued: null,
+    result: executeWithRetry(executor, request, {
+      signal: controller.signal,
+      onQueued: queued => {
+        run.queued = queued;
+        listeners.forEach(listener => listener(queued));
+      },
+    }).finally(() => {
+      if (inFlight.get(key) === run) inFlight.delete(key);
+    }),
+  };
+  inFlight.set(key, run);
+  return run;
+}
+
+/**
+ * Run code, in the browser for JavaScript and TypeScript and on the configured
+ * executor for everything else. When the executor is rate limiting or busy the run
+ * waits and is retried, up to a limit. A run identical to one still in progress
+ * shares its result and its waits; it is only cancelled once every caller sharing it has cancelled.
+ * @param code - Source code to run
+ * @param language - Language of the code
+ * @param stdin - Text to feed the program's standard input
+ * @param args - Command-line arguments for the program
+ * @param options - Signal to cancel the run, and a callback for its waits before retries
+ * @returns The program's output, with the compile and run steps when the executor reports them
+ * @throws ExecutorError with a message fit to show the user if the executor is unreachable, stays busy, or reports an error,
+ * or with kind 'cancelled' if the run was cancelled
+ */
+export function executeCode(
+  code: string,
+  language: CardLanguage,
+  stdin?: string,
+  args?: string[],
+  options: RunOptions = {}
+): Promise<ExecutionResult> {
+  const request: ExecuteRequest = { language, code };
+  if (stdin) request.stdin = stdin;
+  if (args && args.length > 0) request.args = args;
+
+  const { signal, onQueued } = options;
+  if (signal?.aborted) {
+    return Promise.reject(new ExecutorError('cancelled', 'Run cancelled.'));
+  }
+
+  const key = JSON.stringify(request);
+  const run = inFlight.get(key) ?? startSharedRun(key, request);
+  run.subscribers++;
+  if (onQueued) {
+    run.listeners.add(onQueued);
+    if (run.queued) onQueued(run.queued);
+  }
+
+  return new Promise((resolve, reject) => {
+    let left = false;
+    const leave = () => {
+      if (left) return;
+      left = true;
+      signal?.removeEventListener('abort', cancel);
+      if (onQueued) run.listeners.delete(onQueued);
+      run.subscribers--;
+    };
+    const cancel = () => {
+      leave();
+      reject(new ExecutorError('cancelled', 'Run cancelled.'));
+      // Nobody is left waiting for the result, so stop keeping the executor busy
+      if (run.subscribers === 0) {
+        run.controller.abort();
+        if (inFlight.get(key) === run) inFlight.delete(key);
+      }
+    };
+    signal?.addEventListener('abort', cancel, { once: true });
+    run.result.then(
+      result => {
+        leave();
+        resolve(result);
+      },
+      error => {
+        leave();
+        reject(error);
+      }
+    );
+  });
+}
@@ -0,0 +1,30 @@
+/**
+ * Why an executor call failed
+ */
+export type ExecutorErrorKind = 'network' | 'unauthorized' | 'rate-limited' | 'busy' | 'rejected' | 'cancelled';
+
+/**
+ * Thrown when code could not be run; the message is fit to show the user
+ */
+export class ExecutorError extends Error {
+  readonly kind: ExecutorErrorKind;
+  readonly status?: number; // HTTP status, when the executor answered
+  readonly retryAfterMs?: number; // How long the executor asked to wait, from its Retry-After header
+
+  constructor(kind: ExecutorErrorKind, message: string, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'ExecutorError';
+    this.kind = kind;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Check whether a failed call is worth retrying after a wait
+ * @param error - Error thrown by an executor call
+ * @returns True when the executor was rate limiting or busy
+ */
+export function isRetryable(error: unknown): error is ExecutorError {
+  return error instanceof ExecutorError && (error.kind === 'rate-limited' || error.kind === 'busy');
+}
@@ -0,0 +1,117 @@
+import type {
+  ExecuteRequest,
+  ExecuteResponse,
+  ExecutorHealth,
+  HealthResponse,
+  PhaseResponse,
+  PhaseResult,
+} from '../../types/executor';
+import type { ExecuteOptions, ExecutionResult, ExecutorClient, ExecutorConfig } from '../codeExecutor';
+import { ExecutorError } from '../executorErrors';
+import { parseDiagnostics } from '../../utils/diagnostics';
+
+function toPhaseResult(phase: PhaseResponse): PhaseResult {
+  return {
+    stdout: phase.stdout ?? '',
+    stderr: phase.stderr ?? '',
+    exitCode: phase.exitCode ?? null,
+    signal: phase.signal || undefined,
+    timedOut: phase.timedOut ?? false,
+    wallTimeMs: phase.timeMs,
+    peakMemoryKb: phase.memoryKb,
+  };
+}
+
+/**
+ * Read a Retry-After header, which holds either seconds or an HTTP date
+ * @returns Milliseconds to wait, or undefined when the header is missing or unreadable
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Create an executor client that posts code to an HTTP executor
+ * @param config - Base URL of the executor, and the header to authenticate with
+ * @returns Client for the executor at `config.url`
+ */
+export function createHttpExecutorClient(config: ExecutorConfig): ExecutorClient {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (config.authToken) {
+    headers[config.authHeader] = config.authToken;
+  }
+
+  return {
+    url: config.url,
+
+    async execute(request: ExecuteRequest, options: ExecuteOptions = {}): Promise<ExecutionResult> {
+      let res: Response;
+      let data: ExecuteResponse | null = null;
+      try {
+        res = await fetch(`${config.url}/execute`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify(request),
+          signal: options.signal,
+        });
+        // Error pages from proxies in front of the executor aren't JSON
+        data = await res.json().catch(() => null);
+      } catch (error) {
+        if (options.signal?.aborted) {
+          throw new ExecutorError('cancelled', 'Run cancelled.');
+        }
+        console.error('Code execution error:', error);
+        throw new ExecutorError('network', 'Network Error: Could not reach execution engine.');
+      }
+
+      const retryAfterMs = parseRetryAfter(res.headers.get('Retry-After'));
+      if (res.status === 401 || res.status === 403) {
+        throw new ExecutorError('unauthorized', 'Error: The executor rejected the credentials it was sent.', res.status);
+      }
+      if (res.status === 429) {
+        throw new ExecutorError('rate-limited', 'Error: You are clicking too fast! (Rate Limit)', res.status, retryAfterMs);
+      }
+      if (res.status === 503) {
+        throw new ExecutorError('busy', 'Error: Server is busy processing other jobs. Try again in a few seconds.', res.status, retryAfterMs);
+      }
+      if (!data) {
+        throw new ExecutorError('rejected', `Error: Executor answered ${res.status} without a result`, res.status);
+      }
+      if (data.error || !res.ok) {
+        throw new ExecutorError('rejected', `Error: ${data.error ?? `Executor answered ${res.status}`}`, res.status);
+      }
+
+      const compile = data.compile ? toPhaseResult(data.compile) : undefined;
+      const run = data.run ? toPhaseResult(data.run) : undefined;
+      const stderr = data.stderr ?? '';
+      return {
+        stdout: data.stdout ?? '',
+        stderr,
+        compile,
+        run,
+        // Executors that don't report the steps give one stderr, with any compiler errors in it
+        diagnostics: parseDiagnostics(compile ? compile.stderr : stderr, request.language),
+      };
+    },
+
+    async health(): Promise<ExecutorHealth> {
+      const started = performance.now();
+      try {
+        const res = await fetch(`${config.url}/health`, { headers });
+        const latencyMs = Math.round(performance.now() - started);
+        if (res.status === 404) {
+          return { status: 'unknown', latencyMs };
+        }
+        const data: HealthResponse = await res.json();
+        return { status: res.ok && data.ok ? 'online' : 'offline', languages: data.languages, latencyMs };
+      } catch (error) {
+        console.error('Error checking executor health:', error);
+        return { status: 'offline' };
+      }
+    },
+  };
+}
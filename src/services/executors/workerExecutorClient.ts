@@ -0,0 +1,170 @@
+import type { CompilerDiagnostic, ExecuteRequest, ExecutorHealth, PhaseResult } from '../../types/executor';
+import { jsRunnerSource } from '../../workers/jsRunner';
+import type { BrowserLanguage, JsCompileRequest, JsCompileResult, JsRunMessage } from '../../workers/jsRunnerProtocol';
+import { SANDBOX_FRAME_HTML, type SandboxStart } from '../../workers/jsSandboxFrame';
+import type { ExecuteOptions, ExecutionResult, ExecutorClient } from '../codeExecutor';
+import { ExecutorError } from '../executorErrors';
+
+export const BROWSER_LANGUAGES: readonly BrowserLanguage[] = ['javascript', 'typescript'];
+
+const RUN_TIMEOUT_MS = 5_000;
+// Loading the TypeScript compiler the first time can take a while on slow connections
+const COMPILE_TIMEOUT_MS = 30_000;
+const MAX_ITERATIONS = 50_000_000;
+const MAX_OUTPUT_BYTES = 64 * 1024;
+
+/**
+ * Check whether a language runs in the browser instead of on the executor
+ * @param language - Language of the code
+ * @returns True for JavaScript and TypeScript
+ */
+export function isBrowserLanguage(language: string): language is BrowserLanguage {
+  return (BROWSER_LANGUAGES as readonly string[]).includes(language);
+}
+
+/**
+ * Create an executor client that runs JavaScript and TypeScript in the browser. Each
+ * run is compiled in a fresh worker, then run in a worker inside a fresh sandboxed
+ * frame, which is removed when the program finishes or runs past the time limit.
+ * @returns Client that runs code in the browser
+ */
+export function createWorkerExecutorClient(): ExecutorClient {
+  return {
+    url: 'browser',
+
+    execute(request: ExecuteRequest, options: ExecuteOptions = {}): Promise<ExecutionResult> {
+      const { language } = request;
+      const { signal } = options;
+      if (!isBrowserLanguage(language)) {
+        return Promise.reject(new ExecutorError('rejected', `Error: ${language} can't run in the browser.`));
+      }
+      if (signal?.aborted) {
+        return Promise.reject(new ExecutorError('cancelled', 'Run cancelled.'));
+      }
+
+      return new Promise((resolve, reject) => {
+        let compiler: Worker | null;
+        try {
+          compiler = new Worker(new URL('../../workers/jsCompiler.worker.ts', import.meta.url), { type: 'module' });
+        } catch (error) {
+          console.error('Error starting code worker:', error);
+          reject(new ExecutorError('rejected', 'Error: Could not start the in-browser runner.'));
+          return;
+        }
+
+        const output = { stdout: '', stderr: '' };
+        let compile: PhaseResult | undefined;
+        let diagnostics: CompilerDiagnostic[] = [];
+        let runStarted: number | null = null;
+        let timer: ReturnType<typeof setTimeout>;
+        let frame: HTMLIFrameElement | null = null;
+        let channel: MessageChannel | null = null;
+
+        // Removing the frame discards its document, which ends the runner worker
+        const stop = () => {
+          clearTimeout(timer);
+          signal?.removeEventListener('abort', cancel);
+          compiler?.terminate();
+          channel?.port1.close();
+          frame?.remove();
+        };
+        const cancel = () => {
+          stop();
+          reject(new ExecutorError('cancelled', 'Run cancelled.'));
+        };
+        signal?.addEventListener('abort', cancel, { once: true });
+
+        const finish = (run: Omit<PhaseResult, 'stdout' | 'stderr'> | null, note?: string) => {
+          stop();
+          if (note) output.stderr += `${output.stderr && !output.stderr.endsWith('\n') ? '\n' : ''}${note}\n`;
+          resolve(run
+            ? { ...output, compile, run: { ...output, ...run }, diagnostics }
+            : { ...output, compile, diagnostics });
+        };
+        const wallTime = () => (runStarted === null ? undefined : Math.round(performance.now() - runStarted));
+        const limit = (ms: number, note: string) => {
+          clearTimeout(timer);
+          timer = setTimeout(() => finish({ exitCode: null, timedOut: true, wallTimeMs: wallTime() }, note), ms);
+        };
+
+        const startRun = (js: string) => {
+          runStarted = performance.now();
+          limit(RUN_TIMEOUT_MS, `Time limit exceeded (${RUN_TIMEOUT_MS} ms)`);
+
+          channel = new MessageChannel();
+          channel.port1.onmessage = (event: MessageEvent<JsRunMessage>) => {
+            const message = event.data;
+            if (message.type === 'output') {
+              output[message.stream] += message.text;
+            } else if (message.type === 'done') {
+              finish({ exitCode: message.exitCode, timedOut: false, wallTimeMs: message.timeMs });
+            } else {
+              console.error('Code worker error:', message.message);
+              finish(
+                { exitCode: null, timedOut: false, wallTimeMs: wallTime() },
+                message.message ? `The program crashed: ${message.message}` : 'The program crashed (out of memory?)'
+              );
+            }
+          };
+
+          const start: SandboxStart = {
+            source: jsRunnerSource,
+            request: {
+              js,
+              stdin: request.stdin ?? '',
+              args: request.args ?? [],
+              maxIterations: MAX_ITERATIONS,
+              maxOutputBytes: MAX_OUTPUT_BYTES,
+            },
+          };
+          const sandbox = document.createElement('iframe');
+          sandbox.setAttribute('sandbox', 'allow-scripts');
+          sandbox.hidden = true;
+          sandbox.srcdoc = SANDBOX_FRAME_HTML;
+          sandbox.addEventListener('load', () => {
+            // The frame's origin is opaque, so it can't be named as the target
+            sandbox.contentWindow?.postMessage(start, '*', channel ? [channel.port2] : []);
+          }, { once: true });
+          frame = sandbox;
+          document.body.appendChild(sandbox);
+        };
+
+        compiler.onmessage = (event: MessageEvent<JsCompileResult>) => {
+          const result = event.data;
+          compiler?.terminate();
+          compiler = null;
+          diagnostics = result.diagnostics;
+          // Transpiling JavaScript only checks its syntax, so errors are reported as the run's
+          if (language === 'typescript') {
+            compile = { stdout: '', stderr: result.errors, exitCode: result.ok ? 0 : 1, timedOut: false, wallTimeMs: result.timeMs };
+          } else {
+            output.stderr += result.errors;
+          }
+          if (result.ok) {
+            startRun(result.js);
+          } else if (language === 'typescript') {
+            output.stderr = result.errors;
+            finish(null);
+          } else {
+            finish({ exitCode: 1, timedOut: false, wallTimeMs: 0 });
+          }
+        };
+        compiler.onerror = event => {
+          event.preventDefault();
+          console.error('Code worker error:', event.message);
+          finish(null, 'Error: Could not load the TypeScript compiler.');
+        };
+
+        limit(COMPILE_TIMEOUT_MS, 'Error: Timed out loading the TypeScript compiler.');
+        const compileRequest: JsCompileRequest = { code: request.code, language };
+        compiler.postMessage(compileRequest);
+      });
+    },
+
+    async health(): Promise<ExecutorHealth> {
+      return typeof Worker === 'undefined' || typeof document === 'undefined'
+        ? { status: 'offline' }
+        : { status: 'online', languages: [...BROWSER_LANGUAGES], latencyMs: 0 };
+    },
+  };
+}
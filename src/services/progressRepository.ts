@@ -0,0 +1,38 @@
+import type { ProblemStatus } from '../types/card';
+import { getConfiguredBackend } from './cardRepository';
+import { createSupabaseProgressRepository } from './repositories/supabaseProgressRepository';
+import { createIndexedDbProgressRepository } from './repositories/indexedDbProgressRepository';
+
+/**
+ * Solve status of each problem the user has marked, keyed by problemKey
+ */
+export type ProblemStatuses = Record<string, ProblemStatus>;
+
+/**
+ * Storage backend for the signed-in user's progress on related problems
+ */
+export interface ProgressRepository {
+  /** Fetch the status of every problem the user has marked */
+  getStatuses(): Promise<ProblemStatuses>;
+  /**
+   * Mark a problem, or clear its status
+   * @param key - problemKey of the problem
+   * @param status - New status, or null to clear it
+   */
+  setStatus(key: string, status: ProblemStatus | null): Promise<void>;
+}
+
+let repository: ProgressRepository | null = null;
+
+/**
+ * Get the progress repository for the configured backend
+ * @returns Shared progress repository
+ */
+export function getProgressRepository(): ProgressRepository {
+  if (!repository) {
+    repository = getConfiguredBackend() === 'supabase'
+      ? createSupabaseProgressRepository()
+      : createIndexedDbProgressRepository();
+  }
+  return repository;
+}
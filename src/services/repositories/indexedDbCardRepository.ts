@@ -0,0 +1,367 @@
+import { openDatabase, requestToPromise, transactionDone } from '../../lib/indexedDb';
+import { getCurrentUser, getUserDisplayName } from '../../lib/currentUser';
+import {
+  buildBaselineRow,
+  buildRevisionRow,
+  cardToDb,
+  dbToCard,
+  dbToRevision,
+  dbToTrashedCard,
+  updatesToDb,
+  withDerivedColumns,
+  type DatabaseCard,
+  type DatabaseRevision,
+} from '../cardMapper';
+import type { CardChange, CardChangeListener, CardRepository } from '../cardRepository';
+import { CardConflictError } from '../cardErrors';
+import { assertValidCardColumns, isValidCardRow, listedCard, partitionCardRows } from '../cardValidation';
+import { queryCardsInMemory } from '../../utils/cardQuery';
+
+const STORE = 'cards';
+const REVISIONS_STORE = 'revisions';
+const CHANNEL_NAME = 'toolbox-cards';
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Card repository backed by the browser's IndexedDB, for running without Supabase.
+ * Rows are stored in the same snake_case shape as the Supabase table.
+ */
+export function createIndexedDbCardRepository(): CardRepository {
+  const listeners = new Set<CardChangeListener>();
+  // Other tabs on the same origin share the database, so relay changes to them too
+  const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+  channel?.addEventListener('message', (event: MessageEvent<CardChange>) => {
+    listeners.forEach(listener => listener(event.data));
+  });
+
+  const notify = (change: CardChange) => {
+    listeners.forEach(listener => listener(change));
+    channel?.postMessage(change);
+  };
+
+  const getRow = async (id: string): Promise<DatabaseCard | undefined> => {
+    const db = await openDatabase();
+    return requestToPromise<DatabaseCard | undefined>(
+      db.transaction(STORE, 'readonly').objectStore(STORE).get(id)
+    );
+  };
+
+  const getAllRows = async (): Promise<DatabaseCard[]> => {
+    const db = await openDatabase();
+    return requestToPromise<DatabaseCard[]>(
+      db.transaction(STORE, 'readonly').objectStore(STORE).getAll()
+    );
+  };
+
+  // Moving in and out of the trash is not an edit, so it records no revision
+  const setDeletedAt = async (id: string, deletedAt: string | null): Promise<DatabaseCard> => {
+    const existing = await getRow(id);
+    if (!existing) {
+      throw new Error(`Card ${id} not found`);
+    }
+    const row = { ...existing, deleted_at: deletedAt };
+    const db = await openDatabase();
+    const transaction = db.transaction(STORE, 'readwrite');
+    transaction.objectStore(STORE).put(row);
+    await transactionDone(transaction);
+    return row;
+  };
+
+  // Links other cards make to the purged ones are dropped in the same transaction, from
+  // cards in the trash too, so restoring one can't bring back a link to a missing card
+  const purgeRows = async (ids: string[]): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction([STORE, REVISIONS_STORE], 'readwrite');
+    const store = transaction.objectStore(STORE);
+    const revisions = transaction.objectStore(REVISIONS_STORE);
+    for (const id of ids) {
+      store.delete(id);
+      const revisionKeys = await requestToPromise(revisions.index('card_id').getAllKeys(id));
+      revisionKeys.forEach(key => revisions.delete(key));
+    }
+
+    const purged = new Set(ids);
+    const updatedAt = new Date().toISOString();
+    const unlinked = (await requestToPromise<DatabaseCard[]>(store.getAll()))
+      .filter(before => before.links?.some(link => purged.has(link.target_id)))
+      .map(before => {
+        const links = (before.links ?? []).filter(link => !purged.has(link.target_id));
+        return { before, row: { ...before, links: links.length > 0 ? links : null, updated_at: updatedAt } };
+      });
+    unlinked.forEach(({ row }) => store.put(row));
+    await transactionDone(transaction);
+
+    unlinked.forEach(({ before, row }) => {
+      const card = listedCard(row);
+      if (card) notify({ type: 'UPDATE', card, previous: listedCard(before) });
+    });
+  };
+
+  // Writes the card and its revisions in one transaction, so history never drifts from the data
+  const putRow = async (before: DatabaseCard | null, row: DatabaseCard): Promise<void> => {
+    const db = await openDatabase();
+    const user = await getCurrentUser();
+    const history = await requestToPromise(
+      db.transaction(REVISIONS_STORE, 'readonly').objectStore(REVISIONS_STORE).index('card_id').count(row.id)
+    );
+    const revision = buildRevisionRow(before, row, {
+      id: user?.id ?? null,
+      name: user ? getUserDisplayName(user) : null,
+    });
+    // Oldest first
+    const revisions = before && history === 0 ? [buildBaselineRow(before), revision] : [revision];
+
+    const transaction = db.transaction([STORE, REVISIONS_STORE], 'readwrite');
+    transaction.objectStore(STORE).put(row);
+    revisions.forEach(revision => {
+      transaction.objectStore(REVISIONS_STORE).put({ ...revision, id: crypto.randomUUID() });
+    });
+    await transactionDone(transaction);
+  };
+
+  return {
+    backend: 'indexeddb',
+
+    async getAll() {
+      try {
+        const rows = partitionCardRows(await getAllRows()).valid;
+        return rows
+          .filter(row => !row.deleted_at)
+          .sort((a, b) => b.created_at.localeCompare(a.created_at))
+          .map(dbToCard);
+      } catch (error) {
+        console.error('Error fetching cards:', error);
+        throw new Error(`Failed to fetch cards: ${errorMessage(error)}`);
+      }
+    },
+
+    async query(query) {
+      try {
+        const rows = partitionCardRows(await getAllRows()).valid;
+        const cards = rows.filter(row => !row.deleted_at).map(dbToCard);
+        return queryCardsInMemory(cards, query);
+      } catch (error) {
+        console.error('Error querying cards:', error);
+        throw new Error(`Failed to query cards: ${errorMessage(error)}`);
+      }
+    },
+
+    async getTags() {
+      try {
+        const rows = partitionCardRows(await getAllRows()).valid;
+        const tags = new Set<string>();
+        rows.filter(row => !row.deleted_at).forEach(row => {
+          row.tags.forEach(tag => tags.add(tag));
+        });
+        return Array.from(tags).sort();
+      } catch (error) {
+        console.error('Error fetching tags:', error);
+        throw new Error(`Failed to fetch tags: ${errorMessage(error)}`);
+      }
+    },
+
+    async getByIds(ids) {
+      try {
+        const rows = partitionCardRows(await getAllRows()).valid;
+        return rows.filter(row => !row.deleted_at && ids.includes(row.id)).map(dbToCard);
+      } catch (error) {
+        console.error('Error fetching cards:', error);
+        throw new Error(`Failed to fetch cards: ${errorMessage(error)}`);
+      }
+    },
+
+    async getBacklinks(cardId) {
+      try {
+        const rows = partitionCardRows(await getAllRows()).valid;
+        return rows
+          .filter(row => !row.deleted_at && row.links?.some(link => link.target_id === cardId))
+          .sort((a, b) => a.title.localeCompare(b.title))
+          .map(dbToCard);
+      } catch (error) {
+        console.error('Error fetching backlinks:', error);
+        throw new Error(`Failed to fetch backlinks: ${errorMessage(error)}`);
+      }
+    },
+
+    async create(card, id, dateAdded) {
+      assertValidCardColumns(cardToDb(card));
+      const now = new Date().toISOString();
+      const row: DatabaseCard = {
+        ...cardToDb(card),
+        id: id ?? crypto.randomUUID(),
+        date_added: dateAdded ?? now,
+        created_at: now,
+        updated_at: now,
+        deleted_at: null,
+      };
+
+      try {
+        await putRow(null, row);
+      } catch (error) {
+        console.error('Error creating card:', error);
+        throw new Error(`Failed to create card: ${errorMessage(error)}`);
+      }
+
+      const created = dbToCard(row);
+      notify({ type: 'INSERT', card: created });
+      return created;
+    },
+
+    async update(id, updates, expectedVersion) {
+      assertValidCardColumns(updatesToDb(updates), true);
+      let before: DatabaseCard;
+      let row: DatabaseCard;
+      try {
+        const existing = await getRow(id);
+        if (!existing) {
+          throw new Error(`Card ${id} not found`);
+        }
+        if (expectedVersion && existing.updated_at !== expectedVersion) {
+          throw new CardConflictError(dbToCard(existing));
+        }
+        before = existing;
+        row = { ...existing, ...updatesToDb(updates), updated_at: new Date().toISOString() };
+        await putRow(existing, row);
+      } catch (error) {
+        if (error instanceof CardConflictError) {
+          throw error;
+        }
+        console.error('Error updating card:', error);
+        throw new Error(`Failed to update card: ${errorMessage(error)}`);
+      }
+
+      const updated = dbToCard(row);
+      notify({ type: 'UPDATE', card: updated, previous: listedCard(before) });
+      return updated;
+    },
+
+    async delete(id) {
+      let row: DatabaseCard;
+      try {
+        row = await setDeletedAt(id, new Date().toISOString());
+      } catch (error) {
+        console.error('Error deleting card:', error);
+        throw new Error(`Failed to delete card: ${errorMessage(error)}`);
+      }
+
+      notify({ type: 'DELETE', id, previous: listedCard({ ...row, deleted_at: null }) });
+    },
+
+    async getTrash() {
+      try {
+        const rows = partitionCardRows(await getAllRows()).valid;
+        return rows
+          .filter((row): row is DatabaseCard & { deleted_at: string } => !!row.deleted_at)
+          .sort((a, b) => b.deleted_at.localeCompare(a.deleted_at))
+          .map(dbToTrashedCard);
+      } catch (error) {
+        console.error('Error fetching trash:', error);
+        throw new Error(`Failed to fetch trash: ${errorMessage(error)}`);
+      }
+    },
+
+    async restore(id) {
+      let row: DatabaseCard;
+      try {
+        row = await setDeletedAt(id, null);
+      } catch (error) {
+        console.error('Error restoring card:', error);
+        throw new Error(`Failed to restore card: ${errorMessage(error)}`);
+      }
+
+      const restored = dbToCard(row);
+      if (isValidCardRow(row)) {
+        notify({ type: 'INSERT', card: restored });
+      }
+      return restored;
+    },
+
+    async purge(id) {
+      try {
+        await purgeRows([id]);
+      } catch (error) {
+        console.error('Error purging card:', error);
+        throw new Error(`Failed to purge card: ${errorMessage(error)}`);
+      }
+    },
+
+    async purgeExpiredTrash(retentionDays) {
+      try {
+        const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+        const expired = (await getAllRows())
+          .filter(row => row.deleted_at && row.deleted_at < cutoff)
+          .map(row => row.id);
+        if (expired.length > 0) {
+          await purgeRows(expired);
+        }
+        return expired.length;
+      } catch (error) {
+        console.error('Error purging expired trash:', error);
+        throw new Error(`Failed to purge expired trash: ${errorMessage(error)}`);
+      }
+    },
+
+    async getInvalid() {
+      try {
+        const rows = await getAllRows();
+        return partitionCardRows(rows.sort((a, b) => b.created_at.localeCompare(a.created_at))).invalid;
+      } catch (error) {
+        console.error('Error fetching invalid cards:', error);
+        throw new Error(`Failed to fetch invalid cards: ${errorMessage(error)}`);
+      }
+    },
+
+    async repair(id, columns) {
+      assertValidCardColumns(columns);
+      let row: DatabaseCard;
+      try {
+        const existing = await getRow(id);
+        if (!existing) {
+          throw new Error(`Card ${id} not found`);
+        }
+        row = { ...existing, ...withDerivedColumns(columns), updated_at: new Date().toISOString() };
+        const db = await openDatabase();
+        const transaction = db.transaction(STORE, 'readwrite');
+        transaction.objectStore(STORE).put(row);
+        await transactionDone(transaction);
+      } catch (error) {
+        console.error('Error repairing card:', error);
+        throw new Error(`Failed to repair card: ${errorMessage(error)}`);
+      }
+
+      const repaired = dbToCard(row);
+      if (!row.deleted_at) {
+        notify({ type: 'INSERT', card: repaired });
+      }
+      return repaired;
+    },
+
+    async getRevisions(cardId) {
+      try {
+        const db = await openDatabase();
+        const rows = await requestToPromise<DatabaseRevision[]>(
+          db.transaction(REVISIONS_STORE, 'readonly').objectStore(REVISIONS_STORE).index('card_id').getAll(cardId)
+        );
+        return rows
+          .sort((a, b) => b.created_at.localeCompare(a.created_at))
+          .map(dbToRevision);
+      } catch (error) {
+        console.error('Error fetching card revisions:', error);
+        throw new Error(`Failed to fetch card revisions: ${errorMessage(error)}`);
+      }
+    },
+
+    subscribe(listener, onStatusChange) {
+      listeners.add(listener);
+      // Local changes are delivered in-process, so the connection is always live
+      onStatusChange?.('live');
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
@@ -0,0 +1,56 @@
+import { openDatabase, requestToPromise, transactionDone } from '../../lib/indexedDb';
+import type { ProblemStatus } from '../../types/card';
+import type { ProblemStatuses, ProgressRepository } from '../progressRepository';
+
+const STORE = 'problemProgress';
+
+interface StoredProgress {
+  key: string;
+  status: ProblemStatus;
+  updated_at: string;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Progress repository backed by the browser's IndexedDB, for running without Supabase
+ */
+export function createIndexedDbProgressRepository(): ProgressRepository {
+  return {
+    async getStatuses() {
+      try {
+        const db = await openDatabase();
+        const rows = await requestToPromise<StoredProgress[]>(
+          db.transaction(STORE, 'readonly').objectStore(STORE).getAll()
+        );
+        const statuses: ProblemStatuses = {};
+        rows.forEach(row => {
+          statuses[row.key] = row.status;
+        });
+        return statuses;
+      } catch (error) {
+        console.error('Error fetching problem progress:', error);
+        throw new Error(`Failed to fetch problem progress: ${errorMessage(error)}`);
+      }
+    },
+
+    async setStatus(key, status) {
+      try {
+        const db = await openDatabase();
+        const transaction = db.transaction(STORE, 'readwrite');
+        const store = transaction.objectStore(STORE);
+        if (status) {
+          store.put({ key, status, updated_at: new Date().toISOString() } satisfies StoredProgress);
+        } else {
+          store.delete(key);
+        }
+        await transactionDone(transaction);
+      } catch (error) {
+        console.error('Error saving problem progress:', error);
+        throw new Error(`Failed to save problem progress: ${errorMessage(error)}`);
+      }
+    },
+  };
+}
@@ -0,0 +1,50 @@
+import { openDatabase, requestToPromise, transactionDone } from '../../lib/indexedDb';
+import type { ReviewSchedule } from '../../types/review';
+import {
+  dbToReviewSchedule,
+  reviewScheduleToDb,
+  type DatabaseReviewSchedule,
+  type ReviewRepository,
+} from '../reviewRepository';
+
+const STORE = 'reviews';
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Review repository backed by the browser's IndexedDB, for running without Supabase
+ */
+export function createIndexedDbReviewRepository(): ReviewRepository {
+  return {
+    async getSchedules() {
+      try {
+        const db = await openDatabase();
+        const rows = await requestToPromise<DatabaseReviewSchedule[]>(
+          db.transaction(STORE, 'readonly').objectStore(STORE).getAll()
+        );
+        const schedules: Record<string, ReviewSchedule> = {};
+        rows.forEach(row => {
+          schedules[row.card_id] = dbToReviewSchedule(row);
+        });
+        return schedules;
+      } catch (error) {
+        console.error('Error fetching review schedules:', error);
+        throw new Error(`Failed to fetch review schedules: ${errorMessage(error)}`);
+      }
+    },
+
+    async saveSchedule(schedule) {
+      try {
+        const db = await openDatabase();
+        const transaction = db.transaction(STORE, 'readwrite');
+        transaction.objectStore(STORE).put(reviewScheduleToDb(schedule));
+        await transactionDone(transaction);
+      } catch (error) {
+        console.error('Error saving review:', error);
+        throw new Error(`Failed to save review: ${errorMessage(error)}`);
+      }
+    },
+  };
+}
@@ -0,0 +1,419 @@
+import { getSupabase } from '../../lib/supabase';
+import { getCurrentUser, getUserDisplayName } from '../../lib/currentUser';
+import {
+  buildRevisionRow,
+  cardToDb,
+  dbToCard,
+  dbToRevision,
+  dbToTrashedCard,
+  updatesToDb,
+  withDerivedColumns,
+  type DatabaseCard,
+  type DatabaseRevision,
+} from '../cardMapper';
+import type { CardChangeListener, CardRepository, ConnectionStatusListener } from '../cardRepository';
+import type { SortOption } from '../../types/cardQuery';
+import { CardConflictError } from '../cardErrors';
+import { assertValidCardColumns, listedCard, partitionCardRows } from '../cardValidation';
+import { complexityRank } from '../../utils/complexity';
+
+const TABLE = 'cards';
+const REVISIONS_TABLE = 'card_revisions';
+
+/**
+ * Columns to order by for each sort option. `id` is the final tie-breaker so
+ * pages stay stable when many cards share a title or date.
+ */
+const SORT_COLUMNS: Record<SortOption, { column: string; ascending: boolean }[]> = {
+  alphabetical: [{ column: 'title', ascending: true }],
+  difficulty: [{ column: 'difficulty_rank', ascending: true }, { column: 'title', ascending: true }],
+  date: [{ column: 'date_added', ascending: false }],
+  classification: [{ column: 'classification', ascending: true }, { column: 'title', ascending: true }],
+  complexity: [{ column: 'time_complexity_rank', ascending: true }, { column: 'title', ascending: true }],
+} as const;
+
+/**
+ * Turn a search term into a quoted PostgREST `or` value holding a regular expression
+ * that matches it literally. Every character is searched for as typed, as it is
+ * offline; `ilike` can't do that, since PostgREST reads any `*` in it as a wildcard.
+ */
+function searchPattern(term: string): string {
+  const regex = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return `"${regex.replace(/["\\]/g, '\\$&')}"`;
+}
+
+/**
+ * Card repository backed by the Supabase `cards` table
+ */
+export function createSupabaseCardRepository(): CardRepository {
+  const supabase = getSupabase();
+
+  // History is best-effort: a failure here is logged but does not undo the write itself.
+  // The database records a card's baseline before its first edit, and sets the author and
+  // time of every revision, so they can't be forged.
+  const recordRevision = async (before: DatabaseCard | null, after: DatabaseCard) => {
+    try {
+      const user = await getCurrentUser();
+      const row = buildRevisionRow(before, after, {
+        id: user?.id ?? null,
+        name: user ? getUserDisplayName(user) : null,
+      });
+
+      const { error } = await supabase.from(REVISIONS_TABLE).insert(row);
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error recording card revision:', error);
+    }
+  };
+
+  return {
+    backend: 'supabase',
+
+    async getAll() {
+      const { data, error } = await supabase
+        .from(TABLE)
+        .select('*')
+        .is('deleted_at', null)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching cards:', error);
+        throw new Error(`Failed to fetch cards: ${error.message}`);
+      }
+
+      return partitionCardRows((data || []) as DatabaseCard[]).valid.map(dbToCard);
+    },
+
+    async query({ filters, page, pageSize }) {
+      const from = (page - 1) * pageSize;
+      let query = supabase
+        .from(TABLE)
+        .select('*', { count: 'exact' })
+        .is('deleted_at', null);
+
+      if (filters.classifications.length > 0) {
+        query = query.in('classification', filters.classifications);
+      }
+      if (filters.difficulties.length > 0) {
+        query = query.in('difficulty', filters.difficulties);
+      }
+      if (filters.tags.length > 0) {
+        query = query.overlaps('tags', filters.tags);
+      }
+      const maxRank = complexityRank(filters.maxTimeComplexity);
+      if (maxRank !== null) {
+        query = query.lte('time_complexity_rank', maxRank);
+      }
+
+      const search = filters.searchQuery.trim();
+      if (search) {
+        // tags_text holds the tags one per line, so a substring of any tag matches
+        const pattern = searchPattern(search);
+        query = query.or(
+          `title.imatch.${pattern},explanation.imatch.${pattern},code.imatch.${pattern},tags_text.imatch.${pattern}`
+        );
+      }
+
+      [...SORT_COLUMNS[filters.sortBy], { column: 'id', ascending: true }].forEach(({ column, ascending }) => {
+        query = query.order(column, { ascending, nullsFirst: false });
+      });
+
+      const { data, error, count } = await query.range(from, from + pageSize - 1);
+
+      if (error) {
+        console.error('Error querying cards:', error);
+        throw new Error(`Failed to query cards: ${error.message}`);
+      }
+
+      // Quarantined rows still count towards the total, so a page can come back a little short
+      return {
+        cards: partitionCardRows((data || []) as DatabaseCard[]).valid.map(dbToCard),
+        total: count ?? 0,
+      };
+    },
+
+    async getTags() {
+      const { data, error } = await supabase
+        .from(TABLE)
+        .select('tags')
+        .is('deleted_at', null);
+
+      if (error) {
+        console.error('Error fetching tags:', error);
+        throw new Error(`Failed to fetch tags: ${error.message}`);
+      }
+
+      const tags = new Set<string>();
+      ((data || []) as Pick<DatabaseCard, 'tags'>[]).forEach(row => {
+        if (Array.isArray(row.tags)) {
+          row.tags.forEach(tag => tags.add(tag));
+        }
+      });
+      return Array.from(tags).sort();
+    },
+
+    async getByIds(ids) {
+      if (ids.length === 0) return [];
+      const { data, error } = await supabase
+        .from(TABLE)
+        .select('*')
+        .in('id', ids)
+        .is('deleted_at', null);
+
+      if (error) {
+        console.error('Error fetching cards:', error);
+        throw new Error(`Failed to fetch cards: ${error.message}`);
+      }
+
+      return partitionCardRows((data || []) as DatabaseCard[]).valid.map(dbToCard);
+    },
+
+    async getBacklinks(cardId) {
+      // jsonb containment: any link object whose target_id is the card
+      const { data, error } = await supabase
+        .from(TABLE)
+        .select('*')
+        .filter('links', 'cs', JSON.stringify([{ target_id: cardId }]))
+        .is('deleted_at', null)
+        .order('title', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching backlinks:', error);
+        throw new Error(`Failed to fetch backlinks: ${error.message}`);
+      }
+
+      return partitionCardRows((data || []) as DatabaseCard[]).valid.map(dbToCard);
+    },
+
+    async create(card, id, dateAdded) {
+      const columns = cardToDb({ ...card, dateAdded });
+      assertValidCardColumns(columns);
+      const query = id
+        ? supabase.from(TABLE).upsert({ ...columns, id })
+        : supabase.from(TABLE).insert(columns);
+      const { data, error } = await query
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating card:', error);
+        throw new Error(`Failed to create card: ${error.message}`);
+      }
+
+      await recordRevision(null, data);
+      return dbToCard(data);
+    },
+
+    async update(id, updates, expectedVersion) {
+      assertValidCardColumns(updatesToDb(updates), true);
+      const { data: before, error: fetchError } = await supabase
+        .from(TABLE)
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (fetchError) {
+        console.error('Error updating card:', fetchError);
+        throw new Error(`Failed to update card: ${fetchError.message}`);
+      }
+
+      if (expectedVersion && before.updated_at !== expectedVersion) {
+        throw new CardConflictError(dbToCard(before));
+      }
+
+      // Bump the version ourselves and make the write conditional on the version we read,
+      // so a save that lands between the read and the write is still caught
+      let query = supabase
+        .from(TABLE)
+        .update({ ...updatesToDb(updates), updated_at: new Date().toISOString() })
+        .eq('id', id);
+      if (expectedVersion) {
+        query = query.eq('updated_at', expectedVersion);
+      }
+      const { data, error } = await query.select();
+
+      if (error) {
+        console.error('Error updating card:', error);
+        throw new Error(`Failed to update card: ${error.message}`);
+      }
+
+      if (!data || data.length === 0) {
+        const { data: current, error: currentError } = await supabase
+          .from(TABLE)
+          .select('*')
+          .eq('id', id)
+          .single();
+        if (currentError) {
+          console.error('Error updating card:', currentError);
+          throw new Error(`Failed to update card: ${currentError.message}`);
+        }
+        throw new CardConflictError(dbToCard(current));
+      }
+
+      await recordRevision(before, data[0]);
+      return dbToCard(data[0]);
+    },
+
+    async delete(id) {
+      const { error } = await supabase
+        .from(TABLE)
+        .update({ deleted_at: new Date().toISOString() })
+        .eq('id', id);
+
+      if (error) {
+        console.error('Error deleting card:', error);
+        throw new Error(`Failed to delete card: ${error.message}`);
+      }
+    },
+
+    async getTrash() {
+      const { data, error } = await supabase
+        .from(TABLE)
+        .select('*')
+        .not('deleted_at', 'is', null)
+        .order('deleted_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching trash:', error);
+        throw new Error(`Failed to fetch trash: ${error.message}`);
+      }
+
+      return partitionCardRows((data || []) as DatabaseCard[]).valid
+        .map(row => dbToTrashedCard(row as DatabaseCard & { deleted_at: string }));
+    },
+
+    async restore(id) {
+      const { data, error } = await supabase
+        .from(TABLE)
+        .update({ deleted_at: null })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error restoring card:', error);
+        throw new Error(`Failed to restore card: ${error.message}`);
+      }
+
+      return dbToCard(data);
+    },
+
+    async purge(id) {
+      // Revisions are removed by the foreign key's ON DELETE CASCADE, and links to the
+      // card by a trigger
+      const { error } = await supabase
+        .from(TABLE)
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        console.error('Error purging card:', error);
+        throw new Error(`Failed to purge card: ${error.message}`);
+      }
+    },
+
+    async purgeExpiredTrash() {
+      // A scheduled job in the database purges expired trash with the server's clock
+      return 0;
+    },
+
+    async getInvalid() {
+      const { data, error } = await supabase
+        .from(TABLE)
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching invalid cards:', error);
+        throw new Error(`Failed to fetch invalid cards: ${error.message}`);
+      }
+
+      return partitionCardRows((data || []) as DatabaseCard[]).invalid;
+    },
+
+    async repair(id, columns) {
+      assertValidCardColumns(columns);
+      // The function refuses callers who aren't admins
+      const { data, error } = await supabase
+        .rpc('repair_card', { card_id: id, columns: withDerivedColumns(columns) })
+        .single();
+
+      if (error) {
+        console.error('Error repairing card:', error);
+        throw new Error(`Failed to repair card: ${error.message}`);
+      }
+
+      return dbToCard(data as DatabaseCard);
+    },
+
+    async getRevisions(cardId) {
+      const { data, error } = await supabase
+        .from(REVISIONS_TABLE)
+        .select('*')
+        .eq('card_id', cardId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching card revisions:', error);
+        throw new Error(`Failed to fetch card revisions: ${error.message}`);
+      }
+
+      return ((data || []) as DatabaseRevision[]).map(dbToRevision);
+    },
+
+    subscribe(listener: CardChangeListener, onStatusChange?: ConnectionStatusListener) {
+      const channel = supabase
+        .channel('cards-changes')
+        .on<DatabaseCard>(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: TABLE,
+          },
+          (payload) => {
+            // The table's replica identity is full, so updates carry the whole old row.
+            // Deletes only carry its id under row level security, so what was deleted is unknown.
+            const old = payload.old as Partial<DatabaseCard>;
+            const oldKnown = old.title !== undefined;
+            const previous = oldKnown ? listedCard(old as DatabaseCard) : undefined;
+            const wasListed = !oldKnown || previous !== undefined;
+
+            if (payload.eventType === 'DELETE') {
+              if (old.id && wasListed) {
+                listener({ type: 'DELETE', id: old.id, previous });
+              }
+              return;
+            }
+            const card = listedCard(payload.new);
+            if (!card) {
+              // Moving a card to the trash is an update, but to readers the card is gone.
+              // The same goes for a row that was broken by a write from outside the app.
+              if (wasListed) {
+                listener({ type: 'DELETE', id: payload.new.id, previous });
+              }
+            } else if (payload.eventType === 'INSERT' || !wasListed) {
+              // Likewise a card restored from the trash or repaired is new to readers
+              listener({ type: 'INSERT', card });
+            } else {
+              listener({ type: 'UPDATE', card, previous });
+            }
+          }
+        )
+        .subscribe((status) => {
+          if (status === 'SUBSCRIBED') {
+            onStatusChange?.('live');
+          } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+            // The client keeps retrying the channel on its own
+            onStatusChange?.('reconnecting');
+          } else if (status === 'CLOSED') {
+            onStatusChange?.('offline');
+          }
+        });
+
+      return () => {
+        supabase.removeChannel(channel);
+      };
+    },
+  };
+}
@@ -0,0 +1,57 @@
+import { getSupabase } from '../../lib/supabase';
+import { getCurrentUser } from '../../lib/currentUser';
+import type { ProblemStatus } from '../../types/card';
+import type { ProblemStatuses, ProgressRepository } from '../progressRepository';
+
+const TABLE = 'problem_progress';
+
+interface DatabaseProgress {
+  user_id: string;
+  problem_key: string;
+  status: ProblemStatus;
+  updated_at: string;
+}
+
+/**
+ * Progress repository backed by the Supabase `problem_progress` table. Row level
+ * security limits every query to the signed-in user's own rows.
+ */
+export function createSupabaseProgressRepository(): ProgressRepository {
+  const supabase = getSupabase();
+
+  return {
+    async getStatuses() {
+      const { data, error } = await supabase.from(TABLE).select('problem_key, status');
+
+      if (error) {
+        console.error('Error fetching problem progress:', error);
+        throw new Error(`Failed to fetch problem progress: ${error.message}`);
+      }
+
+      const statuses: ProblemStatuses = {};
+      (data as Pick<DatabaseProgress, 'problem_key' | 'status'>[]).forEach(row => {
+        statuses[row.problem_key] = row.status;
+      });
+      return statuses;
+    },
+
+    async setStatus(key, status) {
+      const user = await getCurrentUser();
+      if (!user) {
+        throw new Error('Failed to save problem progress: not signed in');
+      }
+
+      const { error } = status
+        ? await supabase.from(TABLE).upsert(
+          { user_id: user.id, problem_key: key, status, updated_at: new Date().toISOString() } satisfies DatabaseProgress,
+          { onConflict: 'user_id,problem_key' }
+        )
+        : await supabase.from(TABLE).delete().eq('user_id', user.id).eq('problem_key', key);
+
+      if (error) {
+        console.error('Error saving problem progress:', error);
+        throw new Error(`Failed to save problem progress: ${error.message}`);
+      }
+    },
+  };
+}
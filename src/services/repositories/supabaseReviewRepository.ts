@@ -0,0 +1,52 @@
+import { getSupabase } from '../../lib/supabase';
+import { getCurrentUser } from '../../lib/currentUser';
+import type { ReviewSchedule } from '../../types/review';
+import {
+  dbToReviewSchedule,
+  reviewScheduleToDb,
+  type DatabaseReviewSchedule,
+  type ReviewRepository,
+} from '../reviewRepository';
+
+const TABLE = 'card_reviews';
+
+/**
+ * Review repository backed by the Supabase `card_reviews` table. Row level
+ * security limits every query to the signed-in user's own rows.
+ */
+export function createSupabaseReviewRepository(): ReviewRepository {
+  const supabase = getSupabase();
+
+  return {
+    async getSchedules() {
+      const { data, error } = await supabase.from(TABLE).select('*');
+
+      if (error) {
+        console.error('Error fetching review schedules:', error);
+        throw new Error(`Failed to fetch review schedules: ${error.message}`);
+      }
+
+      const schedules: Record<string, ReviewSchedule> = {};
+      ((data || []) as DatabaseReviewSchedule[]).forEach(row => {
+        schedules[row.card_id] = dbToReviewSchedule(row);
+      });
+      return schedules;
+    },
+
+    async saveSchedule(schedule) {
+      const user = await getCurrentUser();
+      if (!user) {
+        throw new Error('Failed to save review: not signed in');
+      }
+
+      const { error } = await supabase
+        .from(TABLE)
+        .upsert({ ...reviewScheduleToDb(schedule), user_id: user.id }, { onConflict: 'user_id,card_id' });
+
+      if (error) {
+        console.error('Error saving review:', error);
+        throw new Error(`Failed to save review: ${error.message}`);
+      }
+    },
+  };
+}
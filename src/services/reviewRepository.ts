@@ -0,0 +1,72 @@
+import type { ReviewGrade, ReviewSchedule } from '../types/review';
+import { getConfiguredBackend } from './cardRepository';
+import { createSupabaseReviewRepository } from './repositories/supabaseReviewRepository';
+import { createIndexedDbReviewRepository } from './repositories/indexedDbReviewRepository';
+
+/**
+ * Database schema type for a review schedule (snake_case)
+ */
+export interface DatabaseReviewSchedule {
+  card_id: string;
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  due_at: string;
+  last_reviewed_at: string;
+  last_grade: number;
+}
+
+/**
+ * Transform a database review schedule to the ReviewSchedule interface
+ */
+export function dbToReviewSchedule(row: DatabaseReviewSchedule): ReviewSchedule {
+  return {
+    cardId: row.card_id,
+    easeFactor: row.ease_factor,
+    intervalDays: row.interval_days,
+    repetitions: row.repetitions,
+    dueAt: row.due_at,
+    lastReviewedAt: row.last_reviewed_at,
+    lastGrade: row.last_grade as ReviewGrade,
+  };
+}
+
+/**
+ * Transform a ReviewSchedule to database format
+ */
+export function reviewScheduleToDb(schedule: ReviewSchedule): DatabaseReviewSchedule {
+  return {
+    card_id: schedule.cardId,
+    ease_factor: schedule.easeFactor,
+    interval_days: schedule.intervalDays,
+    repetitions: schedule.repetitions,
+    due_at: schedule.dueAt,
+    last_reviewed_at: schedule.lastReviewedAt,
+    last_grade: schedule.lastGrade,
+  };
+}
+
+/**
+ * Storage backend for the signed-in user's review schedules
+ */
+export interface ReviewRepository {
+  /** Fetch the user's schedule for every card they have reviewed, keyed by card id */
+  getSchedules(): Promise<Record<string, ReviewSchedule>>;
+  /** Save the schedule worked out after a review, replacing the card's previous one */
+  saveSchedule(schedule: ReviewSchedule): Promise<void>;
+}
+
+let repository: ReviewRepository | null = null;
+
+/**
+ * Get the review repository for the configured backend
+ * @returns Shared review repository
+ */
+export function getReviewRepository(): ReviewRepository {
+  if (!repository) {
+    repository = getConfiguredBackend() === 'supabase'
+      ? createSupabaseReviewRepository()
+      : createIndexedDbReviewRepository();
+  }
+  return repository;
+}
@@ -0,0 +1,78 @@
+import type { CardLanguage, TestCase } from '../types/card';
+import { executeCode, type RunOptions } from './codeExecutor';
+import { ExecutorError } from './executorErrors';
+import { buildTestProgram, compareOutput, readTestOutput } from '../utils/testCases';
+
+/**
+ * Outcome of running one test case
+ */
+export interface TestResult {
+  testCase: TestCase;
+  passed: boolean;
+  actual: string; // Output the code produced, compared against testCase.expected
+  error?: string; // Set when the test could not be run, or the program printed only to stderr
+}
+
+/**
+ * Passed and total counts of a test run
+ */
+export interface TestSummary {
+  passed: number;
+  total: number;
+}
+
+/**
+ * Run test cases against code, one at a time
+ * @param code - Code under test
+ * @param language - Language of the code
+ * @param testCases - Tests to run, in order
+ * @param onResult - Called as each test finishes, for showing progress
+ * @param options - Signal to cancel the run, and a callback for waits before retries
+ * @returns A result per test, in order. A test that cannot be run fails with an error
+ *   instead of stopping the run.
+ * @throws {ExecutorError} With kind 'cancelled' when the run is cancelled; the tests
+ *   that finished before it were already passed to onResult
+ */
+export async function runTestCases(
+  code: string,
+  language: CardLanguage,
+  testCases: TestCase[],
+  onResult?: (result: TestResult, index: number) => void,
+  options: RunOptions = {}
+): Promise<TestResult[]> {
+  const results: TestResult[] = [];
+  // One after the other: the executor rate-limits bursts of requests
+  for (const [index, testCase] of testCases.entries()) {
+    if (options.signal?.aborted) throw new ExecutorError('cancelled', 'Run cancelled.');
+    let result: TestResult;
+    try {
+      const program = buildTestProgram(code, language, testCase);
+      const { stdout, stderr } = await executeCode(program.code, language, program.stdin, undefined, options);
+      const actual = readTestOutput(testCase, stdout);
+      result = {
+        testCase,
+        passed: compareOutput(testCase.expected, actual, testCase.comparator, testCase.tolerance),
+        actual,
+        error: !stdout && stderr ? stderr : undefined,
+      };
+    } catch (error) {
+      if (error instanceof ExecutorError && error.kind === 'cancelled') throw error;
+      result = {
+        testCase,
+        passed: false,
+        actual: '',
+        error: error instanceof Error ? error.message : 'Failed to run test',
+      };
+    }
+    results.push(result);
+    onResult?.(result, index);
+  }
+  return results;
+}
+
+/**
+ * Count the passing results of a test run
+ */
+export function summarizeResults(results: TestResult[]): TestSummary {
+  return { passed: results.filter(result => result.passed).length, total: results.length };
+}
@@ -0,0 +1,64 @@
+import type { CardLanguage } from '../types/card';
+import type { TestSummary } from './testRunner';
+
+const STORAGE_KEY = 'toolbox-test-summaries';
+
+/**
+ * Result of the last test run of a card, as remembered on this device
+ */
+export interface StoredTestSummary extends TestSummary {
+  language: CardLanguage; // Implementation the tests ran against
+  ranAt: string;
+}
+
+export type TestSummaries = Record<string, StoredTestSummary>;
+
+type TestSummariesListener = (summaries: TestSummaries) => void;
+
+const listeners = new Set<TestSummariesListener>();
+
+/**
+ * Load the last test run of every card run on this device
+ * @returns Summaries by card id
+ */
+export function loadTestSummaries(): TestSummaries {
+  try {
+    const saved: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    return saved && typeof saved === 'object' && !Array.isArray(saved) ? (saved as TestSummaries) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Remember the result of a card's test run, replacing its previous one
+ * @param cardId - Card whose tests ran
+ * @param summary - Passed and total counts of the run
+ * @param language - Implementation the tests ran against
+ */
+export function saveTestSummary(cardId: string, summary: TestSummary, language: CardLanguage): void {
+  const summaries = { ...loadTestSummaries(), [cardId]: { ...summary, language, ranAt: new Date().toISOString() } };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(summaries));
+  } catch (error) {
+    // Storage can be full or disabled; the result is still shown until the page is reloaded
+    console.error('Error saving test summary:', error);
+  }
+  listeners.forEach(listener => listener(summaries));
+}
+
+/**
+ * Listen for test runs saved in this tab or another one
+ * @returns Function that stops listening
+ */
+export function subscribeToTestSummaries(listener: TestSummariesListener): () => void {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) listener(loadTestSummaries());
+  };
+  listeners.add(listener);
+  window.addEventListener('storage', handleStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', handleStorage);
+  };
+}
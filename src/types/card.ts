@@ -7,6 +7,57 @@ export interface Method {
   timeComplexity: string;
 }
 
+export interface Implementation {
+  language: CardLanguage;
+  code: string;
+}
+
+export type ProblemPlatform = 'leetcode' | 'codeforces' | 'hackerrank' | 'other';
+export type ProblemStatus = 'todo' | 'attempted' | 'solved';
+
+export interface RelatedProblem {
+  platform: ProblemPlatform;
+  number?: string; // e.g. "42" on LeetCode, "1520A" on Codeforces
+  title: string;
+  url?: string;
+  difficulty?: CardDifficulty;
+  notes?: string;
+}
+
+export type CardLinkType = 'prerequisite' | 'related' | 'variant-of' | 'used-by';
+
+export interface CardLink {
+  type: CardLinkType; // How this card relates to the target, e.g. a 'prerequisite' link points at what it builds on
+  targetId: string;
+}
+
+export type TestInputMode = 'stdin' | 'args';
+export type TestComparator = 'exact' | 'unordered' | 'float';
+
+export interface TestCase {
+  name?: string;
+  mode: TestInputMode; // 'stdin' runs the program with the input; 'args' calls a function with it
+  input: string; // Text for stdin, or the call's arguments written in the code's language, e.g. "[2, 7, 11, 15], 9"
+  functionName?: string; // For 'args': the function to call, defaulting to the first one the code defines
+  expected: string;
+  comparator?: TestComparator; // How output is matched: 'exact' (the default), 'unordered' lines/items, or 'float' within a tolerance
+  tolerance?: number; // For 'float': the largest difference allowed between numbers
+}
+
+export interface InputSet {
+  name: string; // e.g. "Sample 1", "Empty grid"
+  stdin: string;
+  args?: string[]; // Command-line arguments passed to the program
+}
+
+export interface CodeVariant {
+  name: string; // e.g. "Iterative", "Memoized", "Hoare partition"
+  language: CardLanguage;
+  code: string;
+  timeComplexity?: string;
+  spaceComplexity?: string;
+}
+
 export interface Card {
   id: string;
   title: string;
@@ -19,8 +70,31 @@ export interface Card {
   methods?: Method[]; // For data structures: common methods with their time complexities
   tags: string[];
   useCases?: string[];
-  relatedProblems?: string[];
+  relatedProblems?: RelatedProblem[];
   dateAdded?: string; // ISO date string for sorting
-  language?: CardLanguage;
+  language?: CardLanguage; // Language of `code`, the card's primary implementation
+  implementations?: Partial<Record<CardLanguage, string>>; // Code in other languages, keyed by language
+  variants?: CodeVariant[]; // Alternative approaches, in display order
+  links?: CardLink[]; // Links to other cards; links pointing here are worked out from the other cards
+  testCases?: TestCase[]; // Checks for `code`, run from the editor
+  inputSets?: InputSet[]; // Named inputs to run the code with from the editor
+  updatedAt?: string; // Version stamp of the stored row, used to detect concurrent edits
 }
 
+
+export interface TrashedCard extends Card {
+  deletedAt: string; // ISO date string of when the card was moved to the trash
+}
+
+export type CardRevisionKind = 'create' | 'update' | 'baseline';
+
+export interface CardRevision {
+  id: string;
+  cardId: string;
+  kind: CardRevisionKind; // 'baseline' captures a card's content from before history was recorded
+  snapshot: Omit<Card, 'id'>;
+  changedFields: string[];
+  authorId?: string;
+  authorName?: string;
+  createdAt: string;
+}
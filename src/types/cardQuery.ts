@@ -0,0 +1,23 @@
+import type { Card, CardClassification, CardDifficulty } from './card';
+
+export type SortOption = 'alphabetical' | 'difficulty' | 'date' | 'classification' | 'complexity';
+
+export interface FilterState {
+  classifications: CardClassification[];
+  difficulties: CardDifficulty[];
+  tags: string[];
+  searchQuery: string;
+  maxTimeComplexity: string | null; // Only cards whose time complexity grows no faster, e.g. 'O(n log n)'
+  sortBy: SortOption;
+}
+
+export interface CardQuery {
+  filters: FilterState;
+  page: number; // 1-based
+  pageSize: number;
+}
+
+export interface CardPage {
+  cards: Card[];
+  total: number; // Number of cards matching the filters across all pages
+}
@@ -0,0 +1,86 @@
+import type { CardLanguage } from './card';
+
+/**
+ * Body of a POST to an executor's /execute endpoint
+ */
+export interface ExecuteRequest {
+  language: CardLanguage;
+  code: string;
+  stdin?: string; // Left out when the program gets no input
+  args?: string[]; // Command-line arguments, left out when there are none
+}
+
+/**
+ * What an executor reports about one step of a run. Everything but the output is
+ * left out by executors that don't measure it.
+ */
+export interface PhaseResponse {
+  stdout: string;
+  stderr: string;
+  exitCode?: number | null; // null when the process was killed by a signal
+  signal?: string | null;
+  timedOut?: boolean;
+  timeMs?: number; // Wall time
+  memoryKb?: number; // Peak resident memory
+}
+
+/**
+ * Body an executor answers /execute with. `error` is set instead of the output when
+ * the code could not be run at all, e.g. for an unsupported language. `stdout` and
+ * `stderr` repeat the output of the last step that ran, for clients that predate
+ * `compile` and `run`.
+ */
+export interface ExecuteResponse {
+  stdout?: string;
+  stderr?: string;
+  error?: string;
+  compile?: PhaseResponse; // Only for languages with a build step
+  run?: PhaseResponse; // Left out when compiling failed
+}
+
+/**
+ * Body an executor answers GET /health with
+ */
+export interface HealthResponse {
+  ok: boolean;
+  languages?: CardLanguage[]; // Languages the executor can run
+}
+
+/**
+ * What a health check found: 'unknown' when the executor answered but has no /health endpoint
+ */
+export type ExecutorStatus = 'online' | 'offline' | 'unknown';
+
+export interface ExecutorHealth {
+  status: ExecutorStatus;
+  languages?: CardLanguage[];
+  latencyMs?: number;
+}
+
+export type ExecutionPhase = 'compile' | 'run';
+
+/**
+ * One step of running a program, as shown in the editor
+ */
+export interface PhaseResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null; // null when unknown, or when the program was killed
+  signal?: string;
+  timedOut: boolean;
+  wallTimeMs?: number;
+  peakMemoryKb?: number;
+}
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * A compiler message about a place in the source; lines and columns count from 1
+ */
+export interface CompilerDiagnostic {
+  line: number;
+  column?: number; // Left out when the compiler only reports the line
+  severity: DiagnosticSeverity;
+  message: string;
+  code?: string; // e.g. "TS2322" or "E0308"
+}
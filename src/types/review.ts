@@ -0,0 +1,25 @@
+import type { FilterState } from './cardQuery';
+
+/**
+ * How well a card was recalled, on the SM-2 scale: 0 is a blackout, 5 is perfect recall.
+ * Grades below 3 count as forgotten.
+ */
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+/**
+ * A user's review schedule for one card
+ */
+export interface ReviewSchedule {
+  cardId: string;
+  easeFactor: number; // Multiplier applied to the interval after each successful review
+  intervalDays: number;
+  repetitions: number; // Successful reviews in a row
+  dueAt: string; // ISO date string of the next review
+  lastReviewedAt: string;
+  lastGrade: ReviewGrade;
+}
+
+/**
+ * Which cards a review session draws from; empty lists match every card
+ */
+export type ReviewScope = Pick<FilterState, 'classifications' | 'difficulties' | 'tags'>;
@@ -0,0 +1,108 @@
+import type { Card } from '../types/card';
+import { LANGUAGES, formatLanguage } from './constants';
+import { formatProblem } from './problems';
+import { formatLinkType } from './cardLinks';
+import { formatComparator, formatTestCase } from './testCases';
+import { formatInputSet } from './inputSets';
+
+export type CardField = Exclude<keyof Card, 'id' | 'updatedAt'>;
+
+/**
+ * Display labels for every editable card field, in form order
+ */
+export const CARD_FIELD_LABELS: Record<CardField, string> = {
+  title: 'Title',
+  classification: 'Classification',
+  difficulty: 'Difficulty',
+  language: 'Language',
+  code: 'Code',
+  implementations: 'Other Languages',
+  variants: 'Variants',
+  explanation: 'Explanation',
+  timeComplexity: 'Time Complexity',
+  spaceComplexity: 'Space Complexity',
+  methods: 'Methods',
+  tags: 'Tags',
+  useCases: 'Use Cases',
+  relatedProblems: 'Related Problems',
+  links: 'Linked Cards',
+  testCases: 'Test Cases',
+  inputSets: 'Input Sets',
+  dateAdded: 'Date Added',
+} as const;
+
+export const CARD_FIELDS = Object.keys(CARD_FIELD_LABELS) as CardField[];
+
+/**
+ * Fields whose values are long enough to be compared line by line
+ */
+export const MULTILINE_FIELDS: readonly CardField[] = ['code', 'implementations', 'variants', 'explanation'] as const;
+
+/**
+ * Format a field value as plain text for display and comparison
+ * @param card - Card (or card snapshot) to read from
+ * @param field - Field to format
+ * @returns Text representation, empty string when unset
+ */
+export function formatFieldValue(card: Partial<Omit<Card, 'id'>>, field: CardField): string {
+  const value = card[field];
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (field === 'methods') {
+    return (card.methods ?? []).map(m => `${m.name}: ${m.timeComplexity}`).join('\n');
+  }
+  if (field === 'variants') {
+    return (card.variants ?? [])
+      .map(v => {
+        const complexity = [v.timeComplexity && `time ${v.timeComplexity}`, v.spaceComplexity && `space ${v.spaceComplexity}`]
+          .filter(Boolean)
+          .join(', ');
+        return `--- ${v.name} (${formatLanguage(v.language)}${complexity ? `; ${complexity}` : ''}) ---\n${v.code}`;
+      })
+      .join('\n');
+  }
+  if (field === 'implementations') {
+    return LANGUAGES
+      .filter(language => card.implementations?.[language] !== undefined)
+      .map(language => `--- ${formatLanguage(language)} ---\n${card.implementations?.[language]}`)
+      .join('\n');
+  }
+  if (field === 'relatedProblems') {
+    return (card.relatedProblems ?? [])
+      .map(p => [formatProblem(p), p.difficulty && `(${p.difficulty})`, p.url && `<${p.url}>`, p.notes && `- ${p.notes}`]
+        .filter(Boolean)
+        .join(' '))
+      .join('\n');
+  }
+  if (field === 'links') {
+    return (card.links ?? []).map(l => `${formatLinkType(l.type)} ${l.targetId}`).join('\n');
+  }
+  if (field === 'testCases') {
+    return (card.testCases ?? [])
+      .map((t, i) => {
+        const comparator = t.comparator && t.comparator !== 'exact'
+          ? ` [${formatComparator(t.comparator)}${t.comparator === 'float' && t.tolerance !== undefined ? ` ±${t.tolerance}` : ''}]`
+          : '';
+        return `${formatTestCase(t, i)} (${t.mode}): ${t.input} → ${t.expected}${comparator}`;
+      })
+      .join('\n');
+  }
+  if (field === 'inputSets') {
+    return (card.inputSets ?? []).map(formatInputSet).join('\n');
+  }
+  if (Array.isArray(value)) {
+    return field === 'tags' ? value.join(', ') : value.join('\n');
+  }
+  return String(value);
+}
+
+/**
+ * List the fields that differ between two versions of a card
+ * @param before - Earlier version
+ * @param after - Later version
+ * @returns Changed fields, in form order
+ */
+export function getChangedFields(before: Partial<Omit<Card, 'id'>>, after: Partial<Omit<Card, 'id'>>): CardField[] {
+  return CARD_FIELDS.filter(field => formatFieldValue(before, field) !== formatFieldValue(after, field));
+}
@@ -0,0 +1,211 @@
+import type { Card, CardLinkType } from '../types/card';
+
+/**
+ * An edge between two cards: an explicit link, or the tags they share
+ */
+export interface GraphEdge {
+  source: string;
+  target: string;
+  kind: 'link' | 'tag';
+  linkType?: CardLinkType; // For links: the type, read from `source`
+  tags: string[]; // For tag edges: the shared tags
+}
+
+export interface GraphNode {
+  card: Card;
+  x: number;
+  y: number;
+}
+
+/**
+ * Tags on more cards than this are too general to connect them, e.g. "array"
+ */
+export const MAX_TAG_GROUP_SIZE = 12;
+
+// Following an explicit link is a shorter step on a learning path than a shared tag
+const LINK_WEIGHT = 1;
+const TAG_WEIGHT = 2;
+
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+/**
+ * Work out the edges between cards. Links to cards not in the list are left out, and
+ * a pair of cards joined by a link gets no extra tag edge.
+ * @param cards - Cards shown in the graph
+ * @returns One edge per link, plus one edge per pair of cards sharing tags
+ */
+export function buildCardEdges(cards: Card[]): GraphEdge[] {
+  const ids = new Set(cards.map(card => card.id));
+  const edges: GraphEdge[] = [];
+  const linked = new Set<string>();
+
+  cards.forEach(card => {
+    (card.links ?? []).forEach(link => {
+      if (!ids.has(link.targetId) || link.targetId === card.id) return;
+      edges.push({ source: card.id, target: link.targetId, kind: 'link', linkType: link.type, tags: [] });
+      linked.add(pairKey(card.id, link.targetId));
+    });
+  });
+
+  const cardsByTag = new Map<string, string[]>();
+  cards.forEach(card => {
+    card.tags.forEach(tag => cardsByTag.set(tag, [...(cardsByTag.get(tag) ?? []), card.id]));
+  });
+
+  const shared = new Map<string, GraphEdge>();
+  cardsByTag.forEach((tagged, tag) => {
+    if (tagged.length > MAX_TAG_GROUP_SIZE) return;
+    tagged.forEach((a, i) => {
+      tagged.slice(i + 1).forEach(b => {
+        const key = pairKey(a, b);
+        if (linked.has(key)) return;
+        const edge = shared.get(key);
+        if (edge) {
+          edge.tags.push(tag);
+        } else {
+          shared.set(key, { source: a, target: b, kind: 'tag', tags: [tag] });
+        }
+      });
+    });
+  });
+
+  return [...edges, ...shared.values()];
+}
+
+/**
+ * Place cards with a force-directed layout: edges pull cards together, all cards push
+ * each other apart. The starting positions are fixed, so the same cards always get the same layout.
+ * @param cards - Cards to place
+ * @param edges - Edges between them
+ * @param width - Width of the area to fill
+ * @param height - Height of the area to fill
+ * @returns A node per card, in the order given
+ */
+export function layoutGraph(cards: Card[], edges: GraphEdge[], width: number, height: number): GraphNode[] {
+  const count = cards.length;
+  if (count === 0) return [];
+
+  const centerX = width / 2;
+  const centerY = height / 2;
+  const index = new Map(cards.map((card, i) => [card.id, i]));
+  // Start on a spiral so no two cards share a position
+  const x = cards.map((_, i) => centerX + Math.cos(i * 2.4) * 12 * Math.sqrt(i + 1));
+  const y = cards.map((_, i) => centerY + Math.sin(i * 2.4) * 12 * Math.sqrt(i + 1));
+  const ideal = Math.sqrt((width * height) / count) * 0.6;
+  const iterations = Math.min(300, 50 + Math.round(20000 / count));
+  let temperature = Math.max(width, height) / 10;
+
+  for (let step = 0; step < iterations; step++) {
+    const dx = new Array<number>(count).fill(0);
+    const dy = new Array<number>(count).fill(0);
+
+    for (let i = 0; i < count; i++) {
+      for (let j = i + 1; j < count; j++) {
+        const ox = x[i] - x[j];
+        const oy = y[i] - y[j];
+        const distance = Math.max(0.01, Math.hypot(ox, oy));
+        const push = (ideal * ideal) / distance;
+        dx[i] += (ox / distance) * push;
+        dy[i] += (oy / distance) * push;
+        dx[j] -= (ox / distance) * push;
+        dy[j] -= (oy / distance) * push;
+      }
+    }
+
+    edges.forEach(edge => {
+      const i = index.get(edge.source);
+      const j = index.get(edge.target);
+      if (i === undefined || j === undefined) return;
+      const ox = x[i] - x[j];
+      const oy = y[i] - y[j];
+      const distance = Math.max(0.01, Math.hypot(ox, oy));
+      // Links hold cards closer than shared tags do
+      const pull = ((distance * distance) / ideal) * (edge.kind === 'link' ? 1 : 0.5);
+      dx[i] -= (ox / distance) * pull;
+      dy[i] -= (oy / distance) * pull;
+      dx[j] += (ox / distance) * pull;
+      dy[j] += (oy / distance) * pull;
+    });
+
+    for (let i = 0; i < count; i++) {
+      // A weak pull to the center keeps unconnected cards from drifting off
+      dx[i] += (centerX - x[i]) * 0.05;
+      dy[i] += (centerY - y[i]) * 0.05;
+      const length = Math.max(0.01, Math.hypot(dx[i], dy[i]));
+      const move = Math.min(length, temperature);
+      x[i] += (dx[i] / length) * move;
+      y[i] += (dy[i] / length) * move;
+    }
+    temperature *= 0.97;
+  }
+
+  // Scale the result to fill the area, keeping its proportions
+  const margin = Math.min(width, height) * 0.08;
+  const minX = Math.min(...x);
+  const minY = Math.min(...y);
+  const spanX = Math.max(...x) - minX;
+  const spanY = Math.max(...y) - minY;
+  const scale = Math.min(
+    spanX > 0 ? (width - 2 * margin) / spanX : Infinity,
+    spanY > 0 ? (height - 2 * margin) / spanY : Infinity,
+    1
+  );
+  const offsetX = (width - spanX * scale) / 2;
+  const offsetY = (height - spanY * scale) / 2;
+  return cards.map((card, i) => ({
+    card,
+    x: offsetX + (x[i] - minX) * scale,
+    y: offsetY + (y[i] - minY) * scale,
+  }));
+}
+
+/**
+ * Find the shortest learning path between two cards, preferring explicit links over shared tags
+ * @param edges - Edges of the graph; both directions can be followed
+ * @param fromId - Card to start from
+ * @param toId - Card to reach
+ * @returns Card ids along the path, both ends included, or null if the cards are not connected
+ */
+export function findLearningPath(edges: GraphEdge[], fromId: string, toId: string): string[] | null {
+  if (fromId === toId) return [fromId];
+
+  const neighbors = new Map<string, { id: string; weight: number }[]>();
+  const connect = (a: string, b: string, weight: number) => {
+    neighbors.set(a, [...(neighbors.get(a) ?? []), { id: b, weight }]);
+  };
+  edges.forEach(edge => {
+    const weight = edge.kind === 'link' ? LINK_WEIGHT : TAG_WEIGHT;
+    connect(edge.source, edge.target, weight);
+    connect(edge.target, edge.source, weight);
+  });
+
+  // Dijkstra; graphs here are small enough that scanning for the closest card is fine
+  const distance = new Map<string, number>([[fromId, 0]]);
+  const previous = new Map<string, string>();
+  const done = new Set<string>();
+
+  while (!done.has(toId)) {
+    let from: string | null = null;
+    for (const [id, d] of distance) {
+      if (!done.has(id) && (from === null || d < (distance.get(from) ?? Infinity))) from = id;
+    }
+    if (from === null) return null;
+    done.add(from);
+
+    const reached = distance.get(from) ?? 0;
+    for (const { id, weight } of neighbors.get(from) ?? []) {
+      if (!done.has(id) && reached + weight < (distance.get(id) ?? Infinity)) {
+        distance.set(id, reached + weight);
+        previous.set(id, from);
+      }
+    }
+  }
+
+  const path = [toId];
+  while (path[0] !== fromId) {
+    path.unshift(previous.get(path[0]) as string);
+  }
+  return path;
+}
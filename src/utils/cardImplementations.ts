@@ -0,0 +1,47 @@
+import type { Card, CardLanguage, Implementation } from '../types/card';
+import { LANGUAGES } from './constants';
+
+type CardCode = Pick<Card, 'code' | 'language' | 'implementations'>;
+
+/**
+ * Language assumed for cards saved before the language was recorded
+ */
+export const DEFAULT_LANGUAGE: CardLanguage = 'python';
+
+/**
+ * List every implementation of a card
+ * @param card - Card to read from
+ * @returns The primary implementation first, then the others in language order
+ */
+export function getImplementations(card: CardCode): Implementation[] {
+  const primary = card.language || DEFAULT_LANGUAGE;
+  const others = LANGUAGES
+    .filter(language => language !== primary && card.implementations?.[language] !== undefined)
+    .map(language => ({ language, code: card.implementations?.[language] ?? '' }));
+  return [{ language: primary, code: card.code }, ...others];
+}
+
+/**
+ * Pick the implementation to show first
+ * @param card - Card to read from
+ * @param preferred - User's preferred language, if they have one
+ * @returns The implementation in the preferred language, falling back to the primary one
+ */
+export function getDefaultImplementation(card: CardCode, preferred?: CardLanguage): Implementation {
+  const implementations = getImplementations(card);
+  return implementations.find(impl => impl.language === preferred) ?? implementations[0];
+}
+
+/**
+ * Convert an ordered list of implementations back to card fields
+ * @param implementations - Implementations, primary first; must not be empty
+ * @returns The primary language and code, and the others keyed by language
+ */
+export function fromImplementations(implementations: Implementation[]): Required<CardCode> {
+  const [primary, ...others] = implementations;
+  return {
+    language: primary.language,
+    code: primary.code,
+    implementations: Object.fromEntries(others.map(impl => [impl.language, impl.code])),
+  };
+}
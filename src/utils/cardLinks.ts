@@ -0,0 +1,48 @@
+import type { Card, CardLinkType } from '../types/card';
+
+/**
+ * All link types, in picker order
+ */
+export const LINK_TYPES: readonly CardLinkType[] = ['prerequisite', 'related', 'variant-of', 'used-by'] as const;
+
+// How a link reads from the card that holds it, e.g. "Dijkstra builds on Heap"
+const LINK_LABELS: Record<CardLinkType, string> = {
+  prerequisite: 'Builds on',
+  related: 'Related to',
+  'variant-of': 'Variant of',
+  'used-by': 'Used by',
+} as const;
+
+// How the same link reads from the card it points at, e.g. "Heap is a prerequisite for Dijkstra"
+const BACKLINK_LABELS: Record<CardLinkType, string> = {
+  prerequisite: 'Prerequisite for',
+  related: 'Related to',
+  'variant-of': 'Has variant',
+  'used-by': 'Uses',
+} as const;
+
+/**
+ * Label for a link, read from the card that holds it
+ */
+export function formatLinkType(type: CardLinkType): string {
+  return LINK_LABELS[type];
+}
+
+/**
+ * Label for a link, read from the card it points at
+ */
+export function formatBacklinkType(type: CardLinkType): string {
+  return BACKLINK_LABELS[type];
+}
+
+/**
+ * Find the links other cards make to a card
+ * @param cardId - Card the links point at
+ * @param cards - Cards to search
+ * @returns Each linking card with the type of its link, in the order given
+ */
+export function findBacklinks(cardId: string, cards: Card[]): { type: CardLinkType; card: Card }[] {
+  return cards.flatMap(card => (card.links ?? [])
+    .filter(link => link.targetId === cardId && card.id !== cardId)
+    .map(link => ({ type: link.type, card })));
+}
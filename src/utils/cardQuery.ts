@@ -0,0 +1,111 @@
+import type { Card, CardDifficulty } from '../types/card';
+import type { CardPage, CardQuery, FilterState, SortOption } from '../types/cardQuery';
+import { complexityRank } from './complexity';
+
+export const DIFFICULTY_ORDER: Record<CardDifficulty | 'none', number> = {
+  easy: 1,
+  medium: 2,
+  hard: 3,
+  none: 4,
+} as const;
+
+/**
+ * Check whether a card passes the classification, difficulty, tag, complexity and search filters
+ * @param card - Card to check
+ * @param filters - Active filters
+ * @returns True if the card should be listed
+ */
+export function matchesFilters(card: Card, filters: FilterState): boolean {
+  if (filters.classifications.length > 0 && !filters.classifications.includes(card.classification)) {
+    return false;
+  }
+
+  if (filters.difficulties.length > 0 && !(card.difficulty && filters.difficulties.includes(card.difficulty))) {
+    return false;
+  }
+
+  if (filters.tags.length > 0 && !filters.tags.some(tag => card.tags.includes(tag))) {
+    return false;
+  }
+
+  // A bound that can't be read filters nothing; cards without a readable time
+  // complexity can't be shown to meet one that can
+  const maxRank = complexityRank(filters.maxTimeComplexity);
+  if (maxRank !== null) {
+    const rank = complexityRank(card.timeComplexity);
+    if (rank === null || rank > maxRank) {
+      return false;
+    }
+  }
+
+  const query = filters.searchQuery.trim().toLowerCase();
+  if (query) {
+    return (
+      card.title.toLowerCase().includes(query) ||
+      card.explanation.toLowerCase().includes(query) ||
+      card.code.toLowerCase().includes(query) ||
+      card.tags.some(tag => tag.toLowerCase().includes(query))
+    );
+  }
+
+  return true;
+}
+
+/**
+ * Compare two cards for the given sort option. Ties are broken by id, as the Supabase
+ * backend does, so both backends page through cards in the same order.
+ */
+export function compareCards(a: Card, b: Card, sortBy: SortOption): number {
+  return compareBySortKey(a, b, sortBy) || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+}
+
+function compareBySortKey(a: Card, b: Card, sortBy: SortOption): number {
+  switch (sortBy) {
+    case 'alphabetical':
+      return a.title.localeCompare(b.title);
+
+    case 'difficulty': {
+      const aDiff = a.difficulty || 'none';
+      const bDiff = b.difficulty || 'none';
+      return DIFFICULTY_ORDER[aDiff] - DIFFICULTY_ORDER[bDiff] || a.title.localeCompare(b.title);
+    }
+
+    case 'date': {
+      const aDate = a.dateAdded || '';
+      const bDate = b.dateAdded || '';
+      return bDate.localeCompare(aDate); // Newest first
+    }
+
+    case 'classification':
+      return a.classification.localeCompare(b.classification) ||
+             a.title.localeCompare(b.title);
+
+    case 'complexity': {
+      // Slowest-growing first; cards without a readable time complexity go last
+      const aRank = complexityRank(a.timeComplexity) ?? Infinity;
+      const bRank = complexityRank(b.timeComplexity) ?? Infinity;
+      return (aRank === bRank ? 0 : aRank < bRank ? -1 : 1) || a.title.localeCompare(b.title);
+    }
+
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Filter, sort and slice cards held in memory, for backends without a query engine
+ * @param cards - All cards
+ * @param query - Filters, sort and page to return
+ * @returns The requested page and the total number of matching cards
+ */
+export function queryCardsInMemory(cards: Card[], query: CardQuery): CardPage {
+  const matching = cards
+    .filter(card => matchesFilters(card, query.filters))
+    .sort((a, b) => compareCards(a, b, query.filters.sortBy));
+
+  const start = (query.page - 1) * query.pageSize;
+  return {
+    cards: matching.slice(start, start + query.pageSize),
+    total: matching.length,
+  };
+}
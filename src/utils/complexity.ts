@@ -0,0 +1,542 @@
+/**
+ * Case a bound describes, when a complexity lists more than one
+ */
+export type ComplexityCase = 'best' | 'average' | 'worst';
+
+/**
+ * One product in a complexity expression, e.g. n^2 log n or V 2^E.
+ * Each record maps a variable to its exponent (or, for exponentials, its base).
+ */
+export interface ComplexityTerm {
+  powers: Record<string, number>; // n^2 -> { n: 2 }
+  logs: Record<string, number>; // log^2 n -> { n: 2 }
+  exponentials: Record<string, number>; // 2^n -> { n: 2 }
+  factorials: Record<string, number>; // n! -> { n: 1 }
+}
+
+/**
+ * A single asymptotic bound: a sum of terms, with terms dominated by another one removed
+ */
+export interface ComplexityBound {
+  case?: ComplexityCase;
+  amortized: boolean;
+  terms: ComplexityTerm[];
+}
+
+/**
+ * A parsed complexity: one bound, or one per case in best, average, worst order
+ */
+export interface Complexity {
+  bounds: ComplexityBound[];
+}
+
+/**
+ * Common growth classes, slowest first, for pickers such as the complexity filter
+ */
+export const COMPLEXITY_CLASSES: readonly string[] = [
+  'O(1)',
+  'O(log n)',
+  'O(n)',
+  'O(n log n)',
+  'O(n^2)',
+  'O(n^3)',
+  'O(2^n)',
+  'O(n!)',
+] as const;
+
+const CASE_ORDER: readonly ComplexityCase[] = ['best', 'average', 'worst'] as const;
+
+const CASE_WORDS: Record<string, ComplexityCase> = {
+  best: 'best',
+  average: 'average',
+  avg: 'average',
+  expected: 'average',
+  worst: 'worst',
+} as const;
+
+// Conventional variables come first in a term (n m, V E); any others follow alphabetically
+const VARIABLE_ORDER: readonly string[] = ['n', 'm', 'k', 'V', 'E'] as const;
+
+type SymbolValue = '+' | '*' | '/' | '^' | '!' | '(' | ')';
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'variable'; name: string }
+  | { type: 'function'; name: 'log' | 'sqrt' }
+  | { type: 'symbol'; value: SymbolValue };
+
+type Expression = ComplexityTerm[];
+
+const SYMBOLS = '+*/^!()';
+
+function emptyTerm(): ComplexityTerm {
+  return { powers: {}, logs: {}, exponentials: {}, factorials: {} };
+}
+
+function isConstant(term: ComplexityTerm): boolean {
+  return [term.powers, term.logs, term.exponentials, term.factorials].every(part => Object.keys(part).length === 0);
+}
+
+/**
+ * Graph variables keep their conventional capitals; everything else is lower case
+ */
+function normalizeVariable(letter: string): string {
+  return /[ve]/i.test(letter) ? letter.toUpperCase() : letter.toLowerCase();
+}
+
+function tokenize(text: string): Token[] {
+  const source = text
+    // O(...), Θ(...) and Ω(...) only group their contents
+    .replace(/(^|[^a-z])(?:O|Θ|θ|Ω|ω|theta|omega)\s*\(/gi, '$1(')
+    .replace(/²/g, '^2')
+    .replace(/³/g, '^3')
+    .replace(/√/g, 'sqrt')
+    .replace(/[·×⋅∙]/g, '*');
+  const tokens: Token[] = [];
+  let idx = 0;
+
+  while (idx < source.length) {
+    const rest = source.slice(idx);
+    const space = /^\s+/.exec(rest);
+    const number = /^\d+(\.\d+)?/.exec(rest);
+    const fn = /^(log|lg|ln|sqrt)/i.exec(rest);
+
+    if (space) {
+      idx += space[0].length;
+    } else if (number) {
+      tokens.push({ type: 'number', value: Number(number[0]) });
+      idx += number[0].length;
+    } else if (fn) {
+      tokens.push({ type: 'function', name: fn[0].toLowerCase() === 'sqrt' ? 'sqrt' : 'log' });
+      idx += fn[0].length;
+    } else if (/[a-z]/i.test(source[idx])) {
+      // Runs of letters are variables multiplied together (nm, nlogn), but not whole words
+      const word = /^[a-z]+/i.exec(rest)?.[0] ?? '';
+      if (word.length >= 3 && !/log|lg|ln|sqrt/i.test(word)) {
+        throw new Error(`Unknown word "${word}"`);
+      }
+      tokens.push({ type: 'variable', name: normalizeVariable(source[idx]) });
+      idx += 1;
+    } else if (SYMBOLS.includes(source[idx])) {
+      tokens.push({ type: 'symbol', value: source[idx] as SymbolValue });
+      idx += 1;
+    } else {
+      throw new Error(`Unexpected "${source[idx]}"`);
+    }
+  }
+
+  return tokens;
+}
+
+function mergeInto(target: Record<string, number>, source: Record<string, number>, combine: (a: number, b: number) => number) {
+  Object.entries(source).forEach(([name, value]) => {
+    target[name] = name in target ? combine(target[name], value) : value;
+  });
+}
+
+function multiplyTerms(a: ComplexityTerm, b: ComplexityTerm): ComplexityTerm {
+  const product: ComplexityTerm = {
+    powers: { ...a.powers },
+    logs: { ...a.logs },
+    exponentials: { ...a.exponentials },
+    factorials: { ...a.factorials },
+  };
+  mergeInto(product.powers, b.powers, (x, y) => x + y);
+  mergeInto(product.logs, b.logs, (x, y) => x + y);
+  mergeInto(product.exponentials, b.exponentials, (x, y) => x * y);
+  mergeInto(product.factorials, b.factorials, (x, y) => x + y);
+  return product;
+}
+
+function multiply(a: Expression, b: Expression): Expression {
+  return a.flatMap(left => b.map(right => multiplyTerms(left, right)));
+}
+
+function raise(base: Expression, exponent: number): Expression {
+  if (exponent <= 0) {
+    throw new Error('Exponents must be positive');
+  }
+  if (base.length === 1) {
+    const [term] = base;
+    const scale = (part: Record<string, number>, combine: (value: number) => number) =>
+      Object.fromEntries(Object.entries(part).map(([name, value]) => [name, combine(value)]));
+    return [{
+      powers: scale(term.powers, value => value * exponent),
+      logs: scale(term.logs, value => value * exponent),
+      exponentials: scale(term.exponentials, value => value ** exponent),
+      factorials: scale(term.factorials, value => value * exponent),
+    }];
+  }
+  if (Number.isInteger(exponent) && exponent <= 4) {
+    let result = base;
+    for (let n = 1; n < exponent; n++) {
+      result = multiply(result, base);
+    }
+    return result;
+  }
+  throw new Error('Only whole powers up to 4 of a sum are supported');
+}
+
+/**
+ * The single variable an expression consists of, like n, or null if it is anything else
+ */
+function singleVariable(expression: Expression): string | null {
+  if (expression.length !== 1) return null;
+  const [term] = expression;
+  const names = Object.keys(term.powers);
+  if (names.length !== 1 || term.powers[names[0]] !== 1) return null;
+  return isConstant({ ...term, powers: {} }) ? names[0] : null;
+}
+
+/**
+ * log of a polynomial grows like the sum of the logs of its variables: log(V E^2) ~ log V + log E
+ */
+function logarithm(argument: Expression): Expression {
+  if (argument.some(term => !isConstant({ ...term, powers: {} }))) {
+    throw new Error('Logarithms of logarithms, exponentials or factorials are not supported');
+  }
+  const names = Array.from(new Set(argument.flatMap(term => Object.keys(term.powers))));
+  if (names.length === 0) {
+    return [emptyTerm()];
+  }
+  return names.map(name => ({ ...emptyTerm(), logs: { [name]: 1 } }));
+}
+
+/**
+ * Recursive-descent parser for the expression inside O(...):
+ *   sum     := product ('+' product)*
+ *   product := power (('*' | '/' number | <juxtaposition>) power)*
+ *   power   := primary ('!')? ('^' exponent)?
+ *   primary := number | variable | '(' sum ')' | log ['^' number] power | sqrt power
+ */
+function parseExpression(tokens: Token[]): Expression {
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const isSymbol = (token: Token | undefined, value: string) => token?.type === 'symbol' && token.value === value;
+  const expectSymbol = (value: string) => {
+    if (!isSymbol(peek(), value)) {
+      throw new Error(`Expected "${value}"`);
+    }
+    pos++;
+  };
+  const startsPrimary = (token: Token | undefined) =>
+    !!token && (token.type !== 'symbol' || token.value === '(');
+
+  const parseNumber = (): number => {
+    const token = peek();
+    if (isSymbol(token, '(')) {
+      pos++;
+      const value = parseNumber();
+      expectSymbol(')');
+      return value;
+    }
+    if (token?.type !== 'number') {
+      throw new Error('Expected a number');
+    }
+    pos++;
+    return token.value;
+  };
+
+  const parsePrimary = (): Expression => {
+    const token = peek();
+    if (!token) {
+      throw new Error('Unexpected end of expression');
+    }
+    pos++;
+
+    if (token.type === 'number') {
+      return [emptyTerm()];
+    }
+    if (token.type === 'variable') {
+      return [{ ...emptyTerm(), powers: { [token.name]: 1 } }];
+    }
+    if (token.type === 'function') {
+      let exponent = 1;
+      if (token.name === 'log' && isSymbol(peek(), '^')) {
+        pos++;
+        exponent = parseNumber();
+      }
+      const argument = parsePower();
+      return token.name === 'log' ? raise(logarithm(argument), exponent) : raise(argument, 0.5);
+    }
+    if (token.value === '(') {
+      const inner = parseSum();
+      expectSymbol(')');
+      return inner;
+    }
+    throw new Error(`Unexpected "${token.value}"`);
+  };
+
+  const parsePower = (): Expression => {
+    const baseToken = peek();
+    let base = parsePrimary();
+
+    if (isSymbol(peek(), '!')) {
+      pos++;
+      const name = singleVariable(base);
+      if (!name) {
+        throw new Error('Factorials are only supported of a single variable, e.g. n!');
+      }
+      base = [{ ...emptyTerm(), factorials: { [name]: 1 } }];
+    }
+
+    if (isSymbol(peek(), '^')) {
+      pos++;
+      const exponentToken = peek();
+      if (exponentToken?.type === 'number' || (isSymbol(exponentToken, '(') && tokens[pos + 1]?.type === 'number')) {
+        return raise(base, parseNumber());
+      }
+      // A variable exponent makes an exponential, which needs a numeric base: 2^n
+      const exponent = singleVariable(parsePower());
+      if (baseToken?.type !== 'number' || !exponent) {
+        throw new Error('Exponentials need a number base and a single variable exponent, e.g. 2^n');
+      }
+      return baseToken.value <= 1
+        ? [emptyTerm()]
+        : [{ ...emptyTerm(), exponentials: { [exponent]: baseToken.value } }];
+    }
+
+    return base;
+  };
+
+  const parseProduct = (): Expression => {
+    let result = parsePower();
+    for (;;) {
+      const token = peek();
+      if (isSymbol(token, '*')) {
+        pos++;
+        result = multiply(result, parsePower());
+      } else if (isSymbol(token, '/')) {
+        // Dividing by a constant does not change the growth rate
+        pos++;
+        parseNumber();
+      } else if (startsPrimary(token)) {
+        result = multiply(result, parsePower());
+      } else {
+        return result;
+      }
+    }
+  };
+
+  const parseSum = (): Expression => {
+    let result = parseProduct();
+    while (isSymbol(peek(), '+')) {
+      pos++;
+      result = [...result, ...parseProduct()];
+    }
+    return result;
+  };
+
+  if (tokens.length === 0) {
+    throw new Error('Missing expression');
+  }
+  const expression = parseSum();
+  if (pos < tokens.length) {
+    const token = tokens[pos];
+    throw new Error(`Unexpected "${token.type === 'number' ? token.value : token.type === 'symbol' ? token.value : token.name}"`);
+  }
+  return expression;
+}
+
+/**
+ * Growth of a term in one variable, comparable lexicographically:
+ * factorial beats exponential beats polynomial beats logarithmic
+ */
+function growthIn(term: ComplexityTerm, name: string): number[] {
+  return [term.factorials[name] ?? 0, term.exponentials[name] ?? 1, term.powers[name] ?? 0, term.logs[name] ?? 0];
+}
+
+/**
+ * Growth of a term with every variable treated as the same input size
+ */
+function overallGrowth(term: ComplexityTerm): number[] {
+  const sum = (part: Record<string, number>) => Object.values(part).reduce((total, value) => total + value, 0);
+  const product = Object.values(term.exponentials).reduce((total, value) => total * value, 1);
+  return [sum(term.factorials), product, sum(term.powers), sum(term.logs)];
+}
+
+function compareGrowth(a: number[], b: number[]): number {
+  for (let idx = 0; idx < a.length; idx++) {
+    if (a[idx] !== b[idx]) return a[idx] - b[idx];
+  }
+  return 0;
+}
+
+function variablesOf(term: ComplexityTerm): string[] {
+  return Array.from(new Set([term.powers, term.logs, term.exponentials, term.factorials].flatMap(Object.keys)));
+}
+
+function dominates(a: ComplexityTerm, b: ComplexityTerm): boolean {
+  const names = new Set([...variablesOf(a), ...variablesOf(b)]);
+  return Array.from(names).every(name => compareGrowth(growthIn(a, name), growthIn(b, name)) >= 0);
+}
+
+function compareVariables(a: string, b: string): number {
+  const rank = (name: string) => (VARIABLE_ORDER.includes(name) ? VARIABLE_ORDER.indexOf(name) : VARIABLE_ORDER.length);
+  return rank(a) - rank(b) || a.localeCompare(b);
+}
+
+function compareVariableLists(a: ComplexityTerm, b: ComplexityTerm): number {
+  const aNames = variablesOf(a).sort(compareVariables);
+  const bNames = variablesOf(b).sort(compareVariables);
+  for (let idx = 0; idx < Math.min(aNames.length, bNames.length); idx++) {
+    const order = compareVariables(aNames[idx], bNames[idx]);
+    if (order !== 0) return order;
+  }
+  return aNames.length - bNames.length || formatTerm(a).localeCompare(formatTerm(b));
+}
+
+function formatNumber(value: number): string {
+  return String(Number(value.toFixed(3)));
+}
+
+function formatTerm(term: ComplexityTerm): string {
+  const sorted = (part: Record<string, number>) => Object.keys(part).sort(compareVariables);
+  const parts = [
+    ...sorted(term.powers).map(name => {
+      const power = term.powers[name];
+      if (power === 1) return name;
+      if (power === 0.5) return `sqrt(${name})`;
+      return `${name}^${formatNumber(power)}`;
+    }),
+    ...sorted(term.logs).map(name =>
+      term.logs[name] === 1 ? `log ${name}` : `log^${formatNumber(term.logs[name])} ${name}`
+    ),
+    ...sorted(term.exponentials).map(name => `${formatNumber(term.exponentials[name])}^${name}`),
+    ...sorted(term.factorials).map(name =>
+      term.factorials[name] === 1 ? `${name}!` : `(${name}!)^${formatNumber(term.factorials[name])}`
+    ),
+  ];
+  return parts.length > 0 ? parts.join(' ') : '1';
+}
+
+/**
+ * Drop constant factors' leftovers: repeated terms and terms another term outgrows in every variable
+ */
+function simplify(expression: Expression): ComplexityTerm[] {
+  const unique = expression.filter(
+    (term, idx) => expression.findIndex(other => formatTerm(other) === formatTerm(term)) === idx
+  );
+  return unique
+    .filter(term => !unique.some(other => other !== term && dominates(other, term)))
+    .sort((a, b) => compareGrowth(overallGrowth(b), overallGrowth(a)) || compareVariableLists(a, b));
+}
+
+/**
+ * Split at commas and semicolons that are not inside parentheses
+ */
+function splitBounds(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let idx = 0; idx < text.length; idx++) {
+    const char = text[idx];
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if ((char === ',' || char === ';') && depth === 0) {
+      parts.push(text.slice(start, idx));
+      start = idx + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts.map(part => part.trim()).filter(Boolean);
+}
+
+function parseBound(text: string): ComplexityBound {
+  let rest = text;
+  let boundCase: ComplexityCase | undefined;
+
+  const caseMatch = /\b(best|average|avg|expected|worst)(?:[\s-]*case)?\b\s*:?/i.exec(rest);
+  if (caseMatch) {
+    boundCase = CASE_WORDS[caseMatch[1].toLowerCase()];
+    rest = rest.replace(caseMatch[0], ' ');
+  }
+  const amortized = /\bamorti[sz]ed\b/i.test(rest);
+  rest = rest.replace(/\b(?:amorti[sz]ed|time|space)\b\s*:?/gi, ' ').trim();
+
+  if (!rest) {
+    throw new Error(`Missing expression in "${text}"`);
+  }
+  try {
+    return { case: boundCase, amortized, terms: simplify(parseExpression(tokenize(rest))) };
+  } catch (error) {
+    throw new Error(`${error instanceof Error ? error.message : String(error)} in "${rest}"`);
+  }
+}
+
+/**
+ * Parse a free-text complexity such as "O(n log n)", "nlogn", "O(N*logN)", "O((V + E) log V)",
+ * "O(1) amortized" or "best O(n), worst O(n^2)". Constant factors and dominated terms are dropped.
+ * @param text - Complexity as typed
+ * @returns Parsed complexity
+ * @throws Error describing what could not be read
+ */
+export function parseComplexity(text: string): Complexity {
+  const parts = splitBounds(text);
+  if (parts.length === 0) {
+    throw new Error('Enter a complexity such as O(n log n)');
+  }
+
+  const bounds = parts.map(parseBound);
+  if (bounds.length > 1) {
+    if (bounds.some(bound => !bound.case)) {
+      throw new Error('When giving several bounds, label each one best, average or worst');
+    }
+    if (new Set(bounds.map(bound => bound.case)).size < bounds.length) {
+      throw new Error('Each case can only be given once');
+    }
+  }
+
+  return {
+    bounds: bounds.sort(
+      (a, b) => CASE_ORDER.indexOf(a.case ?? 'worst') - CASE_ORDER.indexOf(b.case ?? 'worst')
+    ),
+  };
+}
+
+/**
+ * Write a parsed complexity in canonical form, e.g. "O(n log n)" or "O(n) best, O(n^2) worst"
+ */
+export function formatComplexity(complexity: Complexity): string {
+  return complexity.bounds
+    .map(bound => [
+      `O(${bound.terms.map(formatTerm).join(' + ')})`,
+      bound.amortized ? 'amortized' : '',
+      bound.case ?? '',
+    ].filter(Boolean).join(' '))
+    .join(', ');
+}
+
+/**
+ * Canonical form of a complexity string
+ * @param text - Complexity as typed
+ * @returns Canonical form, or an empty string for blank input
+ * @throws Error if the text cannot be parsed
+ */
+export function normalizeComplexity(text: string): string {
+  return text.trim() ? formatComplexity(parseComplexity(text)) : '';
+}
+
+/**
+ * Sortable number for how fast a complexity grows: its worst (or only) bound, with every
+ * variable treated as the same input size, so O(V + E) ranks with O(n)
+ * @param text - Complexity as stored on a card
+ * @returns Rank, higher for faster growth, or null if the text is missing or cannot be parsed
+ */
+export function complexityRank(text: string | null | undefined): number | null {
+  if (!text?.trim()) return null;
+  let complexity: Complexity;
+  try {
+    complexity = parseComplexity(text);
+  } catch {
+    return null;
+  }
+
+  const bound = complexity.bounds[complexity.bounds.length - 1];
+  const [factorials, base, powers, logs] = bound.terms
+    .map(overallGrowth)
+    .reduce((max, growth) => (compareGrowth(growth, max) > 0 ? growth : max));
+  // Weights keep each component from spilling into the next for any realistic complexity
+  return factorials * 1e12 + Math.min(base, 999_999) * 1e6 + Math.min(powers, 999) * 1e3 + Math.min(logs, 999);
+}
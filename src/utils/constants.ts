@@ -36,6 +36,11 @@ export const LANGUAGES: readonly CardLanguage[] = [
   'kotlin',
 ] as const;
 
+/**
+ * Days a deleted card stays in the trash before it is purged for good
+ */
+export const TRASH_RETENTION_DAYS = Number(import.meta.env.VITE_TRASH_RETENTION_DAYS) || 30;
+
 /**
  * Difficulty color mapping
  */
@@ -45,6 +50,18 @@ export const DIFFICULTY_COLORS: Record<CardDifficulty, string> = {
   hard: '#c65a5a',
 } as const;
 
+/**
+ * Classification color mapping, for telling cards apart at a glance (e.g. in the graph view)
+ */
+export const CLASSIFICATION_COLORS: Record<CardClassification, string> = {
+  sorts: '#5b8fb8',
+  searches: '#8e6bbf',
+  algorithms: '#3e9e8f',
+  heuristics: '#c9803c',
+  patterns: '#b85b8f',
+  'data-structures': '#7a9a3c',
+} as const;
+
 /**
  * Default difficulty color for undefined/null values
  */
@@ -0,0 +1,79 @@
+import type { CardLanguage } from '../types/card';
+import type { CompilerDiagnostic, DiagnosticSeverity } from '../types/executor';
+
+// The executors save the code as main.<ext>, or Main.java
+const SOURCE_FILE = String.raw`(?:\S*\/)?(?:main|Main)\.[a-z]+`;
+
+// gcc, clang, go, kotlinc, erlc: "main.c:3:5: error: expected ';'", with the severity left out by go
+const LOCATED = new RegExp(String.raw`^${SOURCE_FILE}:(\d+):(\d+):\s*(?:(fatal error|error|warning|note|info)\s*:\s*)?(.*)$`, 'i');
+// tsc: "main.ts:1:19 - error TS1109: Expression expected."
+const TSC = new RegExp(String.raw`^${SOURCE_FILE}:(\d+):(\d+) - (error|warning|message) (TS\d+): (.*)$`);
+// javac: "Main.java:3: error: ';' expected", with the column marked by a caret two lines down
+const JAVAC = new RegExp(String.raw`^${SOURCE_FILE}:(\d+): (error|warning): (.*)$`);
+// rustc: "error[E0425]: cannot find value `x`" followed by " --> main.rs:3:5"
+const RUSTC_HEADER = /^(error|warning)(?:\[(E\d+)\])?: (.*)$/;
+const RUSTC_LOCATION = new RegExp(String.raw`^\s*--> ${SOURCE_FILE}:(\d+):(\d+)$`);
+// Python reports syntax errors as a traceback ending in the error
+const PYTHON_LOCATION = /^\s*File "(?:\S*\/)?main\.py", line (\d+)/;
+const PYTHON_SYNTAX_ERROR = /^(SyntaxError|IndentationError|TabError): (.*)$/;
+
+function severityOf(text: string | undefined): DiagnosticSeverity {
+  const lower = text?.toLowerCase();
+  if (lower === 'warning') return 'warning';
+  if (lower === 'note' || lower === 'info' || lower === 'message') return 'info';
+  return 'error';
+}
+
+function parsePython(lines: string[]): CompilerDiagnostic[] {
+  const last = lines.map(line => line.trimEnd()).filter(Boolean).pop() ?? '';
+  const error = PYTHON_SYNTAX_ERROR.exec(last);
+  const location = lines.map(line => PYTHON_LOCATION.exec(line)).filter(Boolean).pop();
+  // The traceback echoes the line without its indentation, so only the line is certain
+  return error && location ? [{ line: Number(location[1]), severity: 'error', message: `${error[1]}: ${error[2]}` }] : [];
+}
+
+/**
+ * Pick out the compiler messages that point at a place in the source
+ * @param output - What the compiler (or, for interpreted languages, the program) wrote to stderr
+ * @param language - Language of the code, which decides the message formats to look for
+ * @returns Diagnostics in the order they were reported
+ */
+export function parseDiagnostics(output: string, language: CardLanguage): CompilerDiagnostic[] {
+  const lines = output.replace(/\r\n?/g, '\n').split('\n');
+  if (language === 'python') return parsePython(lines);
+
+  const diagnostics: CompilerDiagnostic[] = [];
+  lines.forEach((text, index) => {
+    const tsc = TSC.exec(text);
+    if (tsc) {
+      diagnostics.push({ line: Number(tsc[1]), column: Number(tsc[2]), severity: severityOf(tsc[3]), message: tsc[5], code: tsc[4] });
+      return;
+    }
+    const located = LOCATED.exec(text);
+    if (located) {
+      diagnostics.push({ line: Number(located[1]), column: Number(located[2]), severity: severityOf(located[3]), message: located[4] });
+      return;
+    }
+    const javac = JAVAC.exec(text);
+    if (javac) {
+      const caret = lines[index + 2];
+      const column = caret !== undefined && /^\s*\^\s*$/.test(caret) ? caret.indexOf('^') + 1 : undefined;
+      diagnostics.push({ line: Number(javac[1]), column, severity: severityOf(javac[2]), message: javac[3] });
+      return;
+    }
+    const rustc = RUSTC_HEADER.exec(text);
+    if (rustc) {
+      const location = lines.slice(index + 1, index + 4).map(line => RUSTC_LOCATION.exec(line)).find(Boolean);
+      if (location) {
+        diagnostics.push({
+          line: Number(location[1]),
+          column: Number(location[2]),
+          severity: severityOf(rustc[1]),
+          message: rustc[3],
+          code: rustc[2],
+        });
+      }
+    }
+  });
+  return diagnostics;
+}
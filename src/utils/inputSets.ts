@@ -0,0 +1,78 @@
+import type { InputSet } from '../types/card';
+
+/**
+ * Split command-line text into arguments the way a shell does for the simple cases:
+ * whitespace separates arguments, quotes group them, and a backslash escapes the next character
+ * @param text - Arguments as typed, e.g. `3 "two words" 'a\b'`
+ * @returns The arguments
+ */
+export function parseArgs(text: string): string[] {
+  const args: string[] = [];
+  let current = '';
+  let started = false;
+  let quote: '"' | "'" | null = null;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else if (char === '\\' && quote === '"' && i + 1 < text.length) {
+        current += text[++i];
+      } else {
+        current += char;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      started = true;
+    } else if (char === '\\' && i + 1 < text.length) {
+      current += text[++i];
+      started = true;
+    } else if (/\s/.test(char)) {
+      if (started) args.push(current);
+      current = '';
+      started = false;
+    } else {
+      current += char;
+      started = true;
+    }
+  }
+  if (started) args.push(current);
+  return args;
+}
+
+/**
+ * Write arguments back as command-line text that parseArgs reads the same way
+ * @param args - Arguments
+ * @returns Text with arguments quoted where needed
+ */
+export function formatArgs(args: readonly string[] = []): string {
+  return args
+    .map(arg => (arg && !/[\s"'\\]/.test(arg) ? arg : `"${arg.replace(/["\\]/g, '\\$&')}"`))
+    .join(' ');
+}
+
+/**
+ * One-line summary of an input set, for listing it as text
+ */
+export function formatInputSet(inputSet: InputSet): string {
+  const stdin = inputSet.stdin.trim().replace(/\s+/g, ' ');
+  const parts = [
+    inputSet.args && inputSet.args.length > 0 && `args: ${formatArgs(inputSet.args)}`,
+    stdin && `stdin: ${stdin.length > 60 ? `${stdin.slice(0, 59)}…` : stdin}`,
+  ].filter(Boolean);
+  return `${inputSet.name}${parts.length > 0 ? ` (${parts.join('; ')})` : ''}`;
+}
+
+/**
+ * Add an input set to a list, replacing the one with the same name
+ * @param inputSets - Current sets
+ * @param inputSet - Set to save
+ * @returns The new list, with a replaced set kept in its place
+ */
+export function upsertInputSet(inputSets: readonly InputSet[], inputSet: InputSet): InputSet[] {
+  const index = inputSets.findIndex(s => s.name === inputSet.name);
+  return index === -1
+    ? [...inputSets, inputSet]
+    : inputSets.map((s, i) => (i === index ? inputSet : s));
+}
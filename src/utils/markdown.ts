@@ -0,0 +1,16 @@
+/**
+ * Reduce Markdown to plain text for short previews such as card tiles
+ * @param markdown - Markdown source
+ * @returns Text with code blocks, math and formatting markers removed
+ */
+export function markdownToPlainText(markdown: string): string {
+  return markdown
+    .replace(/```[\s\S]*?(```|$)/g, ' ')
+    .replace(/\$\$[\s\S]*?\$\$/g, ' ')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/[*~`$|]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
@@ -0,0 +1,115 @@
+import type { CardLanguage } from '../types/card';
+import { getBoilerplate } from './codeBoilerplate';
+
+// Opening lines of blocks that are not function definitions
+const CONTROL_KEYWORDS = /^(if|else|for|foreach|while|do|switch|match|loop|try|catch|finally|with|using|lock|synchronized|unsafe|return|new|defer|go)\b/;
+
+function indentOf(line: string): string {
+  return /^\s*/.exec(line)?.[0] ?? '';
+}
+
+/**
+ * Replace the bodies of Python functions with `pass`, keeping `main` and the code that calls them
+ */
+function stubPython(lines: string[]): string[] | null {
+  const out: string[] = [];
+  let stubbed = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const def = /^(\s*)(?:async\s+)?def\s+(\w+)/.exec(line);
+    if (!def || def[2] === 'main') {
+      out.push(line);
+      continue;
+    }
+
+    // A signature can span several lines; it ends at the line closing with ":"
+    while (i < lines.length - 1 && !/:\s*(#.*)?$/.test(lines[i])) {
+      out.push(lines[i]);
+      i++;
+    }
+    out.push(lines[i]);
+
+    const indent = def[1];
+    let end = i + 1;
+    while (end < lines.length && (!lines[end].trim() || indentOf(lines[end]).length > indent.length)) {
+      end++;
+    }
+    // Blank lines after the body separate it from what follows, so they stay
+    let bodyEnd = end;
+    while (bodyEnd > i + 1 && !lines[bodyEnd - 1].trim()) {
+      bodyEnd--;
+    }
+    out.push(`${indent}    # Your implementation here`, `${indent}    pass`, ...lines.slice(bodyEnd, end));
+    i = end - 1;
+    stubbed = true;
+  }
+
+  return stubbed ? out : null;
+}
+
+function isFunctionHeader(line: string): boolean {
+  const trimmed = line.trim();
+  if (!trimmed || trimmed.startsWith('}') || CONTROL_KEYWORDS.test(trimmed) || /\bmain\s*\(/.test(trimmed)) {
+    return false;
+  }
+  // `const name = (...) => {`
+  if (/^(export\s+)?(const|let|var)\s+\w+\s*=\s*(async\s+)?(\([^)]*\)|\w+)\s*(:\s*[^=]+)?=>\s*\{$/.test(trimmed)) {
+    return true;
+  }
+  // `[modifiers] [type] name(...) [return type] {`, with no call or assignment before the parameters
+  const paren = trimmed.indexOf('(');
+  return paren > 0 && /^[\w\s<>,[\]*&:?]+$/.test(trimmed.slice(0, paren)) && /\)[^;(){}=]*\{$/.test(trimmed);
+}
+
+/**
+ * Replace the bodies of functions in brace-delimited languages with a placeholder comment,
+ * keeping `main` and the code that calls them
+ */
+function stubBraces(lines: string[]): string[] | null {
+  const out: string[] = [];
+  let stubbed = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    out.push(line);
+    if (!isFunctionHeader(line)) continue;
+
+    // Find the line that closes the body; braces in strings and comments are rare enough to ignore
+    let depth = 1;
+    let end = i + 1;
+    for (; end < lines.length; end++) {
+      depth += (lines[end].match(/\{/g)?.length ?? 0) - (lines[end].match(/\}/g)?.length ?? 0);
+      if (depth <= 0) break;
+    }
+    if (end >= lines.length) {
+      // Unbalanced: leave the rest as it is
+      continue;
+    }
+
+    const indent = indentOf(line);
+    out.push(`${indent}    // Your implementation here`, lines[end]);
+    i = end;
+    stubbed = true;
+  }
+
+  return stubbed ? out : null;
+}
+
+/**
+ * Starting code for practicing a card: the reference solution with every function body
+ * emptied, so the signatures and the code that calls them stay. Falls back to the
+ * language's boilerplate when no functions can be found.
+ * @param code - Reference solution
+ * @param language - Language of the solution
+ * @returns Code for the user to fill in
+ */
+export function getPracticeStub(code: string, language: CardLanguage): string {
+  const lines = code.split('\n');
+  const stub = language === 'python'
+    ? stubPython(lines)
+    : language === 'ruby' || language === 'erlang'
+      ? null
+      : stubBraces(lines);
+  return stub ? stub.join('\n') : getBoilerplate(language);
+}
@@ -0,0 +1,190 @@
+import type { ProblemPlatform, ProblemStatus, RelatedProblem } from '../types/card';
+
+/**
+ * All problem platforms, in picker order
+ */
+export const PROBLEM_PLATFORMS: readonly ProblemPlatform[] = ['leetcode', 'codeforces', 'hackerrank', 'other'] as const;
+
+export const PROBLEM_STATUSES: readonly ProblemStatus[] = ['todo', 'attempted', 'solved'] as const;
+
+const PLATFORM_NAMES: Record<ProblemPlatform, string> = {
+  leetcode: 'LeetCode',
+  codeforces: 'Codeforces',
+  hackerrank: 'HackerRank',
+  other: 'Other',
+} as const;
+
+// Prefixes accepted before a problem number, e.g. "LC 42" or "Codeforces 1520A: Title"
+const SHORTHAND_PLATFORMS: Record<string, ProblemPlatform> = {
+  lc: 'leetcode',
+  leetcode: 'leetcode',
+  cf: 'codeforces',
+  codeforces: 'codeforces',
+} as const;
+
+/**
+ * Format a platform for display
+ */
+export function formatPlatform(platform: ProblemPlatform): string {
+  return PLATFORM_NAMES[platform];
+}
+
+/**
+ * Turn a URL slug like "two-sum" into a title like "Two Sum"
+ */
+function titleFromSlug(slug: string): string {
+  return slug
+    .split(/[-_]+/)
+    .filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+function parseProblemUrl(text: string): RelatedProblem | null {
+  let url: URL;
+  try {
+    url = new URL(/^https?:\/\//i.test(text) ? text : `https://${text}`);
+  } catch {
+    return null;
+  }
+  const host = url.hostname.replace(/^www\./, '');
+  const path = url.pathname.split('/').filter(Boolean);
+
+  if (host === 'leetcode.com' || host === 'leetcode.cn') {
+    const slug = path[0] === 'problems' ? path[1] : undefined;
+    if (!slug) return null;
+    return { platform: 'leetcode', title: titleFromSlug(slug), url: `https://${host}/problems/${slug}/` };
+  }
+
+  if (host === 'codeforces.com') {
+    // /problemset/problem/1520/A, /contest/1520/problem/A or /gym/102000/problem/B
+    const contest = path[0] === 'problemset' ? path[2] : path[1];
+    const index = path[3]?.toUpperCase();
+    if (!contest || !index || !/^\d+$/.test(contest)) return null;
+    return {
+      platform: 'codeforces',
+      number: `${contest}${index}`,
+      title: '',
+      url: path[0] === 'gym'
+        ? `https://codeforces.com/gym/${contest}/problem/${index}`
+        : `https://codeforces.com/problemset/problem/${contest}/${index}`,
+    };
+  }
+
+  if (host === 'hackerrank.com') {
+    const slug = path[0] === 'challenges' ? path[1] : undefined;
+    if (!slug) return null;
+    return { platform: 'hackerrank', title: titleFromSlug(slug), url: `https://www.hackerrank.com/challenges/${slug}/problem` };
+  }
+
+  return null;
+}
+
+function parseShorthand(text: string): RelatedProblem | null {
+  const match = /^(lc|leetcode|cf|codeforces)\s*#?\s*(\d+[a-z]?\d?)\b\s*(?:[:.\-–—]\s*)?(.*)$/i.exec(text);
+  if (!match) return null;
+  const platform = SHORTHAND_PLATFORMS[match[1].toLowerCase()];
+  const number = platform === 'codeforces' ? match[2].toUpperCase() : match[2];
+  return { platform, number, title: match[3].trim() };
+}
+
+/**
+ * Read a problem reference: a LeetCode, Codeforces or HackerRank URL, or shorthand like
+ * "LC 42", "LeetCode 704: Binary Search" or "CF 1520A"
+ * @param text - Pasted or typed reference
+ * @returns The problem fields that could be worked out, or null if the text is not a reference
+ */
+export function parseProblemReference(text: string): RelatedProblem | null {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+  return /^(https?:\/\/|www\.)|^[a-z.]+\.(com|cn)\//i.test(trimmed) ? parseProblemUrl(trimmed) : parseShorthand(trimmed);
+}
+
+/**
+ * Read a related problem saved as free text, before problems were structured
+ */
+export function problemFromText(text: string): RelatedProblem {
+  return parseProblemReference(text) ?? { platform: 'other', title: text.trim() };
+}
+
+/**
+ * Check that a saved URL is a web link, so it can go in an href. Links like
+ * `javascript:` would run code when opened.
+ */
+function isWebUrl(url: string): boolean {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Link for a problem: its URL, or a search on its platform when only the number is known
+ * @returns An http or https URL, or undefined when the problem has none; a saved URL with
+ *   any other scheme is not linked, and is shown as text only
+ */
+export function problemUrl(problem: RelatedProblem): string | undefined {
+  if (problem.url) return isWebUrl(problem.url) ? problem.url : undefined;
+  if (problem.platform === 'leetcode' && problem.number) {
+    return `https://leetcode.com/problemset/?search=${encodeURIComponent(problem.number)}`;
+  }
+  const codeforces = problem.platform === 'codeforces' && problem.number
+    ? /^(\d+)([A-Z]\d?)$/.exec(problem.number)
+    : null;
+  return codeforces ? `https://codeforces.com/problemset/problem/${codeforces[1]}/${codeforces[2]}` : undefined;
+}
+
+/**
+ * One-line description of a problem, e.g. "LeetCode 42: Trapping Rain Water"
+ */
+export function formatProblem(problem: RelatedProblem): string {
+  const reference = problem.number
+    ? `${problem.platform === 'other' ? '#' : `${formatPlatform(problem.platform)} `}${problem.number}`
+    : problem.platform === 'other' ? '' : formatPlatform(problem.platform);
+  return [reference, problem.title].filter(Boolean).join(': ');
+}
+
+/**
+ * Turn a title into the slug LeetCode gives it, e.g. "Pow(x, n)" into "powx-n"
+ */
+function slugFromTitle(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9\s-]/g, '').trim().replace(/[\s-]+/g, '-');
+}
+
+/**
+ * Slug of a LeetCode problem, from its URL or else its title
+ */
+function leetCodeSlug(problem: RelatedProblem): string {
+  const fromUrl = problem.url ? /leetcode\.(?:com|cn)\/problems\/([^/?#]+)/i.exec(problem.url) : null;
+  return fromUrl ? fromUrl[1].toLowerCase() : slugFromTitle(problem.title);
+}
+
+/**
+ * Stable identity of a problem, shared by every card that links to it, for solve status and de-duplication.
+ * LeetCode problems are known by their slug, so "LC 704: Binary Search" and a link to
+ * leetcode.com/problems/binary-search are the same problem; only by number when there is
+ * neither a link nor a title.
+ */
+export function problemKey(problem: RelatedProblem): string {
+  if (problem.platform === 'leetcode') {
+    const slug = leetCodeSlug(problem);
+    if (slug) return `leetcode:${slug}`;
+  }
+  return legacyProblemKey(problem);
+}
+
+/**
+ * Identity a problem had before LeetCode problems were keyed by slug, under which solve
+ * status may still be saved
+ */
+export function legacyProblemKey(problem: RelatedProblem): string {
+  if (problem.number && problem.platform !== 'other') {
+    return `${problem.platform}:${problem.number.toLowerCase()}`;
+  }
+  if (problem.url) {
+    return `url:${problem.url.toLowerCase().replace(/^https?:\/\/(www\.)?/, '').replace(/\/+$/, '')}`;
+  }
+  return `${problem.platform}:${problem.title.trim().toLowerCase()}`;
+}
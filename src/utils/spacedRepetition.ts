@@ -0,0 +1,97 @@
+import type { Card } from '../types/card';
+import type { ReviewGrade, ReviewSchedule, ReviewScope } from '../types/review';
+import { matchesFilters } from './cardQuery';
+
+/**
+ * Grades offered after revealing a card, from worst to best recall
+ */
+export const REVIEW_GRADES: readonly { grade: ReviewGrade; label: string }[] = [
+  { grade: 1, label: 'Again' },
+  { grade: 3, label: 'Hard' },
+  { grade: 4, label: 'Good' },
+  { grade: 5, label: 'Easy' },
+] as const;
+
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Schedule the next review of a card with the SM-2 algorithm: a forgotten card starts
+ * over at one day with its ease unchanged, a recalled one waits 1 day, then 6, then the last
+ * interval times its ease, and the ease rises or falls with how easy the recall was.
+ * @param cardId - Card that was reviewed
+ * @param previous - Card's schedule before this review, if it has been reviewed before
+ * @param grade - How well the card was recalled
+ * @param now - Time of the review
+ * @returns The card's new schedule
+ */
+export function scheduleReview(
+  cardId: string,
+  previous: ReviewSchedule | undefined,
+  grade: ReviewGrade,
+  now: Date = new Date()
+): ReviewSchedule {
+  const recalled = grade >= 3;
+  const previousEase = previous?.easeFactor ?? INITIAL_EASE;
+  // A lapse only restarts the intervals; the ease is adjusted on successful reviews alone
+  const easeFactor = recalled
+    ? Math.max(MIN_EASE, previousEase + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02)))
+    : previousEase;
+  const repetitions = recalled ? (previous?.repetitions ?? 0) + 1 : 0;
+  const intervalDays = !recalled || repetitions === 1
+    ? 1
+    : repetitions === 2
+      ? 6
+      : Math.round((previous?.intervalDays ?? 1) * easeFactor);
+
+  return {
+    cardId,
+    easeFactor,
+    intervalDays,
+    repetitions,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS).toISOString(),
+    lastReviewedAt: now.toISOString(),
+    lastGrade: grade,
+  };
+}
+
+/**
+ * Check whether a card is due; cards never reviewed are always due
+ */
+export function isDue(schedule: ReviewSchedule | undefined, now: Date = new Date()): boolean {
+  return !schedule || new Date(schedule.dueAt).getTime() <= now.getTime();
+}
+
+/**
+ * Build the review queue: due cards within the scope, most overdue first, then cards never reviewed
+ * @param cards - Cards to choose from
+ * @param schedules - User's schedules, keyed by card id
+ * @param scope - Classifications, difficulties and tags to draw from
+ * @param now - Current time
+ * @returns Cards to review, in order
+ */
+export function buildReviewQueue(
+  cards: Card[],
+  schedules: Record<string, ReviewSchedule>,
+  scope: ReviewScope,
+  now: Date = new Date()
+): Card[] {
+  const filters = { ...scope, searchQuery: '', maxTimeComplexity: null, sortBy: 'alphabetical' as const };
+  const dueTime = (card: Card) => {
+    const schedule = schedules[card.id];
+    return schedule ? new Date(schedule.dueAt).getTime() : Infinity;
+  };
+  return cards
+    .filter(card => matchesFilters(card, filters) && isDue(schedules[card.id], now))
+    .sort((a, b) => dueTime(a) - dueTime(b) || a.title.localeCompare(b.title));
+}
+
+/**
+ * Question shown before a card is revealed
+ */
+export function reviewPrompt(card: Card): string {
+  return card.classification === 'data-structures'
+    ? `What operations does ${card.title} support, and how fast is each?`
+    : `How does ${card.title} work, and what are its time and space complexities?`;
+}
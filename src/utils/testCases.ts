@@ -0,0 +1,172 @@
+import type { CardLanguage, TestCase, TestComparator, TestInputMode } from '../types/card';
+
+export const TEST_INPUT_MODES: readonly TestInputMode[] = ['stdin', 'args'] as const;
+
+export const TEST_COMPARATORS: readonly TestComparator[] = ['exact', 'unordered', 'float'] as const;
+
+/**
+ * Largest difference allowed between numbers by the 'float' comparator when a test sets none
+ */
+export const DEFAULT_FLOAT_TOLERANCE = 1e-6;
+
+/**
+ * Languages whose functions can be called with arguments; others are tested through stdin
+ */
+export const ARGS_LANGUAGES: readonly CardLanguage[] = ['python', 'javascript', 'typescript'] as const;
+
+const COMPARATOR_NAMES: Record<TestComparator, string> = {
+  exact: 'Exact',
+  unordered: 'Unordered',
+  float: 'Float tolerance',
+} as const;
+
+// Printed before a function's return value, so it can be told apart from what the code prints itself
+const RESULT_MARKER = '__toolbox_result__:';
+
+/**
+ * Format a comparator for display
+ */
+export function formatComparator(comparator: TestComparator): string {
+  return COMPARATOR_NAMES[comparator];
+}
+
+/**
+ * Short label for a test case: its name, or its input
+ */
+export function formatTestCase(testCase: TestCase, index: number): string {
+  if (testCase.name) return testCase.name;
+  const input = testCase.input.trim().replace(/\s+/g, ' ');
+  if (!input) return `Test ${index + 1}`;
+  const label = testCase.mode === 'args' ? `${testCase.functionName ?? ''}(${input})` : input;
+  return label.length > 40 ? `${label.slice(0, 39)}…` : label;
+}
+
+/**
+ * Identity of a test case, for de-duplication when lists are combined
+ */
+export function testCaseKey(testCase: TestCase): string {
+  return `${testCase.mode}:${testCase.functionName ?? ''}:${testCase.input.trim()}`;
+}
+
+/**
+ * Tidy program output for comparison: line endings, trailing spaces and surrounding blank lines
+ * don't count as differences
+ */
+export function normalizeOutput(output: string): string {
+  return output
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(line => line.trimEnd())
+    .join('\n')
+    .trim();
+}
+
+function parseJson(text: string): { value: unknown } | null {
+  try {
+    return { value: JSON.parse(text) };
+  } catch {
+    return null;
+  }
+}
+
+// JSON is compared by value, so "[0, 1]" matches "[0,1]"
+function canonical(text: string): string {
+  const normalized = normalizeOutput(text);
+  const json = parseJson(normalized);
+  return json ? JSON.stringify(json.value) : normalized;
+}
+
+function unorderedItems(text: string): string[] {
+  const normalized = normalizeOutput(text);
+  const json = parseJson(normalized);
+  const items = json && Array.isArray(json.value)
+    ? json.value.map(item => JSON.stringify(item))
+    : normalized.split('\n');
+  return items.sort();
+}
+
+function tokens(text: string): string[] {
+  return normalizeOutput(text).split(/[\s,;[\](){}]+/).filter(Boolean);
+}
+
+/**
+ * Check a program's output against the expected output
+ * @param expected - Output the test expects
+ * @param actual - Output the program produced
+ * @param comparator - 'exact' compares the text (and JSON by value); 'unordered' ignores the order
+ *   of lines, or of the items of a JSON array; 'float' compares numbers within `tolerance`
+ * @param tolerance - Largest difference allowed between numbers, for 'float'
+ * @returns True if the output matches
+ */
+export function compareOutput(
+  expected: string,
+  actual: string,
+  comparator: TestComparator = 'exact',
+  tolerance: number = DEFAULT_FLOAT_TOLERANCE
+): boolean {
+  if (comparator === 'unordered') {
+    const a = unorderedItems(expected);
+    const b = unorderedItems(actual);
+    return a.length === b.length && a.every((item, i) => item === b[i]);
+  }
+  if (comparator === 'float') {
+    const a = tokens(expected);
+    const b = tokens(actual);
+    return a.length === b.length && a.every((token, i) => {
+      const x = Number(token);
+      const y = Number(b[i]);
+      return Number.isFinite(x) && Number.isFinite(y) ? Math.abs(x - y) <= tolerance : token === b[i];
+    });
+  }
+  return canonical(expected) === canonical(actual);
+}
+
+/**
+ * Name of the first top-level function a piece of code defines
+ * @returns The function name, or null if none is found
+ */
+export function findFirstFunction(code: string, language: CardLanguage): string | null {
+  const pattern = language === 'python'
+    ? /^(?:async\s+)?def\s+(\w+)/m
+    : /^(?:export\s+)?(?:async\s+)?function\s*\*?\s*(\w+)|^(?:export\s+)?(?:const|let|var)\s+(\w+)\s*=\s*(?:async\s+)?(?:function\b|\([^)]*\)\s*(?::[^=]+)?=>|\w+\s*=>)/m;
+  const match = pattern.exec(code);
+  return match ? match[1] ?? match[2] : null;
+}
+
+/**
+ * Build the program to run for a test case
+ * @param code - Code under test
+ * @param language - Language of the code
+ * @param testCase - Test to run
+ * @returns The code to run and the stdin to feed it
+ * @throws Error if the test calls a function and the language or code doesn't allow it
+ */
+export function buildTestProgram(code: string, language: CardLanguage, testCase: TestCase): { code: string; stdin: string } {
+  if (testCase.mode === 'stdin') {
+    return { code, stdin: testCase.input };
+  }
+  if (!ARGS_LANGUAGES.includes(language)) {
+    throw new Error(`Function-argument tests can't run ${language} code; use stdin instead`);
+  }
+  const name = testCase.functionName || findFirstFunction(code, language);
+  if (!name) {
+    throw new Error('No function to call: set the function name on the test');
+  }
+  const call = `${name}(${testCase.input})`;
+  const harness = language === 'python'
+    ? `\n\nimport json as _toolbox_json\nprint(${JSON.stringify(RESULT_MARKER)} + _toolbox_json.dumps(${call}, default=list))\n`
+    : `\n;console.log(${JSON.stringify(RESULT_MARKER)} + JSON.stringify(${call}));\n`;
+  return { code: code + harness, stdin: '' };
+}
+
+/**
+ * Read a test's actual output from what its program printed
+ * @param testCase - Test that was run
+ * @param stdout - The program's output
+ * @returns For function calls, the printed return value; otherwise all of stdout
+ */
+export function readTestOutput(testCase: TestCase, stdout: string): string {
+  if (testCase.mode === 'stdin') return stdout;
+  const line = stdout.split('\n').reverse().find(l => l.startsWith(RESULT_MARKER));
+  return line === undefined ? stdout : line.slice(RESULT_MARKER.length);
+}
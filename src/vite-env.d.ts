@@ -0,0 +1,15 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SUPABASE_URL?: string;
+  readonly VITE_SUPABASE_ANON_KEY?: string;
+  readonly VITE_CARD_BACKEND?: string;
+  readonly VITE_TRASH_RETENTION_DAYS?: string;
+  readonly VITE_EXECUTOR_URL?: string;
+  readonly VITE_EXECUTOR_AUTH_HEADER?: string;
+  readonly VITE_EXECUTOR_AUTH_TOKEN?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -0,0 +1,120 @@
+/**
+ * Transpiles one JavaScript or TypeScript program off the main thread and gives every
+ * loop body a guard that stops runaway loops. The program itself never runs here: this
+ * worker shares the app's origin, so the page runs the output in the sandbox instead.
+ */
+
+import type * as TS from 'typescript';
+
+import type { CompilerDiagnostic, DiagnosticSeverity } from '../types/executor';
+import { LOOP_GUARD_NAME, type JsCompileRequest, type JsCompileResult } from './jsRunnerProtocol';
+
+let typescript: typeof TS | null = null;
+
+async function loadTypeScript(): Promise<typeof TS> {
+  if (!typescript) {
+    const mod = await import('typescript');
+    typescript = mod.default ?? mod;
+  }
+  return typescript;
+}
+
+/**
+ * Transformer that makes every loop body call the guard first
+ */
+function guardLoops(ts: typeof TS): TS.TransformerFactory<TS.SourceFile> {
+  return context => {
+    const { factory } = context;
+    const guarded = (body: TS.Statement): TS.Statement =>
+      factory.createBlock(
+        [
+          factory.createExpressionStatement(factory.createCallExpression(factory.createIdentifier(LOOP_GUARD_NAME), undefined, [])),
+          ...(ts.isBlock(body) ? body.statements : [body]),
+        ],
+        true
+      );
+
+    const visit = (node: TS.Node): TS.Node => {
+      const visited = ts.visitEachChild(node, visit, context);
+      if (ts.isForStatement(visited)) {
+        return factory.updateForStatement(visited, visited.initializer, visited.condition, visited.incrementor, guarded(visited.statement));
+      }
+      if (ts.isForInStatement(visited)) {
+        return factory.updateForInStatement(visited, visited.initializer, visited.expression, guarded(visited.statement));
+      }
+      if (ts.isForOfStatement(visited)) {
+        return factory.updateForOfStatement(visited, visited.awaitModifier, visited.initializer, visited.expression, guarded(visited.statement));
+      }
+      if (ts.isWhileStatement(visited)) {
+        return factory.updateWhileStatement(visited, visited.expression, guarded(visited.statement));
+      }
+      if (ts.isDoStatement(visited)) {
+        return factory.updateDoStatement(visited, guarded(visited.statement), visited.expression);
+      }
+      return visited;
+    };
+
+    return sourceFile => ts.visitNode(sourceFile, visit, ts.isSourceFile);
+  };
+}
+
+/**
+ * Transpile the program to JavaScript that runs as a function body. Static and
+ * dynamic imports both become `require` calls, which only reach the runner's shims.
+ * @returns The compile result to post to the page
+ */
+async function compile({ code, language }: JsCompileRequest): Promise<JsCompileResult> {
+  const started = performance.now();
+  const ts = await loadTypeScript();
+  const fileName = language === 'typescript' ? 'main.ts' : 'main.js';
+  const result = ts.transpileModule(code, {
+    fileName,
+    reportDiagnostics: true,
+    compilerOptions: {
+      target: ts.ScriptTarget.ES2020,
+      module: ts.ModuleKind.CommonJS,
+      allowJs: true,
+    },
+    transformers: { before: [guardLoops(ts)] },
+  });
+
+  const errors: string[] = [];
+  const diagnostics: CompilerDiagnostic[] = [];
+  (result.diagnostics ?? []).forEach(diagnostic => {
+    const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+    const severity: DiagnosticSeverity = diagnostic.category === ts.DiagnosticCategory.Error
+      ? 'error'
+      : diagnostic.category === ts.DiagnosticCategory.Warning ? 'warning' : 'info';
+    if (!diagnostic.file || diagnostic.start === undefined) {
+      errors.push(`${severity} TS${diagnostic.code}: ${message}`);
+      return;
+    }
+    const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+    errors.push(`${fileName}:${line + 1}:${character + 1} - ${severity} TS${diagnostic.code}: ${message}`);
+    diagnostics.push({ line: line + 1, column: character + 1, severity, message, code: `TS${diagnostic.code}` });
+  });
+  const failed = (result.diagnostics ?? []).some(diagnostic => diagnostic.category === ts.DiagnosticCategory.Error);
+  return {
+    ok: !failed,
+    js: result.outputText,
+    diagnostics,
+    errors: errors.length > 0 ? `${errors.join('\n')}\n` : '',
+    timeMs: Math.round(performance.now() - started),
+  };
+}
+
+self.onmessage = (event: MessageEvent<JsCompileRequest>) => {
+  compile(event.data)
+    .then(result => self.postMessage(result))
+    .catch(error => {
+      console.error('Error compiling code:', error);
+      const result: JsCompileResult = {
+        ok: false,
+        js: '',
+        diagnostics: [],
+        errors: `Failed to compile code: ${error instanceof Error ? error.message : String(error)}\n`,
+        timeMs: 0,
+      };
+      self.postMessage(result);
+    });
+};
@@ -0,0 +1,284 @@
+/**
+ * Runs one compiled JavaScript program in a worker that the sandbox frame starts from
+ * `jsRunnerSource`. Console output is streamed back, loop guards stop runaway loops and
+ * the page removes the frame, and with it the worker, as soon as the program is stopped
+ * or runs past its time limit.
+ *
+ * The runner is written as a single function whose source text becomes the worker's
+ * script, so it can't import anything or use anything declared outside it.
+ */
+
+import { LOOP_GUARD_NAME, type JsRunMessage, type JsRunRequest } from './jsRunnerProtocol';
+
+function runnerMain(guardName: string) {
+  // Globals a program could use to make requests, load scripts, start workers or
+  // message the frame directly. The frame's CSP and opaque origin already keep the
+  // program off the network and away from the app's storage; this is a second layer.
+  const BLOCKED_GLOBALS = [
+    'fetch',
+    'XMLHttpRequest',
+    'WebSocket',
+    'WebTransport',
+    'EventSource',
+    'indexedDB',
+    'caches',
+    'cookieStore',
+    'navigator',
+    'importScripts',
+    'postMessage',
+    'BroadcastChannel',
+    'Worker',
+    'SharedWorker',
+  ];
+
+  /**
+   * Thrown to stop the program; not reported as an error of the program's own
+   */
+  class StopRun extends Error {}
+
+  // Kept before the global is removed, so only the runner can reach the frame
+  const postToFrame = self.postMessage.bind(self);
+
+  const post = (message: JsRunMessage) => {
+    postToFrame(message);
+  };
+
+  /**
+   * Delete the blocked globals from the worker scope and every prototype it inherits
+   * them from, so they can't be reached through `Object.getPrototypeOf(self)` either
+   */
+  const removeBlockedGlobals = () => {
+    for (let scope: object | null = self; scope && scope !== Object.prototype; scope = Object.getPrototypeOf(scope)) {
+      for (const name of BLOCKED_GLOBALS) {
+        if (Object.prototype.hasOwnProperty.call(scope, name)) {
+          delete (scope as Record<string, unknown>)[name];
+        }
+      }
+    }
+  };
+
+  /**
+   * Format a value roughly the way Node's console does
+   */
+  const inspect = (value: unknown, seen: Set<unknown>, nested: boolean): string => {
+    if (typeof value === 'string') return nested ? `'${value}'` : value;
+    if (typeof value === 'bigint') return `${value}n`;
+    if (typeof value === 'function') return `[Function: ${value.name || '(anonymous)'}]`;
+    if (typeof value !== 'object' || value === null) return String(value);
+    if (value instanceof Error) {
+      // Keep the frames in the program itself, which the browser reports as anonymous
+      const frames = (value.stack ?? '').split('\n').filter(line => /^\s+at .*<anonymous>/.test(line));
+      return [`${value.name}: ${value.message}`, ...frames].join('\n');
+    }
+    if (seen.has(value)) return '[Circular]';
+
+    seen.add(value);
+    try {
+      const list = (open: string, items: string[], close: string) =>
+        items.length === 0 ? `${open}${close}` : `${open} ${items.join(', ')} ${close}`;
+      if (Array.isArray(value)) {
+        return list('[', value.map(item => inspect(item, seen, true)), ']');
+      }
+      if (value instanceof Map) {
+        const entries = [...value].map(([key, item]) => `${inspect(key, seen, true)} => ${inspect(item, seen, true)}`);
+        return `Map(${value.size}) ${list('{', entries, '}')}`;
+      }
+      if (value instanceof Set) {
+        return `Set(${value.size}) ${list('{', [...value].map(item => inspect(item, seen, true)), '}')}`;
+      }
+      const entries = Object.entries(value).map(([key, item]) => {
+        const name = /^[A-Za-z_$][\w$]*$/.test(key) ? key : `'${key}'`;
+        return `${name}: ${inspect(item, seen, true)}`;
+      });
+      return list('{', entries, '}');
+    } finally {
+      seen.delete(value);
+    }
+  };
+
+  const format = (args: unknown[]): string => args.map(arg => inspect(arg, new Set(), false)).join(' ');
+
+  const run = async (request: JsRunRequest) => {
+    let runStarted = performance.now();
+    let reported = false;
+    let exitCode = 0;
+    const reportDone = () => {
+      if (reported) return;
+      reported = true;
+      post({ type: 'done', exitCode, timeMs: Math.round(performance.now() - runStarted) });
+    };
+
+    // Once stopped, nothing more is printed, pending timers are abandoned and every
+    // loop guard throws again, so a program that catches StopRun can't carry on.
+    // The page also removes the frame when it hears the run is done.
+    let stopped = false;
+    const stop = (reason?: string, code = 1): never => {
+      if (!stopped) {
+        if (reason) post({ type: 'output', stream: 'stderr', text: `\n${reason}\n` });
+        exitCode = code;
+        stopped = true;
+        reportDone();
+      }
+      throw new StopRun();
+    };
+
+    let written = 0;
+    const write = (stream: 'stdout' | 'stderr', text: string) => {
+      if (stopped) stop();
+      written += text.length;
+      if (written > request.maxOutputBytes) {
+        stop(`Output limit exceeded (${request.maxOutputBytes} bytes)`);
+      }
+      post({ type: 'output', stream, text });
+    };
+    const reportError = (error: unknown) => {
+      if (!(error instanceof StopRun) && !stopped) {
+        post({ type: 'output', stream: 'stderr', text: `${format([error])}\n` });
+        exitCode = 1;
+      }
+    };
+
+    let iterations = 0;
+    const loopGuard = () => {
+      if (stopped) stop();
+      iterations++;
+      if (iterations > request.maxIterations) {
+        stop(`Loop limit exceeded (${request.maxIterations} iterations)`);
+      }
+    };
+
+    // Timers are tracked so the run only ends once the last callback has fired
+    const pendingTimers = new Set<number>();
+    const guardCallback = (callback: (...args: unknown[]) => void) => (...args: unknown[]) => {
+      try {
+        callback(...args);
+      } catch (error) {
+        reportError(error);
+      }
+    };
+    const timers = {
+      setTimeout: (callback: (...args: unknown[]) => void, delay?: number, ...args: unknown[]) => {
+        const id = self.setTimeout(() => {
+          pendingTimers.delete(id);
+          if (!stopped) guardCallback(callback)(...args);
+        }, delay);
+        pendingTimers.add(id);
+        return id;
+      },
+      clearTimeout: (id: number) => {
+        pendingTimers.delete(id);
+        self.clearTimeout(id);
+      },
+      setInterval: (callback: (...args: unknown[]) => void, delay?: number, ...args: unknown[]) => {
+        const id = self.setInterval(() => {
+          if (stopped) return;
+          guardCallback(() => loopGuard())();
+          guardCallback(callback)(...args);
+        }, delay);
+        pendingTimers.add(id);
+        return id;
+      },
+      clearInterval: (id: number) => {
+        pendingTimers.delete(id);
+        self.clearInterval(id);
+      },
+    };
+
+    const consoleShim = {
+      log: (...args: unknown[]) => write('stdout', `${format(args)}\n`),
+      info: (...args: unknown[]) => write('stdout', `${format(args)}\n`),
+      debug: (...args: unknown[]) => write('stdout', `${format(args)}\n`),
+      error: (...args: unknown[]) => write('stderr', `${format(args)}\n`),
+      warn: (...args: unknown[]) => write('stderr', `${format(args)}\n`),
+    };
+
+    const lines = request.stdin.split('\n');
+    if (lines[lines.length - 1] === '') lines.pop();
+    const modules: Record<string, unknown> = {
+      fs: {
+        readFileSync: (file: unknown) => {
+          if (file === 0 || file === '/dev/stdin') return request.stdin;
+          throw new Error(`ENOENT: no such file or directory, open '${String(file)}'`);
+        },
+      },
+      // Enough of readline for the usual ways of reading input line by line
+      readline: {
+        createInterface: () => {
+          const handlers: Record<string, ((line?: string) => void)[]> = {};
+          timers.setTimeout(() => {
+            for (const line of lines) handlers.line?.forEach(handler => handler(line));
+            handlers.close?.forEach(handler => handler());
+          }, 0);
+          const readlineInterface = {
+            on(event: string, handler: (line?: string) => void) {
+              (handlers[event] ??= []).push(handler);
+              return readlineInterface;
+            },
+            close() {},
+            async *[Symbol.asyncIterator]() {
+              yield* lines;
+            },
+          };
+          return readlineInterface;
+        },
+      },
+    };
+    const requireShim = (name: string) => {
+      const module = modules[name.replace(/^node:/, '')];
+      if (!module) throw new Error(`Cannot find module '${name}' (only fs and readline are available in the browser)`);
+      return module;
+    };
+
+    const processShim = {
+      argv: ['node', 'main.js', ...request.args],
+      env: {},
+      stdout: { write: (text: unknown) => write('stdout', String(text)) },
+      stderr: { write: (text: unknown) => write('stderr', String(text)) },
+      exit: (code?: number) => stop(undefined, code ?? 0),
+    };
+    const moduleShim = { exports: {} };
+
+    self.addEventListener('unhandledrejection', event => {
+      event.preventDefault();
+      reportError(event.reason);
+    });
+
+    removeBlockedGlobals();
+    runStarted = performance.now();
+    try {
+      const program = new Function(
+        'console', 'require', 'module', 'exports', 'process',
+        'setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', guardName,
+        request.js
+      );
+      program(
+        consoleShim, requireShim, moduleShim, moduleShim.exports, processShim,
+        timers.setTimeout, timers.clearTimeout, timers.setInterval, timers.clearInterval, loopGuard
+      );
+    } catch (error) {
+      // Like Node, an uncaught error ends the program
+      reportError(error);
+      stopped = true;
+    }
+
+    // Let promises settle and timers fire before reporting the run as finished
+    do {
+      await new Promise(resolve => self.setTimeout(resolve, 0));
+    } while (pendingTimers.size > 0 && !stopped);
+    reportDone();
+  };
+
+  self.onmessage = (event: MessageEvent<JsRunRequest>) => {
+    run(event.data).catch(error => {
+      if (!(error instanceof StopRun)) {
+        post({ type: 'output', stream: 'stderr', text: `${format([error])}\n` });
+      }
+      post({ type: 'done', exitCode: 1, timeMs: 0 });
+    });
+  };
+}
+
+/**
+ * Script for the worker that runs a program
+ */
+export const jsRunnerSource = `(${runnerMain.toString()})(${JSON.stringify(LOOP_GUARD_NAME)});`;
@@ -0,0 +1,52 @@
+/**
+ * Messages between the page, the worker that compiles JavaScript and TypeScript and
+ * the sandboxed worker that runs it
+ */
+
+import type { CompilerDiagnostic } from '../types/executor';
+
+export type BrowserLanguage = 'javascript' | 'typescript';
+
+/**
+ * Function the compiler makes every loop body call, provided by the runner
+ */
+export const LOOP_GUARD_NAME = '__toolboxLoopGuard';
+
+/**
+ * Posted to the compiler worker; each worker compiles one program
+ */
+export interface JsCompileRequest {
+  code: string;
+  language: BrowserLanguage;
+}
+
+/**
+ * Posted back by the compiler worker. `js` is only runnable when `ok`.
+ */
+export interface JsCompileResult {
+  ok: boolean;
+  js: string;
+  diagnostics: CompilerDiagnostic[];
+  errors: string; // Diagnostics formatted like tsc does
+  timeMs: number;
+}
+
+/**
+ * Posted to the runner to start a run; each runner runs one program
+ */
+export interface JsRunRequest {
+  js: string;
+  stdin: string;
+  args: string[];
+  maxIterations: number; // Loop iterations allowed across the whole run
+  maxOutputBytes: number;
+}
+
+/**
+ * Posted by the runner: output as it is printed and 'done' when the program has
+ * finished. The sandbox frame posts 'crashed' when the runner dies without a word.
+ */
+export type JsRunMessage =
+  | { type: 'output'; stream: 'stdout' | 'stderr'; text: string }
+  | { type: 'done'; exitCode: number; timeMs: number }
+  | { type: 'crashed'; message: string };
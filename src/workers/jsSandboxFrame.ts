@@ -0,0 +1,58 @@
+/**
+ * Document for the hidden frame that hosts the runner worker. The frame is sandboxed
+ * without `allow-same-origin`, so it and the worker it starts get an opaque origin and
+ * can't read the app's cookies, local storage or IndexedDB. Its CSP blocks every
+ * request and every script from elsewhere, which the worker inherits, so a program
+ * can't reach the network through `fetch`, `import()` or `eval` either.
+ */
+
+import type { JsRunRequest } from './jsRunnerProtocol';
+
+/**
+ * Posted by the page to the frame, with the port to relay the runner's messages on
+ */
+export interface SandboxStart {
+  source: string; // Script of the runner worker
+  request: JsRunRequest;
+}
+
+// Inline scripts and eval are only allowed for the frame's own script and the runner;
+// nothing can be fetched, and workers only start from blobs the frame creates
+const SANDBOX_CSP = "default-src 'none'; script-src 'unsafe-inline' 'unsafe-eval' blob:; worker-src blob:";
+
+/**
+ * Runs in the frame: starts the runner from the source the page sends and relays its
+ * messages to the page. Written as a single function because its source text is the
+ * frame's script.
+ */
+function frameMain() {
+  let started = false;
+  addEventListener('message', (event: MessageEvent<SandboxStart>) => {
+    const [port] = event.ports;
+    if (started || event.source !== parent || !port) return;
+    started = true;
+
+    try {
+      const url = URL.createObjectURL(new Blob([event.data.source], { type: 'text/javascript' }));
+      const worker = new Worker(url);
+      worker.onmessage = message => port.postMessage(message.data);
+      // The worker dies without a message when it runs out of memory
+      worker.onerror = error => {
+        error.preventDefault();
+        port.postMessage({ type: 'crashed', message: error.message ?? '' });
+      };
+      worker.postMessage(event.data.request);
+    } catch (error) {
+      port.postMessage({ type: 'crashed', message: error instanceof Error ? error.message : String(error) });
+    }
+  });
+}
+
+/**
+ * HTML for the frame's `srcdoc`
+ */
+export const SANDBOX_FRAME_HTML = [
+  '<!doctype html>',
+  `<meta http-equiv="Content-Security-Policy" content="${SANDBOX_CSP}">`,
+  `<script>(${frameMain.toString()})();</script>`,
+].join('\n');
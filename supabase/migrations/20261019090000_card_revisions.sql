@@ -0,0 +1,25 @@
+-- Revision history for cards: one row per save, holding the full card content
+create table if not exists public.card_revisions (
+  id uuid primary key default gen_random_uuid(),
+  card_id uuid not null references public.cards (id) on delete cascade,
+  kind text not null check (kind in ('create', 'update', 'baseline')),
+  snapshot jsonb not null,
+  changed_fields text[] not null default '{}',
+  author_id uuid references auth.users (id) on delete set null,
+  author_name text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists card_revisions_card_id_created_at_idx
+  on public.card_revisions (card_id, created_at desc);
+
+alter table public.card_revisions enable row level security;
+
+create policy "Revisions are readable by everyone"
+  on public.card_revisions for select
+  using (true);
+
+create policy "Signed-in users can record revisions"
+  on public.card_revisions for insert
+  to authenticated
+  with check (author_id is null or author_id = auth.uid());
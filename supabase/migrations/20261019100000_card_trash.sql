@@ -0,0 +1,7 @@
+-- Soft delete: cards are moved to the trash by setting deleted_at, and purged later
+alter table public.cards
+  add column if not exists deleted_at timestamptz;
+
+create index if not exists cards_deleted_at_idx
+  on public.cards (deleted_at)
+  where deleted_at is not null;
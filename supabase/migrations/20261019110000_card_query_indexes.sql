@@ -0,0 +1,32 @@
+-- Server-side filtering, sorting and pagination of the card list
+
+-- Sorting by difficulty needs easy < medium < hard < unset, not alphabetical order
+alter table public.cards
+  add column if not exists difficulty_rank smallint
+  generated always as (
+    case difficulty
+      when 'easy' then 1
+      when 'medium' then 2
+      when 'hard' then 3
+      else 4
+    end
+  ) stored;
+
+create index if not exists cards_title_idx
+  on public.cards (title, id)
+  where deleted_at is null;
+
+create index if not exists cards_date_added_idx
+  on public.cards (date_added desc, id)
+  where deleted_at is null;
+
+create index if not exists cards_classification_idx
+  on public.cards (classification, title, id)
+  where deleted_at is null;
+
+create index if not exists cards_difficulty_rank_idx
+  on public.cards (difficulty_rank, title, id)
+  where deleted_at is null;
+
+create index if not exists cards_tags_idx
+  on public.cards using gin (tags);
@@ -0,0 +1,11 @@
+-- Cards can carry implementations in more than one language. `code` and `language` stay the
+-- primary implementation; the others are stored as { "<language>": "<code>" }.
+alter table public.cards
+  add column if not exists implementations jsonb;
+
+alter table public.cards
+  drop constraint if exists cards_implementations_is_object;
+
+alter table public.cards
+  add constraint cards_implementations_is_object
+  check (implementations is null or jsonb_typeof(implementations) = 'object');
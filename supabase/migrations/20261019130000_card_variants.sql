@@ -0,0 +1,11 @@
+-- Named alternative snippets for a card (e.g. iterative vs recursive), stored in display order as
+-- [{ "name", "language", "code", "time_complexity", "space_complexity" }]
+alter table public.cards
+  add column if not exists variants jsonb;
+
+alter table public.cards
+  drop constraint if exists cards_variants_is_array;
+
+alter table public.cards
+  add constraint cards_variants_is_array
+  check (variants is null or jsonb_typeof(variants) = 'array');
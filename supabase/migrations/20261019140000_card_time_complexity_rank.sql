@@ -0,0 +1,9 @@
+-- Sorting and filtering cards by asymptotic growth. The app parses time_complexity and writes
+-- a sortable rank next to it. Parsing happens in the app, so rows saved before this migration
+-- are ranked once with the app's parser by scripts/backfill-complexity-ranks.mjs.
+alter table public.cards
+  add column if not exists time_complexity_rank double precision;
+
+create index if not exists cards_time_complexity_rank_idx
+  on public.cards (time_complexity_rank, title, id)
+  where deleted_at is null;
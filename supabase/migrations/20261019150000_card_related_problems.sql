@@ -0,0 +1,45 @@
+-- Related problems become structured entries: { platform, number, title, url, difficulty, notes }.
+-- Existing text entries are kept as JSON strings; the app reads them as before and
+-- saves them back as objects the next time the card is edited.
+alter table public.cards
+  alter column related_problems type jsonb using to_jsonb(related_problems);
+
+alter table public.cards
+  drop constraint if exists cards_related_problems_is_array;
+
+alter table public.cards
+  add constraint cards_related_problems_is_array
+  check (related_problems is null or jsonb_typeof(related_problems) = 'array');
+
+-- Each user's solve status for the problems cards link to, keyed by the app's problem key
+-- (e.g. "leetcode:42") so the status is shared by every card that links to the same problem
+create table if not exists public.problem_progress (
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  problem_key text not null,
+  status text not null check (status in ('todo', 'attempted', 'solved')),
+  updated_at timestamptz not null default now(),
+  primary key (user_id, problem_key)
+);
+
+alter table public.problem_progress enable row level security;
+
+create policy "Users can read their own problem progress"
+  on public.problem_progress for select
+  to authenticated
+  using (user_id = auth.uid());
+
+create policy "Users can record their own problem progress"
+  on public.problem_progress for insert
+  to authenticated
+  with check (user_id = auth.uid());
+
+create policy "Users can update their own problem progress"
+  on public.problem_progress for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "Users can clear their own problem progress"
+  on public.problem_progress for delete
+  to authenticated
+  using (user_id = auth.uid());
@@ -0,0 +1,14 @@
+-- Typed links from a card to other cards, stored on the linking card in display order as
+-- [{ "type", "target_id" }]. Backlinks are found by jsonb containment, hence the GIN index.
+alter table public.cards
+  add column if not exists links jsonb;
+
+alter table public.cards
+  drop constraint if exists cards_links_is_array;
+
+alter table public.cards
+  add constraint cards_links_is_array
+  check (links is null or jsonb_typeof(links) = 'array');
+
+create index if not exists cards_links_idx
+  on public.cards using gin (links jsonb_path_ops);
@@ -0,0 +1,33 @@
+-- Each user's spaced-repetition schedule per card (SM-2), written after every review
+create table if not exists public.card_reviews (
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  card_id uuid not null references public.cards (id) on delete cascade,
+  ease_factor real not null default 2.5 check (ease_factor >= 1.3),
+  interval_days integer not null check (interval_days >= 0),
+  repetitions integer not null default 0 check (repetitions >= 0),
+  due_at timestamptz not null,
+  last_reviewed_at timestamptz not null default now(),
+  last_grade smallint not null check (last_grade between 0 and 5),
+  primary key (user_id, card_id)
+);
+
+create index if not exists card_reviews_user_id_due_at_idx
+  on public.card_reviews (user_id, due_at);
+
+alter table public.card_reviews enable row level security;
+
+create policy "Users can read their own reviews"
+  on public.card_reviews for select
+  to authenticated
+  using (user_id = auth.uid());
+
+create policy "Users can record their own reviews"
+  on public.card_reviews for insert
+  to authenticated
+  with check (user_id = auth.uid());
+
+create policy "Users can update their own reviews"
+  on public.card_reviews for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
@@ -0,0 +1,11 @@
+-- Test cases for a card's code, run from the editor, stored in order as
+-- [{ "name", "mode", "input", "function_name", "expected", "comparator", "tolerance" }]
+alter table public.cards
+  add column if not exists test_cases jsonb;
+
+alter table public.cards
+  drop constraint if exists cards_test_cases_is_array;
+
+alter table public.cards
+  add constraint cards_test_cases_is_array
+  check (test_cases is null or jsonb_typeof(test_cases) = 'array');
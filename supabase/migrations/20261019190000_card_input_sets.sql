@@ -0,0 +1,11 @@
+-- Named inputs to run a card's code with from the editor, stored in order as
+-- [{ "name", "stdin", "args" }]
+alter table public.cards
+  add column if not exists input_sets jsonb;
+
+alter table public.cards
+  drop constraint if exists cards_input_sets_is_array;
+
+alter table public.cards
+  add constraint cards_input_sets_is_array
+  check (input_sets is null or jsonb_typeof(input_sets) = 'array');
@@ -0,0 +1,16 @@
+-- Searching tags by substring, the way the app matches them offline. An array filter can
+-- only match whole tags, so the tags are also kept as one lower-case text value for ilike.
+
+-- array_to_string is only stable for arrays in general, but it is immutable for text[],
+-- which a generated column needs
+create or replace function public.card_tags_text(tags text[])
+returns text
+language sql
+immutable
+as $$
+  select lower(array_to_string(tags, E'\n'))
+$$;
+
+alter table public.cards
+  add column if not exists tags_text text
+  generated always as (public.card_tags_text(tags)) stored;
@@ -0,0 +1,66 @@
+-- Repairing and deleting the card rows listed under Data Problems is for admins: users
+-- whose app metadata has "role": "admin", which only the server can set.
+
+create or replace function public.is_admin()
+returns boolean
+language sql
+stable
+as $$
+  select coalesce(auth.jwt() -> 'app_metadata' ->> 'role', '') = 'admin'
+$$;
+
+-- Repairs replace whole columns of rows the app can't load into the editor, so they go
+-- through this function, which checks the caller, instead of a plain update.
+-- Ids, timestamps and generated columns can't be replaced.
+create or replace function public.repair_card(card_id uuid, columns jsonb)
+returns public.cards
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  assignments text;
+  repaired public.cards;
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can repair cards' using errcode = '42501';
+  end if;
+
+  select string_agg(format('%I = source.%I', key, key), ', ')
+    into assignments
+    from jsonb_object_keys(columns) as key
+    join information_schema.columns as col
+      on col.table_schema = 'public' and col.table_name = 'cards' and col.column_name = key
+    where col.is_generated = 'NEVER'
+      and key not in ('id', 'created_at', 'updated_at', 'deleted_at');
+  if assignments is null then
+    raise exception 'No card columns to repair' using errcode = '22023';
+  end if;
+
+  execute format(
+    'update public.cards as card
+        set %s, updated_at = now()
+       from jsonb_populate_record(null::public.cards, $1) as source
+      where card.id = $2
+      returning card.*',
+    assignments
+  ) into repaired using columns, card_id;
+  if repaired.id is null then
+    raise exception 'Card % not found', card_id using errcode = 'P0002';
+  end if;
+  return repaired;
+end;
+$$;
+
+revoke execute on function public.repair_card(uuid, jsonb) from public, anon;
+grant execute on function public.repair_card(uuid, jsonb) to authenticated;
+
+-- Everyone who can edit may purge their trash, but only admins can delete a card that
+-- isn't in it, which is how Data Problems removes rows it can't repair. Restrictive,
+-- so it narrows whatever delete policies the table already has.
+create policy "Only admins can delete cards outside the trash"
+  on public.cards
+  as restrictive
+  for delete
+  to authenticated
+  using (deleted_at is not null or public.is_admin());
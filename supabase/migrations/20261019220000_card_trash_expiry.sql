@@ -0,0 +1,50 @@
+-- Cards stay in the trash for 30 days, then the database purges them once a day. Expiry
+-- is decided here with the server's clock, so no browser ever bulk-deletes cards.
+-- Keep VITE_TRASH_RETENTION_DAYS in step when changing the interval in the job below.
+
+create or replace function public.purge_expired_trash(retention interval default interval '30 days')
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  purged text[];
+begin
+  with deleted as (
+    delete from public.cards
+     where deleted_at < now() - retention
+    returning id
+  )
+  select coalesce(array_agg(id::text), '{}') into purged from deleted;
+
+  -- Drop links to the purged cards, from trashed cards as well so a restore can't bring them back
+  if cardinality(purged) > 0 then
+    update public.cards as card
+       set links = (
+         select coalesce(jsonb_agg(item.link order by item.position), '[]'::jsonb)
+           from jsonb_array_elements(card.links) with ordinality as item(link, position)
+          where item.link ->> 'target_id' <> all(purged)
+       )
+     where card.links is not null
+       and exists (
+         select 1
+           from jsonb_array_elements(card.links) as item(link)
+          where item.link ->> 'target_id' = any(purged)
+       );
+  end if;
+
+  return cardinality(purged);
+end;
+$$;
+
+-- Only the scheduled job runs it
+revoke execute on function public.purge_expired_trash(interval) from public, anon, authenticated;
+
+create extension if not exists pg_cron;
+
+select cron.schedule(
+  'purge-expired-trash',
+  '0 3 * * *',
+  $$select public.purge_expired_trash(interval '30 days')$$
+);
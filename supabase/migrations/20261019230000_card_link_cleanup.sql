@@ -0,0 +1,52 @@
+-- Deleting cards for good also drops the links other cards make to them, in the same
+-- statement, whoever deletes them. Cards in the trash lose those links too, so restoring
+-- one can't bring back a link to a card that no longer exists.
+
+create or replace function public.remove_links_to_deleted_cards()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.cards as card
+     set links = (
+           select jsonb_agg(item.link order by item.position)
+             from jsonb_array_elements(card.links) with ordinality as item(link, position)
+            where item.link ->> 'target_id' not in (select removed.id::text from removed)
+         ),
+         updated_at = now()
+   where card.links is not null
+     and exists (
+       select 1
+         from jsonb_array_elements(card.links) as item(link)
+         join removed on removed.id::text = item.link ->> 'target_id'
+     );
+  return null;
+end;
+$$;
+
+drop trigger if exists cards_remove_links_to_deleted on public.cards;
+
+create trigger cards_remove_links_to_deleted
+  after delete on public.cards
+  referencing old table as removed
+  for each statement
+  execute function public.remove_links_to_deleted_cards();
+
+-- The trigger now drops the links of expired cards as well
+create or replace function public.purge_expired_trash(retention interval default interval '30 days')
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  purged integer;
+begin
+  delete from public.cards
+   where deleted_at < now() - retention;
+  get diagnostics purged = row_count;
+  return purged;
+end;
+$$;
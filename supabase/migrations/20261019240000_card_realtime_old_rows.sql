@@ -0,0 +1,3 @@
+-- Realtime updates carry the whole old row, so the app can tell whether a changed card
+-- was in the list it shows and skip refetching when it wasn't
+alter table public.cards replica identity full;
@@ -0,0 +1,95 @@
+-- Revision authors and times come from the server. Users can only record create and
+-- update revisions as themselves, and a trigger replaces the author and time they send
+-- with the caller and the database clock. A card's baseline, its content before its
+-- first recorded edit, is written by a trigger on cards instead of by the app.
+
+drop policy if exists "Signed-in users can record revisions" on public.card_revisions;
+
+create policy "Signed-in users can record their own revisions"
+  on public.card_revisions for insert
+  to authenticated
+  with check (author_id = auth.uid() and kind in ('create', 'update'));
+
+-- The name is the one the app shows for the user: their full name, or else their email
+create or replace function public.set_card_revision_author()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.kind = 'baseline' then
+    return new;
+  end if;
+  new.author_id := auth.uid();
+  new.author_name := coalesce(
+    nullif(auth.jwt() -> 'user_metadata' ->> 'full_name', ''),
+    nullif(auth.jwt() ->> 'email', ''),
+    'Unknown'
+  );
+  new.created_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists card_revisions_set_author on public.card_revisions;
+
+create trigger card_revisions_set_author
+  before insert on public.card_revisions
+  for each row
+  execute function public.set_card_revision_author();
+
+-- The content columns a revision snapshot holds, as the app records them
+create or replace function public.card_snapshot(card public.cards)
+returns jsonb
+language sql
+stable
+as $$
+  select jsonb_build_object(
+    'title', card.title,
+    'classification', card.classification,
+    'difficulty', card.difficulty,
+    'code', card.code,
+    'explanation', card.explanation,
+    'time_complexity', card.time_complexity,
+    'time_complexity_rank', card.time_complexity_rank,
+    'space_complexity', card.space_complexity,
+    'methods', card.methods,
+    'tags', card.tags,
+    'use_cases', card.use_cases,
+    'related_problems', card.related_problems,
+    'date_added', card.date_added,
+    'language', card.language,
+    'implementations', card.implementations,
+    'variants', card.variants,
+    'links', card.links,
+    'test_cases', card.test_cases,
+    'input_sets', card.input_sets
+  )
+$$;
+
+-- Runs as the owner, which the insert policy doesn't apply to, so baselines keep no
+-- author and the time of the content they hold
+create or replace function public.record_card_baseline()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  snapshot jsonb := public.card_snapshot(old);
+begin
+  if snapshot = public.card_snapshot(new)
+     or exists (select 1 from public.card_revisions where card_id = old.id) then
+    return null;
+  end if;
+  insert into public.card_revisions (card_id, kind, snapshot, changed_fields, author_id, author_name, created_at)
+  values (old.id, 'baseline', snapshot, '{}', null, null, old.updated_at);
+  return null;
+end;
+$$;
+
+drop trigger if exists cards_record_baseline on public.cards;
+
+create trigger cards_record_baseline
+  after update on public.cards
+  for each row
+  execute function public.record_card_baseline();
@@ -4,4 +4,6 @@ import react from '@vitejs/plugin-react-swc'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  // The code compiler worker loads the TypeScript compiler on demand
+  worker: { format: 'es' },
 })